@@ -1,13 +1,61 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   Camera, Trash2, Search, Loader2, Zap, Copy, ImageIcon, Sparkles, LayoutGrid, FileDown, 
-  Package, X, History, ChevronRight, Box, AlertCircle, Edit3, Scan, Users, MapPin, CheckCircle2, Save, Download, Video, Play, Activity, Clock, Layers, Maximize2, ChevronDown, ChevronUp, Monitor, ZapOff, Trash, Cpu, Wand2
+  Package, X, History, ChevronRight, Box, AlertCircle, Edit3, Scan, Users, MapPin, CheckCircle2, Save, Download, Video, Play, Activity, Clock, Layers, Maximize2, ChevronDown, ChevronUp, Monitor, ZapOff, Trash, Cpu, Wand2, FileText, RefreshCw, Plus, Film, FileSpreadsheet, Coins
 } from 'lucide-react';
-import { AppState, ProductAnalysis, IndividualAnalysis, SceneType, HistoryRecord, ProductPrompt, VideoResolution, VideoAspectRatio, VideoEngine } from './types';
-import { analyzeIndividualImages, synthesizeProductProfile, generateStoryboards, generateProductProfileFromText, generateGridImage, generateVideoWithExtension, refineVideoPromptWithGemini } from './services/geminiService';
+import { AppState, ProductAnalysis, IndividualAnalysis, SceneType, ProjectRecord, ProjectSession, ProductPrompt, VideoResolution, VideoAspectRatio, VideoEngine, MediaAsset, ProfileField, ProfileSource, CaptureAngle, TimelineClip, RenderJob, RenderJobTarget, VideoRenderConfig, VideoRecord, StylePreset, GridAspectRatio, GridLayout, OutputLanguages, PromptVersion, PromptVersionSource, RenderProvenance, RenderReferenceKind, RenderTake, TakeKind, TakeVerdict } from './types';
+import { analyzeIndividualImages, synthesizeProductProfile, generateStoryboards, generateProductProfileFromText, generateGridImage, generateVideoWithExtension, refineVideoPromptWithGemini, generatePanelImage, ensureApiKey, analyzeSingleAsset, regenerateShot, regenerateStoryboardSet, generateAdditionalStoryboards, StoryboardContext } from './services/geminiService';
+import { EMPTY_PROFILE, isProfileReady, mergeLockedFields } from './services/profile';
+import ModelSettingsModal from './components/ModelSettingsModal';
+import CameraCapture from './components/CameraCapture';
+import StylePresetModal from './components/StylePresetModal';
+import AnalysisReview from './components/AnalysisReview';
+import ProfileEditor from './components/ProfileEditor';
+import ShotEditor from './components/ShotEditor';
+import ProjectLibraryModal from './components/ProjectLibraryModal';
+import VideoLibraryModal from './components/VideoLibraryModal';
+import PromptHistoryModal from './components/PromptHistoryModal';
+import ProvenanceDetails from './components/ProvenanceDetails';
+import TakeStrip from './components/TakeStrip';
+import TakeCompareModal from './components/TakeCompareModal';
+import BatchRunModal from './components/BatchRunModal';
+import UsageDashboardModal, { useUsage } from './components/UsageDashboardModal';
+import PanelStrip from './components/PanelStrip';
+import SequenceTimeline from './components/SequenceTimeline';
+import RenderJobsPanel, { useRenderJobs } from './components/RenderJobsPanel';
+import LocaleSwitcher, { useLocale } from './components/LocaleSwitcher';
+import OutputLanguageSettings from './components/OutputLanguageSettings';
+import { getVideoDuration, concatenateClips, buildTimelineJson, buildEdl } from './services/timeline';
+import { downloadBlob, sanitizeFilename } from './services/download';
+import { sliceGridImage, composeGridImage, getImageSize, getGridLayout, inferGridAspectRatio, formatGridLayout, cssAspectRatio, getPanelAspectRatio, SHOT_COUNT_OPTIONS, GRID_ASPECT_RATIOS } from './services/gridImage';
+import { DEFAULT_SHOT_COUNT } from './services/outputValidation';
+import { formatPromptForEditing } from './services/scriptFormat';
+import { createPromptVersion, appendPromptVersion, getLatestVersion, isSameVersionContent, getVersionLabel } from './services/promptHistory';
+import { getModelConfig } from './services/modelConfig';
+import { createTake, addTake, updateTake, setTakeVerdict, getTakesOfKind, getApprovedTake, isActiveTake, seedTakes } from './services/takes';
+import { exportStoryboardHtml, printStoryboardPdf } from './services/storyboardDocument';
+import { ingestFiles, getReferenceImage } from './services/mediaIngest';
+import { BUILT_IN_PRESETS, builtInPresetId, listPresets, savePreset, resolvePreset, styleDirectives } from './services/stylePresets';
+import { createProjectId, saveProject, getProject, migrateLegacyHistory } from './services/projectStore';
+import { VideoArchiveMeta, archiveVideo, getPlaybackUrl, resolveSessionVideos } from './services/videoLibrary';
+import { enqueueRenderJob, resumePersistedJobs, isJobCancelled } from './services/renderJobs';
+import { t, getDateLocale, defaultOutputLanguages } from './services/i18n';
+import { hasKeySelector, openKeySelector, isProxyEnabled } from './services/apiAccess';
+import { setUsageProject, getSessionRecords, sumCost, formatCost, dismissBudgetWarning, estimateStoryboardCost, estimateImageCost, estimateVideoCost } from './services/usage';
+import { toServiceError, RateLimitError, AuthError, SafetyBlockedError, EmptyResultError, InvalidJsonError, SchemaValidationError, TimeoutError, ServerError, BudgetExceededError } from './services/errors';
 
-const SCENE_OPTIONS: SceneType[] = ['Studio', 'Lifestyle', 'Outdoor', 'Tech/Laboratory', 'Cinematic', 'Minimalist'];
+const profileSourceLabel = (source: ProfileSource) => t(`profile.source.${source}`);
+const angleLabel = (angle: CaptureAngle) => t(`angle.${angle}`);
+const budgetScopeLabel = (scope: BudgetExceededError['scope']) => t(`usage.scope.${scope}`);
+const AUTOSAVE_DELAY = 1500;
+// 手动编辑停顿后才记为一个版本，避免逐字产生版本
+const VERSION_EDIT_DELAY = 2000;
+
+interface ErrorAction {
+  label: string;
+  run: () => void;
+}
 const DURATION_OPTIONS = [
   { label: '5-7s (标准)', value: 5 },
   { label: '12-14s (延长)', value: 12 },
@@ -32,25 +80,54 @@ const compressImage = (base64Str: string, maxWidth = 200): Promise<string> => {
 };
 
 const App: React.FC = () => {
+  // 界面语言切换时整棵组件树重新渲染，文案随之更新
+  useLocale();
   const [state, setState] = useState<AppState>(AppState.IDLE);
   const [productName, setProductName] = useState<string>('');
-  const [images, setImages] = useState<{id: string, data: string, type: 'image' | 'video'}[]>([]);
+  const [productBrief, setProductBrief] = useState<string>('');
+  const [images, setImages] = useState<MediaAsset[]>([]);
   const [analysis, setAnalysis] = useState<ProductAnalysis | null>(null);
   const [promptCount, setPromptCount] = useState<number>(3);
-  const [language, setLanguage] = useState<'zh' | 'en'>('zh');
+  const [shotCount, setShotCount] = useState<number>(DEFAULT_SHOT_COUNT);
+  const [gridAspectRatio, setGridAspectRatio] = useState<GridAspectRatio>('16:9');
+  const [outputLanguages, setOutputLanguages] = useState<OutputLanguages>(() => defaultOutputLanguages());
   const [sceneType, setSceneType] = useState<SceneType>('Studio');
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>(BUILT_IN_PRESETS);
+  const [stylePresetId, setStylePresetId] = useState<string>(builtInPresetId('Studio'));
+  const [setStyles, setSetStyles] = useState<Record<number, string>>({});
+  const [showPresets, setShowPresets] = useState<boolean>(false);
   
   const [generatedPrompts, setGeneratedPrompts] = useState<ProductPrompt[]>([]);
-  const [editablePrompts, setEditablePrompts] = useState<string[]>([]);
   const [refinedPrompts, setRefinedPrompts] = useState<Record<number, string>>({});
+  const [promptHistory, setPromptHistory] = useState<Record<number, PromptVersion[]>>({});
+  const [historyView, setHistoryView] = useState<{ setIdx: number, versionId?: string } | null>(null);
+  const [ingesting, setIngesting] = useState<boolean>(false);
+  const [reanalyzing, setReanalyzing] = useState<Record<string, boolean>>({});
   const [refining, setRefining] = useState<Record<number, boolean>>({});
+  const [steeringNotes, setSteeringNotes] = useState<Record<number, string>>({});
+  const [regeneratingSets, setRegeneratingSets] = useState<Record<number, boolean>>({});
+  const [regeneratingShots, setRegeneratingShots] = useState<Record<number, Record<number, boolean>>>({});
+  const [extraSetCount, setExtraSetCount] = useState<number>(1);
+  const [extraSetNote, setExtraSetNote] = useState<string>('');
+  const [addingSets, setAddingSets] = useState<boolean>(false);
   
   const [gridImages, setGridImages] = useState<Record<number, string>>({});
   const [imageLoading, setImageLoading] = useState<Record<number, boolean>>({});
+  const [gridPanels, setGridPanels] = useState<Record<number, { source: string, panels: string[], layout: GridLayout }>>({});
+  const [panelLoading, setPanelLoading] = useState<Record<number, Record<number, boolean>>>({});
+  const [gridProvenance, setGridProvenance] = useState<Record<number, RenderProvenance>>({});
   
   const [setVideoUrls, setSetVideoUrls] = useState<Record<number, string>>({});
+  const [setVideoIds, setSetVideoIds] = useState<Record<number, string>>({});
+  const [videoProvenance, setVideoProvenance] = useState<Record<number, RenderProvenance>>({});
+  const [takes, setTakes] = useState<Record<number, RenderTake[]>>({});
+  const [takeView, setTakeView] = useState<{ setIdx: number, kind: TakeKind, takeId?: string } | null>(null);
   const [setVideoLoading, setSetVideoLoading] = useState<Record<number, boolean>>({});
   const [setVideoStatus, setSetVideoStatus] = useState<Record<number, string>>({});
+  const [sequences, setSequences] = useState<Record<number, TimelineClip[]>>({});
+  const [sequenceLoading, setSequenceLoading] = useState<Record<number, boolean>>({});
+  const [sequenceStatus, setSequenceStatus] = useState<Record<number, string>>({});
+  const [sequenceExporting, setSequenceExporting] = useState<Record<number, string | null>>({});
 
   const [videoResolution, setVideoResolution] = useState<VideoResolution>('1080p');
   const [videoAspectRatio, setVideoAspectRatio] = useState<VideoAspectRatio>('9:16');
@@ -58,105 +135,596 @@ const App: React.FC = () => {
   const [targetDuration, setTargetDuration] = useState<number>(5);
 
   const [error, setError] = useState<string | null>(null);
+  const [errorAction, setErrorAction] = useState<ErrorAction | null>(null);
   const [copyStates, setCopyStates] = useState<Record<string, boolean>>({});
   
-  const [history, setHistory] = useState<HistoryRecord[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState<string>('');
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(0);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
   const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [showVideos, setShowVideos] = useState<boolean>(false);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
+  const [batchRunning, setBatchRunning] = useState<boolean>(false);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [showModelSettings, setShowModelSettings] = useState<boolean>(false);
+  const [showJobs, setShowJobs] = useState<boolean>(false);
+  const [showCamera, setShowCamera] = useState<boolean>(false);
+  const renderJobs = useRenderJobs();
+  const activeJobCount = renderJobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+  const usage = useUsage();
+  const sessionCost = sumCost(getSessionRecords(usage.records));
+  // 恢复的任务在异步回调中完成，需要读取最新的项目 ID
+  const projectIdRef = useRef<string | null>(null);
+  projectIdRef.current = projectId;
+  // 渲染完成时判断是否已有通过的结果，需要读取最新的评审状态
+  const takesRef = useRef<Record<number, RenderTake[]>>({});
+  takesRef.current = takes;
+  // 评审更新函数里确定的通过结果，提交后再设为当前输出
+  const pendingApproval = useRef<{ setIdx: number, take: RenderTake } | null>(null);
   const [expandedSets, setExpandedSets] = useState<Record<number, boolean>>({ 0: true });
 
-  // Modified handleError to handle API key selection resets based on guidelines
+  // 按错误类型给出提示与对应的恢复操作
   const handleError = (err: any) => {
+    if (isJobCancelled(err)) return;
     console.error(err);
-    const message = err instanceof Error ? err.message : String(err);
-    if (message.includes("429") || message.includes("RESOURCE_EXHAUSTED") || message.includes("500") || message.includes("503")) {
-      setError("API 频率限制或服务器压力。请等待 1 分钟，或切换“渲染引擎”。");
-    } else if (message.includes("Requested entity was not found")) {
-      setError("API Key 效验失败或权限不足，请重新选择有效的付费项目 Key。");
-      /* @ts-ignore */
-      if (window.aistudio && window.aistudio.openSelectKey) {
-        /* @ts-ignore */
-        window.aistudio.openSelectKey();
-      }
+    const typed = toServiceError(err);
+    const openJobs: ErrorAction = { label: t('error.action.openJobs'), run: () => setShowJobs(true) };
+    const openModelSettings: ErrorAction = { label: t('error.action.modelSettings'), run: () => setShowModelSettings(true) };
+    if (typed instanceof RateLimitError) {
+      const wait = typed.retryAfterMs ? t('error.rateLimit.after', { seconds: Math.ceil(typed.retryAfterMs / 1000) }) : t('error.rateLimit.minute');
+      setError(t('error.rateLimit', { wait }));
+      setErrorAction(openJobs);
+    } else if (typed instanceof AuthError) {
+      // 代理或独立部署时 Key 在服务端 / 构建配置中，无法在页面上重新选择
+      setError(hasKeySelector() ? t('error.auth') : t(isProxyEnabled() ? 'error.authProxy' : 'error.authEnv'));
+      setErrorAction(hasKeySelector() ? { label: t('error.action.selectKey'), run: () => { openKeySelector().catch(handleError); } } : null);
+    } else if (typed instanceof SafetyBlockedError) {
+      setError(t('error.safety', { category: typed.category }));
+      setErrorAction(null);
+    } else if (typed instanceof EmptyResultError) {
+      setError(t('error.empty', { message: typed.message }));
+      setErrorAction(openModelSettings);
+    } else if (typed instanceof InvalidJsonError) {
+      setError(t('error.invalidJson'));
+      setErrorAction(openModelSettings);
+    } else if (typed instanceof SchemaValidationError) {
+      const shown = typed.issues.slice(0, 8);
+      const more = typed.issues.length - shown.length;
+      setError(t('error.schema', { issues: shown.map(issue => `· ${issue}`).join('\n'), more: more > 0 ? t('error.schema.more', { count: more }) : '' }));
+      setErrorAction(openModelSettings);
+    } else if (typed instanceof TimeoutError) {
+      setError(t('error.timeout', { message: typed.message }));
+      setErrorAction(openJobs);
+    } else if (typed instanceof ServerError) {
+      setError(t('error.server'));
+      setErrorAction(null);
+    } else if (typed instanceof BudgetExceededError) {
+      setError(typed.message);
+      setErrorAction({ label: t('error.action.usage'), run: () => setShowUsage(true) });
     } else {
-      setError(message || "未知错误");
+      setError((typed instanceof Error ? typed.message : String(typed)) || t('common.unknownError'));
+      setErrorAction(null);
     }
     setState(AppState.IDLE);
   };
 
+  // 未显式指定项目的调用（分析、建档、分镜等）按当前项目记账
+  useEffect(() => { setUsageProject(projectId); }, [projectId]);
+
+  // 单步估算费用达到设置的阈值时先请用户确认
+  const confirmCost = (estimate: number) => {
+    const { confirmAbove } = usage.budget;
+    return confirmAbove === null || estimate < confirmAbove || window.confirm(t('usage.confirmCost', { cost: formatCost(estimate) }));
+  };
+
   useEffect(() => {
-    const stored = localStorage.getItem('storyboard_history');
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        if (Array.isArray(parsed)) setHistory(parsed as HistoryRecord[]);
-      } catch (e) {}
-    }
+    migrateLegacyHistory().catch(err => console.error(err));
+    refreshPresets();
   }, []);
 
-  const formatPromptForEditing = (p: ProductPrompt): string => {
-    let text = `【全局调性】: ${p.instruction}\n\n`;
-    p.shots.forEach((shot, i) => {
-      text += `镜头 ${i + 1} [${shot.cameraAngle} | ${shot.lighting}]: ${shot.description}\n`;
+  const refreshPresets = () => listPresets().then(setStylePresets).catch(err => console.error(err));
+
+  // 项目中引用、但本机预设库里没有的预设（如从项目包导入）补存到本地
+  const importSessionPresets = async (snapshots: StylePreset[]) => {
+    const known = new Set((await listPresets()).map(p => p.id));
+    const missing = snapshots.filter(p => !known.has(p.id));
+    if (missing.length === 0) return;
+    await Promise.all(missing.map(savePreset));
+    refreshPresets();
+  };
+
+  const selectStylePreset = (id: string) => {
+    const preset = resolvePreset(stylePresets, id, sceneType);
+    setStylePresetId(preset.id);
+    setSceneType(preset.sceneType);
+    const defaults = preset.renderDefaults || {};
+    if (defaults.videoResolution) setVideoResolution(defaults.videoResolution);
+    if (defaults.videoAspectRatio) setVideoAspectRatio(defaults.videoAspectRatio);
+    if (defaults.videoEngine) setVideoEngine(defaults.videoEngine);
+    if (defaults.targetDuration) setTargetDuration(defaults.targetDuration);
+  };
+
+  // 刷新前未完成的 Veo 任务：按保存的 operation 继续轮询，结果写回所属项目
+  useEffect(() => {
+    const resumed = resumePersistedJobs(job => {
+      const resume = job.resume;
+      if (!resume) return null;
+      return ctx => generateVideoWithExtension(resume.prompt, '', resume.config, ctx.setMessage, {
+        signal: ctx.signal,
+        projectId: job.target.projectId,
+        resume: resume.operation,
+        onOperation: operation => ctx.setResume({ ...resume, operation })
+      });
     });
-    return text;
+    resumed.forEach(({ job, promise }) => {
+      promise.then(url => applyResumedResult(job, url)).catch(err => {
+        if (!isJobCancelled(err)) console.error(err);
+      });
+    });
+  }, []);
+
+  const applyResumedResult = async (job: RenderJob, url: string) => {
+    const { target, resume } = job;
+    // 项目已自动保存，名称从项目库读取；即使项目已删除，视频也照样入库
+    const record = target.projectId ? await getProject(target.projectId) : undefined;
+    const archived = resume ? await archiveRender(url, {
+      projectId: target.projectId,
+      projectName: record?.name || '',
+      productName: record?.session.productName || '',
+      setIdx: target.setIdx,
+      shotIdx: target.type === 'sequence-clip' ? target.shotIdx : undefined,
+      prompt: resume.prompt,
+      config: resume.config,
+      provenance: resume.provenance
+    }) : null;
+    const playable = archived ? getPlaybackUrl(archived) : url;
+    const clip: TimelineClip | null = target.type === 'sequence-clip' && target.shotIdx !== undefined
+      ? { id: createProjectId(), setIdx: target.setIdx, shotIdx: target.shotIdx, url: playable, duration: resume?.config.targetDuration || 5, trimStart: 0, trimEnd: resume?.config.targetDuration || 5, videoId: archived?.id, provenance: resume?.provenance }
+      : null;
+    if (clip) {
+      const duration = archived?.duration || await getVideoDuration(playable).catch(() => clip.duration);
+      clip.duration = duration;
+      clip.trimEnd = duration;
+    }
+
+    if (target.projectId && target.projectId === projectIdRef.current) {
+      if (target.type === 'set-video') commitTake(target.setIdx, createTake('video', playable, { videoId: archived?.id, provenance: resume?.provenance }));
+      if (clip) setSequences(prev => ({ ...prev, [target.setIdx]: addSequenceClip(prev[target.setIdx], clip) }));
+      return;
+    }
+    if (!record) return;
+    const session = { ...record.session };
+    if (target.type === 'set-video') {
+      const locked = !!getApprovedTake(session.takes?.[target.setIdx], 'video');
+      session.takes = { ...session.takes, [target.setIdx]: addTake(session.takes?.[target.setIdx], createTake('video', playable, { videoId: archived?.id, provenance: resume?.provenance })) };
+      if (locked) {
+        await saveProject({ ...record, session, updatedAt: Date.now() });
+        return;
+      }
+      session.videoUrls = { ...session.videoUrls, [target.setIdx]: playable };
+      session.videoIds = withVideoId(session.videoIds || {}, target.setIdx, archived?.id);
+      session.videoProvenance = withProvenance(session.videoProvenance || {}, target.setIdx, resume?.provenance);
+    }
+    if (clip) session.sequences = { ...session.sequences, [target.setIdx]: addSequenceClip(session.sequences?.[target.setIdx], clip) };
+    await saveProject({ ...record, session, updatedAt: Date.now() });
+  };
+
+  // 渲染结果存入本地视频库；入库失败（如跨域下载受限）时仍可用原地址播放
+  const archiveRender = (url: string, meta: VideoArchiveMeta) => archiveVideo(url, meta).catch(err => {
+    console.warn("视频未能存入本地视频库", err);
+    return null;
+  });
+
+  const getArchiveMeta = (setIdx: number) => ({
+    projectId,
+    projectName: projectName || productName,
+    productName,
+    setIdx
+  });
+
+  const withVideoId = (ids: Record<number, string>, setIdx: number, id?: string) => {
+    const { [setIdx]: _, ...rest } = ids;
+    return id ? { ...rest, [setIdx]: id } : rest;
   };
 
-  const saveToHistory = async (prompts: ProductPrompt[], currentAnalysis: ProductAnalysis) => {
-    const originalRef = images.find(i => i.type === 'image')?.data || images[0]?.data || '';
+  const withProvenance = (map: Record<number, RenderProvenance>, setIdx: number, provenance?: RenderProvenance) => {
+    const { [setIdx]: _, ...rest } = map;
+    return provenance ? { ...rest, [setIdx]: provenance } : rest;
+  };
+
+  const buildSession = (): ProjectSession => ({
+    productName,
+    productBrief,
+    assets: images,
+    analysis,
+    prompts: generatedPrompts,
+    refinedPrompts,
+    promptHistory,
+    gridImages,
+    gridProvenance,
+    videoUrls: setVideoUrls,
+    videoIds: setVideoIds,
+    videoProvenance,
+    takes,
+    sequences,
+    setStyles,
+    stylePresets: stylePresets.filter(p => !p.builtIn && (p.id === stylePresetId || Object.values(setStyles).includes(p.id))),
+    settings: { promptCount, language: outputLanguages.storyboard, outputLanguages, sceneType, videoResolution, videoAspectRatio, videoEngine, targetDuration, stylePresetId, shotCount, gridAspectRatio }
+  });
+
+  const applySession = (session: ProjectSession) => {
+    setProductName(session.productName);
+    setProductBrief(session.productBrief);
+    setImages(session.assets);
+    // 保存时仍在分析中的条目已无法继续，标记为失败以便重试
+    setAnalysis(session.analysis && {
+      ...session.analysis,
+      individualAnalyses: session.analysis.individualAnalyses.map(a =>
+        a.status === 'pending' || a.status === 'running' ? { ...a, status: 'failed', error: t('analysis.interrupted') } : a)
+    });
+    setGeneratedPrompts(session.prompts);
+    setRefinedPrompts(session.refinedPrompts);
+    // 没有版本记录的旧项目，以当前脚本作为第一个版本
+    versionSources.current = {};
+    setPromptHistory(session.promptHistory || Object.fromEntries(session.prompts.map((p, i) => [i, [createPromptVersion('generated', p, session.refinedPrompts[i])]])));
+    setGridImages(session.gridImages);
+    setGridProvenance(session.gridProvenance || {});
+    setSetVideoUrls(session.videoUrls);
+    setSetVideoIds(session.videoIds || {});
+    setVideoProvenance(session.videoProvenance || {});
+    setSequences(session.sequences || {});
+    const withTakes = { ...session, takes: session.takes || seedTakes(session) };
+    setTakes(withTakes.takes);
+    // 保存的远程视频地址会过期，视频库中有副本的改用本地地址播放
+    resolveSessionVideos(withTakes).then(resolved => {
+      setSetVideoUrls(resolved.videoUrls);
+      setSequences(resolved.sequences || {});
+      setTakes(resolved.takes || {});
+    }).catch(err => console.error(err));
+    setPromptCount(session.settings.promptCount);
+    setShotCount(session.settings.shotCount ?? DEFAULT_SHOT_COUNT);
+    setGridAspectRatio(session.settings.gridAspectRatio || '16:9');
+    // 旧项目只记录了分镜语言：当时分析与基因固定中文、导演指令固定英文
+    setOutputLanguages(session.settings.outputLanguages || { analysis: 'zh', profile: 'zh', storyboard: session.settings.language, refine: 'en' });
+    setSceneType(session.settings.sceneType);
+    setStylePresetId(session.settings.stylePresetId || builtInPresetId(session.settings.sceneType));
+    setSetStyles(session.setStyles || {});
+    importSessionPresets(session.stylePresets || []).catch(err => console.error(err));
+    setVideoResolution(session.settings.videoResolution);
+    setVideoAspectRatio(session.settings.videoAspectRatio);
+    setVideoEngine(session.settings.videoEngine);
+    setTargetDuration(session.settings.targetDuration);
+    setSteeringNotes({});
+    setSetVideoStatus({});
+    setGridPanels({});
+    setState(session.prompts.length > 0 ? AppState.COMPLETED : session.analysis ? AppState.EDITING_GLOBAL : AppState.IDLE);
+  };
+
+  const persistProject = async (id: string) => {
+    const originalRef = getReferenceImage(images) || '';
     const thumbnail = originalRef ? await compressImage(originalRef) : '';
-    const newRecord: HistoryRecord = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: Date.now(),
-      productName: productName || '未命名产品',
-      referenceImage: thumbnail,
-      prompts: JSON.parse(JSON.stringify(prompts)),
-      analysis: JSON.parse(JSON.stringify(currentAnalysis))
+    const record: ProjectRecord = {
+      id,
+      name: projectName || productName || t('app.untitled'),
+      createdAt: projectCreatedAt || Date.now(),
+      updatedAt: Date.now(),
+      thumbnail,
+      session: buildSession()
     };
-    const updated = [newRecord, ...history].slice(0, 12);
-    setHistory(updated);
-    try {
-      localStorage.setItem('storyboard_history', JSON.stringify(updated));
-    } catch (e) {
-      localStorage.setItem('storyboard_history', JSON.stringify(updated.slice(0, 3)));
+    await saveProject(record);
+    setLastSavedAt(record.updatedAt);
+  };
+
+  // 项目建立后，工作区的任何变动都会延迟自动保存
+  useEffect(() => {
+    if (!projectId) return;
+    const timer = setTimeout(() => { persistProject(projectId).catch(handleError); }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [projectId, productName, productBrief, images, analysis, generatedPrompts, refinedPrompts, promptHistory, gridImages, gridProvenance, setVideoUrls, setVideoIds, videoProvenance, takes, sequences, promptCount, shotCount, gridAspectRatio, outputLanguages, sceneType, stylePresetId, setStyles, videoResolution, videoAspectRatio, videoEngine, targetDuration]);
+
+  const handleSaveProject = async () => {
+    if (projectId) {
+      try { await persistProject(projectId); } catch (err: any) { handleError(err); }
+      return;
     }
+    setProjectId(createProjectId());
+    setProjectName(productName || t('app.untitled'));
+    setProjectCreatedAt(Date.now());
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || []) as File[];
-    files.forEach((file) => {
-      const isVideo = file.type.startsWith('video/');
-      const reader = new FileReader();
-      reader.onload = (ev) => {
-        if (ev.target?.result) {
-          setImages(prev => [...prev, { 
-            id: Math.random().toString(36).substr(2, 9), 
-            data: ev.target!.result as string, 
-            type: isVideo ? 'video' : 'image' 
-          }]);
+  const handleRestoreProject = (record: ProjectRecord) => {
+    applySession(record.session);
+    setProjectId(record.id);
+    setProjectName(record.name);
+    setProjectCreatedAt(record.createdAt);
+    setLastSavedAt(record.updatedAt);
+    setShowHistory(false);
+  };
+
+  // 视频库中删除的视频，其本地播放地址已失效，从当前工作区移除
+  const handleVideoDeleted = (record: VideoRecord) => {
+    const setIdx = Object.keys(setVideoIds).map(Number).find(idx => setVideoIds[idx] === record.id);
+    if (setIdx !== undefined) {
+      setSetVideoIds(prev => withVideoId(prev, setIdx));
+      setVideoProvenance(prev => withProvenance(prev, setIdx));
+      setSetVideoUrls(prev => {
+        const { [setIdx]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+    setSequences((prev: Record<number, TimelineClip[]>) => Object.fromEntries(Object.entries(prev).map(([key, clips]) => [key, clips.filter(clip => clip.videoId !== record.id)])));
+    setTakes((prev: Record<number, RenderTake[]>) => Object.fromEntries(Object.entries(prev).map(([key, list]) => [key, list.filter(take => take.videoId !== record.id)])));
+  };
+
+  const getActiveTakeId = (setIdx: number, kind: TakeKind) => getTakesOfKind(takes[setIdx], kind).find(take => kind === 'grid'
+    ? isActiveTake(take, gridImages[setIdx])
+    : isActiveTake(take, setVideoUrls[setIdx], setVideoIds[setIdx]))?.id;
+
+  // 把某个结果设为该方案当前展示（即导出与后续渲染使用）的输出
+  const applyTake = (setIdx: number, take: RenderTake) => {
+    if (take.kind === 'grid') {
+      setGridImages(prev => ({ ...prev, [setIdx]: take.url }));
+      setGridProvenance(prev => withProvenance(prev, setIdx, take.provenance));
+      return;
+    }
+    setSetVideoUrls(prev => ({ ...prev, [setIdx]: take.url }));
+    setSetVideoIds(prev => withVideoId(prev, setIdx, take.videoId));
+    setVideoProvenance(prev => withProvenance(prev, setIdx, take.provenance));
+  };
+
+  /**
+   * 新结果加入候选；已有通过的结果时保持最终输出不变，只供对比
+   */
+  const commitTake = (setIdx: number, take: RenderTake) => {
+    const locked = !!getApprovedTake(takesRef.current[setIdx], take.kind);
+    setTakes(prev => ({ ...prev, [setIdx]: addTake(prev[setIdx], take) }));
+    if (!locked) applyTake(setIdx, take);
+  };
+
+  const handleRateTake = (setIdx: number, takeId: string, rating?: number) => {
+    setTakes(prev => ({ ...prev, [setIdx]: updateTake(prev[setIdx], takeId, { rating }) }));
+  };
+
+  const handleTakeVerdict = (setIdx: number, takeId: string, verdict?: TakeVerdict) => {
+    setTakes((prev: Record<number, RenderTake[]>) => {
+      const next = setTakeVerdict(prev[setIdx], takeId, verdict);
+      const take = next.find(item => item.id === takeId);
+      if (take && verdict === 'approved') pendingApproval.current = { setIdx, take };
+      return { ...prev, [setIdx]: next };
+    });
+  };
+
+  useEffect(() => {
+    const approval = pendingApproval.current;
+    if (!approval) return;
+    pendingApproval.current = null;
+    applyTake(approval.setIdx, approval.take);
+  }, [takes]);
+
+  const handleDeleteTake = (setIdx: number, takeId: string) => {
+    setTakes(prev => ({ ...prev, [setIdx]: (prev[setIdx] || []).filter(take => take.id !== takeId) }));
+  };
+
+  const handleOpenBatchProject = async (id: string) => {
+    try {
+      const record = await getProject(id);
+      if (!record) return;
+      handleRestoreProject(record);
+      setShowBatch(false);
+    } catch (err: any) { handleError(err); }
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (id !== projectId) return;
+    setProjectId(null);
+    setLastSavedAt(null);
+  };
+
+  const getScript = (setIdx: number): string => {
+    const prompt = generatedPrompts[setIdx];
+    return prompt ? formatPromptForEditing(prompt) : "";
+  };
+
+  const updatePrompt = (setIdx: number, prompt: ProductPrompt) => {
+    setGeneratedPrompts(prev => prev.map((p, i) => i === setIdx ? prompt : p));
+  };
+
+  // 下一次脚本或导演指令变化的来源；未标记的变化视为手动编辑
+  const versionSources = useRef<Record<number, PromptVersionSource>>({});
+
+  const markVersionSource = (setIdx: number, source: PromptVersionSource) => {
+    versionSources.current[setIdx] = source;
+  };
+
+  const recordPromptVersions = () => {
+    const sources = versionSources.current;
+    versionSources.current = {};
+    setPromptHistory((prev: Record<number, PromptVersion[]>) => {
+      let changed = false;
+      const next = { ...prev };
+      generatedPrompts.forEach((prompt, setIdx) => {
+        const versions = appendPromptVersion(prev[setIdx], createPromptVersion(sources[setIdx] || 'edited', prompt, refinedPrompts[setIdx]));
+        if (versions !== prev[setIdx]) {
+          next[setIdx] = versions;
+          changed = true;
         }
-      };
-      reader.readAsDataURL(file);
+      });
+      return changed ? next : prev;
     });
   };
 
+  // 生成、重写与润色的结果立即记为版本，手动编辑停顿后再记录
+  useEffect(() => {
+    const hasMarkedSource = Object.keys(versionSources.current).length > 0;
+    const timer = setTimeout(recordPromptVersions, hasMarkedSource ? 0 : VERSION_EDIT_DELAY);
+    return () => clearTimeout(timer);
+  }, [generatedPrompts, refinedPrompts]);
+
+  /**
+   * 出图或渲染前确定当前内容对应的版本；尚未记录的编辑立即补记
+   */
+  const ensureCurrentVersion = (setIdx: number): string | undefined => {
+    const prompt = generatedPrompts[setIdx];
+    if (!prompt) return undefined;
+    const refined = refinedPrompts[setIdx];
+    const latest = getLatestVersion(promptHistory[setIdx]);
+    if (latest && isSameVersionContent(latest, prompt, refined)) return latest.id;
+    const version = createPromptVersion('edited', prompt, refined);
+    setPromptHistory((prev: Record<number, PromptVersion[]>) => ({ ...prev, [setIdx]: appendPromptVersion(prev[setIdx], version) }));
+    return version.id;
+  };
+
+  const handleRevertVersion = (setIdx: number, version: PromptVersion) => {
+    markVersionSource(setIdx, 'reverted');
+    updatePrompt(setIdx, version.prompt);
+    setRefinedPrompts(prev => {
+      const { [setIdx]: _, ...rest } = prev;
+      return version.refined ? { ...rest, [setIdx]: version.refined } : rest;
+    });
+    setHistoryView(null);
+  };
+
+  const buildProvenance = async (
+    setIdx: number,
+    prompt: string,
+    reference: { kind: RenderReferenceKind, image?: string, panelIdx?: number },
+    settings: Omit<RenderProvenance['settings'], 'stylePresetName'>,
+    versionId: string | undefined
+  ): Promise<RenderProvenance> => ({
+    versionId,
+    prompt,
+    reference: {
+      kind: reference.image ? reference.kind : 'none',
+      thumbnail: reference.image ? await compressImage(reference.image).catch(() => undefined) : undefined,
+      panelIdx: reference.panelIdx
+    },
+    settings: { ...settings, stylePresetName: getSetStyle(setIdx).name },
+    createdAt: Date.now()
+  });
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIngesting(true);
+    try {
+      const { assets, rejected } = await ingestFiles(files);
+      setImages(prev => [...prev, ...assets]);
+      if (rejected.length > 0) {
+        setError(t('error.rejectedFiles', { files: rejected.map(r => `· ${r.name}：${r.reason}`).join('\n') }));
+        setErrorAction(null);
+      }
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setIngesting(false);
+    }
+  };
+
+  const analysisProgress = (() => {
+    const items = analysis?.individualAnalyses || [];
+    const finished = items.filter(a => a.status === 'done' || a.status === 'failed').length;
+    return t('analysis.progress', { done: finished, total: items.length || images.length });
+  })();
+
   const startIndividualAnalysis = async () => {
-    if (!productName.trim()) { setError("请输入产品名称"); return; }
+    if (!productName.trim()) { setError(t('error.productNameRequired')); return; }
     setState(AppState.ANALYZING_INDIVIDUAL);
     setError(null);
+    // 已有文字档案时保留，供后续混合合成
+    const applyAnalyses = (individualAnalyses: IndividualAnalysis[]) => setAnalysis(prev => ({
+      individualAnalyses,
+      globalProfile: prev?.globalProfile || { ...EMPTY_PROFILE },
+      lockedFields: prev?.lockedFields || [],
+      profileSource: prev?.profileSource,
+      brief: prev?.brief
+    }));
+    try {
+      const raw = await analyzeIndividualImages(images, productName, { onProgress: applyAnalyses, language: outputLanguages.analysis, projectId });
+      applyAnalyses(raw);
+      setState(AppState.EDITING_INDIVIDUAL);
+    } catch (err: any) { handleError(err); }
+  };
+
+  const startTextProfile = async () => {
+    if (!productName.trim()) { setError(t('error.productNameRequired')); return; }
+    setState(AppState.ANALYZING_GLOBAL);
+    setError(null);
+    try {
+      const profile = await generateProductProfileFromText(productName, productBrief, outputLanguages.profile, { projectId });
+      setAnalysis(prev => ({
+        individualAnalyses: prev?.individualAnalyses || [],
+        globalProfile: prev ? mergeLockedFields(prev.globalProfile, profile, prev.lockedFields) : profile,
+        lockedFields: prev?.lockedFields || [],
+        profileSource: 'text',
+        brief: productBrief
+      }));
+      setState(AppState.EDITING_GLOBAL);
+    } catch (err: any) { handleError(err); }
+  };
+
+  const patchIndividualAnalysis = (id: string, patch: Partial<IndividualAnalysis>) => {
+    setAnalysis(prev => prev ? {
+      ...prev,
+      individualAnalyses: prev.individualAnalyses.map(a => a.id === id ? { ...a, ...patch } : a)
+    } : prev);
+  };
+
+  // 手动填写描述即视为有效分析，失败项也可以这样补救
+  const updateIndividualAnalysis = (id: string, description: string) =>
+    patchIndividualAnalysis(id, description.trim() ? { description, status: 'done', error: undefined } : { description });
+
+  const handleReanalyzeAsset = async (id: string) => {
+    const asset = images.find(img => img.id === id);
+    if (!asset) return;
+    setReanalyzing(prev => ({ ...prev, [id]: true }));
+    patchIndividualAnalysis(id, { status: 'running', error: undefined });
+    try {
+      const result = await analyzeSingleAsset(asset, productName, outputLanguages.analysis, { projectId });
+      patchIndividualAnalysis(id, result);
+    } catch (err: any) {
+      const typed = toServiceError(err);
+      patchIndividualAnalysis(id, { status: 'failed', error: typed instanceof Error ? typed.message : String(typed) });
+    } finally {
+      setReanalyzing(prev => ({ ...prev, [id]: false }));
+    }
+  };
+
+  const startProfileSynthesis = async () => {
+    if (!analysis) return;
+    setState(AppState.ANALYZING_GLOBAL);
+    setError(null);
     try {
-      const raw = await analyzeIndividualImages(images, productName);
-      const profile = await synthesizeProductProfile(raw, productName);
-      const newAnalysis = { individualAnalyses: raw, globalProfile: profile };
-      setAnalysis(newAnalysis);
+      const profile = await synthesizeProductProfile(analysis.individualAnalyses, productName, productBrief, outputLanguages.profile, { projectId });
+      setAnalysis(prev => prev ? {
+        ...prev,
+        globalProfile: mergeLockedFields(prev.globalProfile, profile, prev.lockedFields),
+        profileSource: productBrief.trim() ? 'hybrid' : 'images',
+        brief: productBrief
+      } : prev);
       setState(AppState.EDITING_GLOBAL);
     } catch (err: any) { handleError(err); }
   };
 
+  const updateProfileField = (field: ProfileField, value: string) => {
+    setAnalysis(prev => prev ? { ...prev, globalProfile: { ...prev.globalProfile, [field]: value } } : prev);
+  };
+
+  const toggleProfileLock = (field: ProfileField) => {
+    setAnalysis(prev => {
+      if (!prev) return prev;
+      const locked = prev.lockedFields || [];
+      return { ...prev, lockedFields: locked.includes(field) ? locked.filter(f => f !== field) : [...locked, field] };
+    });
+  };
+
   const handleRefineWithGemini = async (idx: number) => {
     if (!analysis) return;
     setRefining(prev => ({ ...prev, [idx]: true }));
     try {
-      const refined = await refineVideoPromptWithGemini(editablePrompts[idx], analysis.globalProfile, productName);
+      const refined = await refineVideoPromptWithGemini(getScript(idx), analysis.globalProfile, productName, getSetStyle(idx), outputLanguages.refine, { projectId });
+      markVersionSource(idx, 'refined');
       setRefinedPrompts(prev => ({ ...prev, [idx]: refined }));
     } catch (err: any) {
       handleError(err);
@@ -167,27 +735,114 @@ const App: React.FC = () => {
 
   const startPromptGeneration = async () => {
     if (!analysis) return;
+    if (!confirmCost(estimateStoryboardCost(promptCount, shotCount))) return;
     setState(AppState.GENERATING_PROMPTS);
     try {
-      const results = await generateStoryboards(analysis.globalProfile, productName, promptCount, language, sceneType);
+      const results = await generateStoryboards(analysis.globalProfile, productName, promptCount, outputLanguages.storyboard, globalStyle, shotCount, { projectId });
+      versionSources.current = {};
+      setPromptHistory(Object.fromEntries(results.map((p, i) => [i, [createPromptVersion('generated', p)]])));
       setGeneratedPrompts(results);
-      setEditablePrompts(results.map(p => formatPromptForEditing(p)));
-      await saveToHistory(results, analysis);
+      setSetStyles({});
+      if (!projectId) {
+        setProjectId(createProjectId());
+        setProjectName(productName || t('app.untitled'));
+        setProjectCreatedAt(Date.now());
+      }
       setState(AppState.COMPLETED);
     } catch (err: any) { handleError(err); }
   };
 
+  const globalStyle = resolvePreset(stylePresets, stylePresetId, sceneType);
+  // 单套方案可覆盖全局风格
+  const getSetStyle = (setIdx: number) => resolvePreset(stylePresets, setStyles[setIdx] ?? stylePresetId, sceneType);
+
+  const getStoryboardContext = (setIdx?: number): StoryboardContext | null => analysis
+    ? { profile: analysis.globalProfile, productName, language: outputLanguages.storyboard, style: setIdx === undefined ? globalStyle : getSetStyle(setIdx), shotCount }
+    : null;
+
+  // 新出图的宫格：行列跟随该套方案的实际镜头数，画幅取当前设置
+  const getSetLayout = (setIdx: number) => getGridLayout(generatedPrompts[setIdx]?.shots.length || shotCount, gridAspectRatio);
+
+  // 按当前渲染设置估算的费用，显示在对应按钮上
+  const videoEstimate = estimateVideoCost({ resolution: videoResolution, aspectRatio: videoAspectRatio, targetDuration, engine: videoEngine });
+  const sequenceClipEstimate = estimateVideoCost({ resolution: videoResolution, aspectRatio: videoAspectRatio, targetDuration: 5, engine: videoEngine });
+
+  const setShotRegenerating = (setIdx: number, shotIdx: number, value: boolean) => {
+    setRegeneratingShots(prev => ({ ...prev, [setIdx]: { ...prev[setIdx], [shotIdx]: value } }));
+  };
+
+  const handleRegenerateShot = async (setIdx: number, shotIdx: number) => {
+    const context = getStoryboardContext(setIdx);
+    if (!context) return;
+    setShotRegenerating(setIdx, shotIdx, true);
+    try {
+      const shot = await regenerateShot(context, generatedPrompts[setIdx], shotIdx, steeringNotes[setIdx], { projectId });
+      markVersionSource(setIdx, 'shot');
+      setGeneratedPrompts(prev => prev.map((p, i) => i === setIdx
+        ? { ...p, shots: p.shots.map((s, j) => j === shotIdx ? shot : s) }
+        : p));
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setShotRegenerating(setIdx, shotIdx, false);
+    }
+  };
+
+  const handleRegenerateSet = async (setIdx: number) => {
+    const context = getStoryboardContext(setIdx);
+    if (!context) return;
+    setRegeneratingSets(prev => ({ ...prev, [setIdx]: true }));
+    try {
+      const next = await regenerateStoryboardSet(context, generatedPrompts, setIdx, steeringNotes[setIdx], { projectId });
+      markVersionSource(setIdx, 'regenerated');
+      updatePrompt(setIdx, next);
+      // 旧的润色指令对应旧脚本，已失效
+      setRefinedPrompts(prev => {
+        const { [setIdx]: _, ...rest } = prev;
+        return rest;
+      });
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setRegeneratingSets(prev => ({ ...prev, [setIdx]: false }));
+    }
+  };
+
+  const handleAddSets = async () => {
+    const context = getStoryboardContext();
+    if (!context) return;
+    setAddingSets(true);
+    try {
+      const extra = await generateAdditionalStoryboards(context, generatedPrompts, extraSetCount, extraSetNote, { projectId });
+      extra.forEach((_, i) => markVersionSource(generatedPrompts.length + i, 'generated'));
+      setGeneratedPrompts(prev => [...prev, ...extra]);
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setAddingSets(false);
+    }
+  };
+
   // Added handleGenerateImage function to fix the "Cannot find name 'handleGenerateImage'" error
   const handleGenerateImage = async (setIdx: number) => {
-    const basePrompt = refinedPrompts[setIdx] || editablePrompts[setIdx] || "";
-    // Find the first image to use as a consistent reference
-    const firstImg = images.find(img => img.type === 'image');
-    
+    const basePrompt = refinedPrompts[setIdx] || getScript(setIdx);
+    // 优先用产品图片作为一致性参考，没有图片时退回视频关键帧
+    const reference = getReferenceImage(images);
+    const layout = getSetLayout(setIdx);
+    if (!confirmCost(estimateImageCost())) return;
+    const versionId = ensureCurrentVersion(setIdx);
+
     setImageLoading(prev => ({ ...prev, [setIdx]: true }));
     setError(null);
     try {
-      const imageUrl = await generateGridImage(basePrompt, firstImg?.data);
-      setGridImages(prev => ({ ...prev, [setIdx]: imageUrl }));
+      const provenance = await buildProvenance(setIdx, basePrompt, { kind: 'asset', image: reference }, { model: getModelConfig().imageModel, layout: formatGridLayout(layout), aspectRatio: layout.aspectRatio }, versionId);
+      const imageUrl = await enqueueRenderJob({
+        kind: 'image',
+        label: t('job.grid', { set: setIdx + 1, layout: formatGridLayout(layout) }),
+        target: { type: 'grid', projectId, setIdx },
+        run: ctx => generateGridImage(basePrompt, reference, { signal: ctx.signal, style: getSetStyle(setIdx), layout, projectId })
+      });
+      commitTake(setIdx, createTake('grid', imageUrl, { provenance }));
     } catch (err: any) {
       handleError(err);
     } finally {
@@ -195,36 +850,205 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateFullVideo = async (setIdx: number, mode: 'grid' | 'direct' = 'grid') => {
-    const aistudio = (window as any).aistudio;
-    const hasKey = (await aistudio.hasSelectedApiKey()) as boolean;
-    if (!hasKey) await aistudio.openSelectKey();
+  const runVideoJob = (
+    label: string,
+    target: RenderJobTarget,
+    prompt: string,
+    reference: string,
+    config: VideoRenderConfig,
+    provenance: RenderProvenance,
+    onStatus?: (msg: string) => void
+  ) => enqueueRenderJob({
+    kind: 'video',
+    label,
+    target,
+    run: ctx => generateVideoWithExtension(prompt, reference, config, msg => { ctx.setMessage(msg); onStatus?.(msg); }, {
+      signal: ctx.signal,
+      projectId: target.projectId,
+      onOperation: operation => ctx.setResume({ prompt, config, operation, provenance })
+    })
+  });
+
+  // 宫格图变化（新生成或恢复项目）后重新切片；单帧重绘时会同步更新 source，不会重复切片。
+  // 行列由镜头数与宫格图的实际画幅反推，兼容旧项目与不同设置下出的图
+  useEffect(() => {
+    Object.keys(gridImages).forEach(key => {
+      const setIdx = Number(key);
+      const grid = gridImages[setIdx];
+      if (!grid || gridPanels[setIdx]?.source === grid) return;
+      const shots = generatedPrompts[setIdx]?.shots.length || DEFAULT_SHOT_COUNT;
+      getImageSize(grid)
+        .then(async ({ width, height }) => {
+          const layout = getGridLayout(shots, inferGridAspectRatio(width, height));
+          const panels = await sliceGridImage(grid, layout.rows, layout.cols);
+          setGridPanels(prev => ({ ...prev, [setIdx]: { source: grid, panels, layout } }));
+        })
+        .catch(err => console.error(err));
+    });
+  }, [gridImages]);
+
+  const handleRegeneratePanel = async (setIdx: number, panelIdx: number) => {
+    const current = gridPanels[setIdx];
+    const prompt = generatedPrompts[setIdx];
+    const shot = prompt?.shots[panelIdx];
+    if (!current || !shot) return;
+    const neighbourPanels = [current.panels[panelIdx - 1], current.panels[panelIdx + 1]].filter(Boolean);
+    setPanelLoading(prev => ({ ...prev, [setIdx]: { ...prev[setIdx], [panelIdx]: true } }));
+    try {
+      const panel = await enqueueRenderJob({
+        kind: 'image',
+        label: t('job.panel', { set: setIdx + 1, frame: panelIdx + 1 }),
+        target: { type: 'panel', projectId, setIdx, shotIdx: panelIdx },
+        run: ctx => generatePanelImage({
+          shot,
+          shotIdx: panelIdx,
+          instruction: prompt.instruction,
+          neighbourPanels,
+          referenceImageBase64: getReferenceImage(images),
+          note: steeringNotes[setIdx],
+          style: getSetStyle(setIdx),
+          aspectRatio: getPanelAspectRatio(current.layout)
+        }, { signal: ctx.signal, projectId })
+      });
+      const panels = current.panels.map((p, i) => i === panelIdx ? panel : p);
+      const { width, height } = await getImageSize(current.panels[0]);
+      const grid = await composeGridImage(panels, width, height, current.layout.rows, current.layout.cols);
+      const source = gridProvenance[setIdx];
+      const provenance = source && { ...source, redrawnPanels: [...(source.redrawnPanels || []).filter(i => i !== panelIdx), panelIdx].sort((a, b) => a - b) };
+      setGridPanels(prev => ({ ...prev, [setIdx]: { ...current, source: grid, panels } }));
+      setGridImages(prev => ({ ...prev, [setIdx]: grid }));
+      setGridProvenance(prev => withProvenance(prev, setIdx, provenance));
+      // 重绘单帧修改的是当前展示的那次结果
+      setTakes(prev => ({ ...prev, [setIdx]: (prev[setIdx] || []).map(take => take.kind === 'grid' && take.url === current.source ? { ...take, url: grid, provenance } : take) }));
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setPanelLoading(prev => ({ ...prev, [setIdx]: { ...prev[setIdx], [panelIdx]: false } }));
+    }
+  };
 
-    const basePrompt = refinedPrompts[setIdx] || editablePrompts[setIdx] || "";
+  const handleGenerateFullVideo = async (setIdx: number, mode: 'grid' | 'direct' | 'frame' = 'grid', panelIdx = 0) => {
+    let basePrompt = refinedPrompts[setIdx] || getScript(setIdx);
     let referenceVisual = "";
     if (mode === 'grid') {
       referenceVisual = gridImages[setIdx] || "";
-      if (!referenceVisual) { setError("请先生成分镜大图。"); return; }
+      if (!referenceVisual) { setError(t('error.gridRequired')); return; }
+    } else if (mode === 'frame') {
+      referenceVisual = gridPanels[setIdx]?.panels[panelIdx] || "";
+      if (!referenceVisual) { setError(t('error.frameNotReady')); return; }
+      const prompt = generatedPrompts[setIdx];
+      const shot = prompt?.shots[panelIdx];
+      if (shot) basePrompt = `${prompt.instruction}\n镜头 ${panelIdx + 1} [${shot.cameraAngle} | ${shot.lighting}]: ${shot.description}`;
     } else {
-      const firstImg = images.find(img => img.type === 'image');
-      if (!firstImg) { setError("流水线中没有可用的产品图片。"); return; }
-      referenceVisual = firstImg.data;
+      referenceVisual = getReferenceImage(images) || "";
+      if (!referenceVisual) { setError(t('error.noReference')); return; }
     }
     
+    const style = getSetStyle(setIdx);
+    const videoPrompt = `${basePrompt}\nStyle: ${styleDirectives(style)}`;
+    const config: VideoRenderConfig = { resolution: videoResolution, aspectRatio: videoAspectRatio, targetDuration, engine: videoEngine, negativePrompt: style.negativePrompt.trim() || undefined };
+    if (!confirmCost(estimateVideoCost(config))) return;
+    const versionId = ensureCurrentVersion(setIdx);
     setSetVideoLoading(prev => ({ ...prev, [setIdx]: true }));
     try {
-      const videoUrl = await generateVideoWithExtension(basePrompt, referenceVisual, {
-        resolution: videoResolution,
-        aspectRatio: videoAspectRatio,
-        targetDuration: targetDuration,
-        engine: videoEngine
-      }, (msg: string) => setSetVideoStatus(prev => ({ ...prev, [setIdx]: msg })));
-      setSetVideoUrls(prev => ({ ...prev, [setIdx]: videoUrl }));
+      await ensureApiKey();
+      const reference = mode === 'grid' ? { kind: 'grid' as const } : mode === 'frame' ? { kind: 'panel' as const, panelIdx } : { kind: 'asset' as const };
+      const provenance = await buildProvenance(setIdx, videoPrompt, { ...reference, image: referenceVisual }, { model: config.engine, aspectRatio: config.aspectRatio, resolution: config.resolution, targetDuration: config.targetDuration }, versionId);
+      const videoUrl = await runVideoJob(
+        mode === 'frame' ? t('job.frameVideo', { set: setIdx + 1, frame: panelIdx + 1 }) : t('job.setVideo', { set: setIdx + 1 }),
+        { type: 'set-video', projectId, setIdx },
+        videoPrompt,
+        referenceVisual,
+        config,
+        provenance,
+        (msg: string) => setSetVideoStatus(prev => ({ ...prev, [setIdx]: msg }))
+      );
+      const archived = await archiveRender(videoUrl, { ...getArchiveMeta(setIdx), prompt: videoPrompt, config, provenance });
+      commitTake(setIdx, createTake('video', archived ? getPlaybackUrl(archived) : videoUrl, { videoId: archived?.id, provenance }));
     } catch (err: any) {
       handleError(err); 
     } finally { setSetVideoLoading(prev => ({ ...prev, [setIdx]: false })); }
   };
 
+  const addSequenceClip = (clips: TimelineClip[] = [], clip: TimelineClip) =>
+    [...clips.filter(c => c.shotIdx !== clip.shotIdx), clip].sort((x, y) => x.shotIdx - y.shotIdx);
+
+  const handleRenderSequence = async (setIdx: number) => {
+    const prompt = generatedPrompts[setIdx];
+    if (!prompt) return;
+    const productImage = getReferenceImage(images);
+    const panels = gridPanels[setIdx]?.panels || [];
+    if (!productImage && panels.length === 0) { setError(t('error.sequenceReference')); return; }
+    if (!confirmCost(sequenceClipEstimate * prompt.shots.length)) return;
+    try {
+      await ensureApiKey();
+    } catch (err: any) {
+      handleError(err);
+      return;
+    }
+    const style = getSetStyle(setIdx);
+
+    setSequenceLoading(prev => ({ ...prev, [setIdx]: true }));
+    setSequences(prev => ({ ...prev, [setIdx]: [] }));
+    let finished = 0;
+    setSequenceStatus(prev => ({ ...prev, [setIdx]: `0/${prompt.shots.length}` }));
+    // 每个镜头一个任务，由任务队列控制并发
+    const config: VideoRenderConfig = { resolution: videoResolution, aspectRatio: videoAspectRatio, targetDuration: 5, engine: videoEngine, negativePrompt: style.negativePrompt.trim() || undefined };
+    const versionId = ensureCurrentVersion(setIdx);
+    const results = await Promise.allSettled(prompt.shots.map(async (shot, shotIdx) => {
+      const clipPrompt = `${prompt.instruction}\n[${shot.cameraAngle} | ${shot.lighting}] ${shot.description}\nStyle: ${styleDirectives(style)}`;
+      const reference = panels[shotIdx] || productImage || panels[0];
+      const referencePanel = panels[shotIdx] ? shotIdx : productImage ? undefined : 0;
+      const provenance = await buildProvenance(setIdx, clipPrompt, { kind: referencePanel === undefined ? 'asset' : 'panel', image: reference, panelIdx: referencePanel }, { model: config.engine, aspectRatio: config.aspectRatio, resolution: config.resolution, targetDuration: config.targetDuration }, versionId);
+      const remoteUrl = await runVideoJob(
+        t('job.sequenceClip', { set: setIdx + 1, shot: shotIdx + 1, total: prompt.shots.length }),
+        { type: 'sequence-clip', projectId, setIdx, shotIdx },
+        clipPrompt,
+        reference,
+        config,
+        provenance
+      );
+      const archived = await archiveRender(remoteUrl, { ...getArchiveMeta(setIdx), shotIdx, prompt: clipPrompt, config, provenance });
+      const url = archived ? getPlaybackUrl(archived) : remoteUrl;
+      const duration = archived?.duration || await getVideoDuration(url).catch(() => 5);
+      const clip: TimelineClip = { id: createProjectId(), setIdx, shotIdx, url, duration, trimStart: 0, trimEnd: duration, videoId: archived?.id, provenance };
+      setSequences(prev => ({ ...prev, [setIdx]: addSequenceClip(prev[setIdx], clip) }));
+      finished++;
+      setSequenceStatus(prev => ({ ...prev, [setIdx]: `${finished}/${prompt.shots.length}` }));
+    }));
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected' && !isJobCancelled(r.reason));
+    if (failure) handleError(failure.reason);
+    setSequenceLoading(prev => ({ ...prev, [setIdx]: false }));
+    setSequenceStatus(prev => ({ ...prev, [setIdx]: '' }));
+  };
+
+  const getSequenceTitle = (setIdx: number) => `${projectName || productName || 'storyboard'}_set${setIdx + 1}`;
+
+  const handleExportSequenceVideo = async (setIdx: number) => {
+    const clips = sequences[setIdx] || [];
+    const size = videoAspectRatio === '9:16' ? { width: 720, height: 1280 } : { width: 1280, height: 720 };
+    setSequenceExporting(prev => ({ ...prev, [setIdx]: t('sequence.preparing') }));
+    try {
+      const blob = await concatenateClips(clips, size, (done, total) => setSequenceExporting(prev => ({ ...prev, [setIdx]: t('sequence.concatenating', { done, total }) })));
+      downloadBlob(blob, `${sanitizeFilename(getSequenceTitle(setIdx))}.${blob.type === 'video/mp4' ? 'mp4' : 'webm'}`);
+    } catch (err: any) {
+      handleError(err);
+    } finally {
+      setSequenceExporting(prev => ({ ...prev, [setIdx]: null }));
+    }
+  };
+
+  const handleExportSequenceJson = (setIdx: number) => {
+    const title = getSequenceTitle(setIdx);
+    const json = JSON.stringify(buildTimelineJson(sequences[setIdx] || [], title), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${sanitizeFilename(title)}_timeline.json`);
+  };
+
+  const handleExportSequenceEdl = (setIdx: number) => {
+    const title = getSequenceTitle(setIdx);
+    downloadBlob(new Blob([buildEdl(sequences[setIdx] || [], title)], { type: 'text/plain' }), `${sanitizeFilename(title)}.edl`);
+  };
+
   const copyToClipboard = (text: string, idx: number) => {
     navigator.clipboard.writeText(text).then(() => {
       setCopyStates(prev => ({ ...prev, [idx]: true }));
@@ -240,11 +1064,19 @@ const App: React.FC = () => {
              <Sparkles className="text-white w-8 h-8" />
              <h1 className="text-3xl font-black text-white tracking-tighter uppercase italic">Storyboard Pro</h1>
           </div>
-          <p className="text-slate-400 text-lg font-medium">Gemini 3 策划与 Veo 渲染协同流水线</p>
+          <p className="text-slate-400 text-lg font-medium">{t('app.tagline')}</p>
+          {projectId && lastSavedAt && <p className="text-[11px] font-black uppercase text-slate-300 mt-2">{projectName} · {t('app.autosaved', { time: new Date(lastSavedAt).toLocaleTimeString(getDateLocale()) })}</p>}
         </div>
         <div className="flex gap-4">
-          <button onClick={() => setShowHistory(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><History className="w-5 h-5" /> 历史记录</button>
-          <button onClick={async () => { /* @ts-ignore */ await (window as any).aistudio.openSelectKey(); }} className="px-6 py-3 bg-black text-white rounded-2xl font-black text-sm shadow-xl hover:bg-slate-800 transition-all">云鉴权</button>
+          <LocaleSwitcher />
+          <button onClick={() => setShowModelSettings(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><Cpu className="w-5 h-5" /> {t('app.modelSettings')}</button>
+          <button onClick={handleSaveProject} disabled={!productName} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm disabled:opacity-50"><Save className="w-5 h-5" /> {t('app.saveProject')}</button>
+          <button onClick={() => setShowJobs(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><Layers className="w-5 h-5" /> {t('app.renderJobs')}{activeJobCount > 0 && <span className="px-2 py-0.5 bg-black text-white rounded-lg text-[10px]">{activeJobCount}</span>}</button>
+          <button onClick={() => setShowHistory(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><History className="w-5 h-5" /> {t('app.library')}</button>
+          <button onClick={() => setShowVideos(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><Film className="w-5 h-5" /> {t('app.videoLibrary')}</button>
+          <button onClick={() => setShowBatch(true)} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm">{batchRunning ? <Loader2 className="w-5 h-5 animate-spin" /> : <FileSpreadsheet className="w-5 h-5" />} {t('batch.open')}</button>
+          <button onClick={() => setShowUsage(true)} title={t('usage.sessionTotal')} className="px-6 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-3 hover:bg-slate-200 transition-all shadow-sm"><Coins className="w-5 h-5" /> {t('usage.open')}<span className="px-2 py-0.5 bg-white rounded-lg text-[10px]">{formatCost(sessionCost)}</span></button>
+          {hasKeySelector() && <button onClick={() => openKeySelector().catch(handleError)} className="px-6 py-3 bg-black text-white rounded-2xl font-black text-sm shadow-xl hover:bg-slate-800 transition-all">{t('app.cloudAuth')}</button>}
         </div>
       </header>
 
@@ -252,128 +1084,230 @@ const App: React.FC = () => {
       <section className="bg-slate-50 p-10 rounded-[3rem] border border-slate-100 mb-16 shadow-sm">
         <div className="flex items-center gap-6 mb-10">
           <span className="w-12 h-12 rounded-2xl bg-black text-white flex items-center justify-center text-xl font-black shadow-lg">01</span>
-          <h2 className="text-3xl font-black tracking-tight">产品核心资产</h2>
+          <h2 className="text-3xl font-black tracking-tight">{t('step1.title')}</h2>
         </div>
         <div className="grid grid-cols-2 md:grid-cols-6 lg:grid-cols-8 gap-6 mb-10">
           {images.map((img) => (
             <div key={img.id} className="relative aspect-square rounded-[2rem] overflow-hidden border-2 border-white shadow-md bg-white">
               {img.type === 'video' ? (
-                <div className="w-full h-full flex flex-col items-center justify-center bg-slate-100">
-                  <Play className="w-8 h-8 text-slate-400 mb-1" />
-                  <span className="text-[8px] font-black uppercase text-slate-400">Video Ref</span>
-                </div>
+                img.keyframes?.length ? (
+                  <div className="relative w-full h-full">
+                    <img src={img.keyframes[0]} className="w-full h-full object-cover" />
+                    <span className="absolute bottom-2 left-2 flex items-center gap-1 px-2 py-1 bg-black/70 text-white rounded-lg text-[8px] font-black uppercase"><Play className="w-3 h-3" /> {t('step1.keyframes', { count: img.keyframes.length })}</span>
+                  </div>
+                ) : (
+                  <div className="w-full h-full flex flex-col items-center justify-center bg-slate-100">
+                    <Play className="w-8 h-8 text-slate-400 mb-1" />
+                    <span className="text-[8px] font-black uppercase text-slate-400">Video Ref</span>
+                  </div>
+                )
               ) : (
                 <img src={img.data} className="w-full h-full object-cover" />
               )}
+              {img.angle && <span className="absolute top-2 left-2 px-2 py-1 bg-white/90 rounded-lg text-[9px] font-black shadow">{angleLabel(img.angle)}</span>}
               <button onClick={() => setImages(prev => prev.filter(i => i.id !== img.id))} className="absolute top-2 right-2 bg-red-500 text-white p-2 rounded-xl shadow-lg"><Trash2 className="w-4 h-4" /></button>
             </div>
           ))}
-          <label className="aspect-square flex flex-col items-center justify-center border-4 border-dashed border-slate-200 rounded-[2rem] cursor-pointer hover:bg-white transition-all group hover:border-black">
-            <Camera className="w-6 h-6 text-slate-300 group-hover:text-black mb-2" />
-            <span className="text-[10px] font-black uppercase text-slate-400">添加资产</span>
-            <input type="file" className="hidden" accept="image/*,video/*" multiple onChange={handleFileUpload} />
+          <label className={`aspect-square flex flex-col items-center justify-center border-4 border-dashed border-slate-200 rounded-[2rem] transition-all group ${ingesting ? 'opacity-60' : 'cursor-pointer hover:bg-white hover:border-black'}`}>
+            {ingesting ? <Loader2 className="w-6 h-6 text-slate-400 animate-spin mb-2" /> : <Camera className="w-6 h-6 text-slate-300 group-hover:text-black mb-2" />}
+            <span className="text-[10px] font-black uppercase text-slate-400">{ingesting ? t('step1.processing') : t('step1.addAsset')}</span>
+            <input type="file" className="hidden" accept="image/*,video/*,.heic,.heif,.mov" multiple disabled={ingesting} onChange={handleFileUpload} />
           </label>
+          <button onClick={() => setShowCamera(true)} className="aspect-square flex flex-col items-center justify-center border-4 border-dashed border-slate-200 rounded-[2rem] hover:bg-white hover:border-black transition-all group">
+            <Scan className="w-6 h-6 text-slate-300 group-hover:text-black mb-2" />
+            <span className="text-[10px] font-black uppercase text-slate-400">{t('step1.guidedCapture')}</span>
+          </button>
         </div>
-        <div className="mb-10">
-          <input type="text" placeholder="请输入产品名称，如：智能美妆镜" className="w-full p-8 text-2xl font-black bg-white border-2 border-slate-100 rounded-[2.5rem] outline-none focus:border-black shadow-inner" value={productName} onChange={(e) => setProductName(e.target.value)} />
+        <div className="mb-10 space-y-6">
+          <input type="text" placeholder={t('step1.namePlaceholder')} className="w-full p-8 text-2xl font-black bg-white border-2 border-slate-100 rounded-[2.5rem] outline-none focus:border-black shadow-inner" value={productName} onChange={(e) => setProductName(e.target.value)} />
+          <textarea placeholder={t('step1.briefPlaceholder')} className="w-full min-h-[140px] p-8 text-base font-medium bg-white border-2 border-slate-100 rounded-[2.5rem] outline-none focus:border-black shadow-inner" value={productBrief} onChange={(e) => setProductBrief(e.target.value)} />
+          <OutputLanguageSettings value={outputLanguages} onChange={setOutputLanguages} />
         </div>
-        <button onClick={startIndividualAnalysis} disabled={images.length === 0 || !productName || state.includes('ANALYZING')} className="w-full py-7 bg-black text-white rounded-[2.5rem] font-black text-lg flex items-center justify-center gap-4 shadow-2xl disabled:bg-slate-200 transition-all">
-          {state === AppState.ANALYZING_INDIVIDUAL ? <Loader2 className="w-7 h-7 animate-spin" /> : <><Search className="w-7 h-7" /> 启动 Gemini 资产深度扫描</>}
-        </button>
+        {images.length > 0 ? (
+          <button onClick={startIndividualAnalysis} disabled={!productName || state.includes('ANALYZING')} className="w-full py-7 bg-black text-white rounded-[2.5rem] font-black text-lg flex items-center justify-center gap-4 shadow-2xl disabled:bg-slate-200 transition-all">
+            {state === AppState.ANALYZING_INDIVIDUAL ? <><Loader2 className="w-7 h-7 animate-spin" /> {analysisProgress}</> : <><Search className="w-7 h-7" /> {t('step1.scan')}</>}
+          </button>
+        ) : (
+          <button onClick={startTextProfile} disabled={!productName || state.includes('ANALYZING')} className="w-full py-7 bg-black text-white rounded-[2.5rem] font-black text-lg flex items-center justify-center gap-4 shadow-2xl disabled:bg-slate-200 transition-all">
+            {state === AppState.ANALYZING_GLOBAL ? <Loader2 className="w-7 h-7 animate-spin" /> : <><FileText className="w-7 h-7" /> {t('step1.fromText')}</>}
+          </button>
+        )}
       </section>
 
+      {/* STEP 1.5: REVIEW */}
+      {analysis && analysis.individualAnalyses.length > 0 && (
+        <AnalysisReview
+          assets={images}
+          analyses={analysis.individualAnalyses}
+          reanalyzing={reanalyzing}
+          analyzing={state === AppState.ANALYZING_INDIVIDUAL}
+          synthesizing={state === AppState.ANALYZING_GLOBAL}
+          onChange={updateIndividualAnalysis}
+          onReanalyze={handleReanalyzeAsset}
+          onSynthesize={startProfileSynthesis}
+        />
+      )}
+
+      {analysis && isProfileReady(analysis.globalProfile) && (
+        <section className="bg-slate-50 p-10 rounded-[3rem] border border-slate-100 mb-16 shadow-sm">
+          <div className="flex items-center justify-between mb-10 gap-6">
+            <div className="flex items-center gap-6">
+              <span className="w-12 h-12 rounded-2xl bg-black text-white flex items-center justify-center text-xl font-black shadow-lg"><Edit3 className="w-6 h-6" /></span>
+              <h2 className="text-3xl font-black tracking-tight">{t('profile.title')}</h2>
+              {analysis.profileSource && <span className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-[11px] font-black uppercase text-slate-500">{profileSourceLabel(analysis.profileSource)}</span>}
+            </div>
+            <button onClick={analysis.individualAnalyses.length > 0 ? startProfileSynthesis : startTextProfile} disabled={state === AppState.ANALYZING_GLOBAL} className="flex items-center gap-3 text-indigo-600 font-black text-sm bg-indigo-50 px-8 py-4 rounded-[1.5rem] border-2 border-indigo-100 hover:bg-indigo-100 transition-all">
+              {state === AppState.ANALYZING_GLOBAL ? <Loader2 className="w-5 h-5 animate-spin" /> : <Sparkles className="w-5 h-5" />} {t('profile.resynthesize')}
+            </button>
+          </div>
+          <ProfileEditor
+            profile={analysis.globalProfile}
+            lockedFields={analysis.lockedFields || []}
+            onChange={updateProfileField}
+            onToggleLock={toggleProfileLock}
+          />
+        </section>
+      )}
+
       {/* STEP 2: CONFIG */}
-      {analysis && (
+      {analysis && isProfileReady(analysis.globalProfile) && (
         <section className="bg-slate-50 p-10 rounded-[4rem] border border-slate-100 mb-16 shadow-sm">
           <div className="flex items-center gap-6 mb-10">
             <span className="w-14 h-14 rounded-2xl bg-indigo-600 text-white flex items-center justify-center text-2xl font-black shadow-xl">02</span>
-            <h2 className="text-3xl font-black tracking-tight">渲染引擎配置</h2>
+            <h2 className="text-3xl font-black tracking-tight">{t('step2.title')}</h2>
           </div>
           <div className="bg-white p-10 rounded-[3rem] shadow-sm border border-slate-100 mb-12 space-y-12">
              <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
                 <div>
-                   <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">视觉引擎 (Rendering Engine)</label>
+                   <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">{t('step2.engine')}</label>
                    <div className="flex p-2 bg-slate-100 rounded-3xl gap-2">
-                      <button onClick={() => setVideoEngine('veo-3.1-fast-generate-preview')} className={`flex-1 py-4 rounded-2xl font-black text-[11px] transition-all ${videoEngine.includes('fast') ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>Veo Fast (推荐)</button>
-                      <button onClick={() => setVideoEngine('veo-3.1-generate-preview')} className={`flex-1 py-4 rounded-2xl font-black text-[11px] transition-all ${!videoEngine.includes('fast') ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>Veo Standard (高保真)</button>
+                      <button onClick={() => setVideoEngine('veo-3.1-fast-generate-preview')} className={`flex-1 py-4 rounded-2xl font-black text-[11px] transition-all ${videoEngine.includes('fast') ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>{t('step2.engineFast')}</button>
+                      <button onClick={() => setVideoEngine('veo-3.1-generate-preview')} className={`flex-1 py-4 rounded-2xl font-black text-[11px] transition-all ${!videoEngine.includes('fast') ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>{t('step2.engineStandard')}</button>
                    </div>
                 </div>
                 <div className="flex gap-8">
                    <div className="flex-1">
-                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">策划套数</label>
+                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">{t('step2.setCount')}</label>
                       <input type="number" value={promptCount} onChange={e => setPromptCount(parseInt(e.target.value))} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-center" min="1" max="10" />
                    </div>
                    <div className="flex-1">
-                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">场景风格</label>
-                      <select value={sceneType} onChange={e => setSceneType(e.target.value as any)} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-xs outline-none">
-                        {SCENE_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 flex items-center justify-between">{t('step2.style')} <button onClick={() => setShowPresets(true)} className="text-indigo-600 normal-case">{t('step2.managePresets')}</button></label>
+                      <select value={globalStyle.id} onChange={e => selectStylePreset(e.target.value)} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-xs outline-none">
+                        {stylePresets.map(preset => <option key={preset.id} value={preset.id}>{preset.builtIn ? preset.name : `★ ${preset.name}`}</option>)}
+                      </select>
+                   </div>
+                </div>
+                <div className="flex gap-8">
+                   <div className="flex-1">
+                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">{t('step2.shotCount')}</label>
+                      <select value={shotCount} onChange={e => setShotCount(Number(e.target.value))} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-xs outline-none">
+                        {SHOT_COUNT_OPTIONS.map(n => <option key={n} value={n}>{t('step2.shotOption', { count: n, layout: formatGridLayout(getGridLayout(n, gridAspectRatio)) })}</option>)}
                       </select>
                    </div>
+                   <div className="flex-1">
+                      <label className="text-[11px] font-black uppercase text-slate-400 mb-5 block">{t('step2.gridAspect')}</label>
+                      <div className="flex p-2 bg-slate-100 rounded-3xl gap-2">
+                        {GRID_ASPECT_RATIOS.map(ratio => (
+                          <button key={ratio} onClick={() => setGridAspectRatio(ratio)} className={`flex-1 py-2 rounded-2xl font-black text-[11px] transition-all ${gridAspectRatio === ratio ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>{ratio}</button>
+                        ))}
+                      </div>
+                   </div>
                 </div>
              </div>
           </div>
           <button onClick={startPromptGeneration} disabled={state === AppState.GENERATING_PROMPTS} className="w-full py-9 bg-indigo-600 text-white rounded-[3rem] font-black text-2xl flex items-center justify-center gap-5 shadow-2xl hover:bg-indigo-700 transition-all">
-            {state === AppState.GENERATING_PROMPTS ? <Loader2 className="w-10 h-10 animate-spin" /> : <><Zap className="w-10 h-10" /> 生成高精策划方案</>}
+            {state === AppState.GENERATING_PROMPTS ? <Loader2 className="w-10 h-10 animate-spin" /> : <><Zap className="w-10 h-10" /> {t('step2.generate')} <span className="text-sm opacity-70">{t('usage.estimate', { cost: formatCost(estimateStoryboardCost(promptCount, shotCount)) })}</span></>}
           </button>
         </section>
       )}
 
       {/* STEP 3: OUTPUT */}
-      {editablePrompts.length > 0 && (
+      {generatedPrompts.length > 0 && (
         <section className="space-y-16">
           <div className="bg-black p-10 rounded-[3.5rem] text-white flex justify-between items-center shadow-2xl">
-            <h2 className="text-3xl font-black flex items-center gap-5"><Package className="w-10 h-10 text-indigo-400" /> 已就绪分镜库</h2>
+            <h2 className="text-3xl font-black flex items-center gap-5"><Package className="w-10 h-10 text-indigo-400" /> {t('step3.title')}</h2>
             <div className="flex gap-4">
+               <button onClick={() => exportStoryboardHtml(buildSession(), projectName || productName)} className="px-6 py-3 bg-white/10 rounded-2xl flex items-center gap-3 font-black text-sm hover:bg-white/20 transition-all"><Download className="w-5 h-5" /> {t('step3.exportHtml')}</button>
+               <button onClick={() => printStoryboardPdf(buildSession(), projectName || productName).catch(handleError)} className="px-6 py-3 bg-white/10 rounded-2xl flex items-center gap-3 font-black text-sm hover:bg-white/20 transition-all"><FileDown className="w-5 h-5" /> {t('step3.exportPdf')}</button>
                <div className="px-6 py-3 bg-white/10 rounded-2xl flex items-center gap-4">
                   <span className="text-[11px] font-black text-emerald-400 uppercase italic">Gemini Directed • Veo Powered</span>
                </div>
             </div>
           </div>
           <div className="grid grid-cols-1 gap-20">
-             {editablePrompts.map((promptText, setIdx) => (
+             {generatedPrompts.map((prompt, setIdx) => (
                <div key={setIdx} className="bg-white p-10 rounded-[4.5rem] border-2 border-slate-100 shadow-2xl flex flex-col gap-12 relative overflow-hidden">
                   <div className="flex items-center justify-between border-b pb-10">
-                    <span className="px-8 py-4 bg-slate-900 text-white rounded-[1.5rem] font-black text-base italic">方案 {setIdx + 1}</span>
+                    <div className="flex items-center gap-4">
+                      <span className="px-8 py-4 bg-slate-900 text-white rounded-[1.5rem] font-black text-base italic">{t('step3.setBadge', { set: setIdx + 1 })}</span>
+                      <select value={setStyles[setIdx] ?? ''} onChange={e => setSetStyles(prev => {
+                        const { [setIdx]: _, ...rest } = prev;
+                        return e.target.value ? { ...rest, [setIdx]: e.target.value } : rest;
+                      })} title={t('step3.setStyleTitle')} className="px-4 py-4 bg-slate-50 rounded-[1.5rem] font-black text-xs outline-none border-2 border-slate-100">
+                        <option value="">{t('step3.styleFollowGlobal', { name: globalStyle.name })}</option>
+                        {stylePresets.map(preset => <option key={preset.id} value={preset.id}>{t('step3.styleOption', { name: preset.name })}</option>)}
+                      </select>
+                    </div>
                     <div className="flex gap-4">
+                      <button onClick={() => setHistoryView({ setIdx })} className="flex items-center gap-3 text-slate-700 font-black text-sm bg-slate-50 px-8 py-4 rounded-[1.5rem] border-2 border-slate-100 hover:bg-slate-100 transition-all">
+                        <History className="w-5 h-5" /> {t('history.open', { count: promptHistory[setIdx]?.length || 0 })}
+                      </button>
+                      <button onClick={() => handleRegenerateSet(setIdx)} disabled={regeneratingSets[setIdx]} className="flex items-center gap-3 text-slate-700 font-black text-sm bg-slate-50 px-8 py-4 rounded-[1.5rem] border-2 border-slate-100 hover:bg-slate-100 transition-all">
+                        {regeneratingSets[setIdx] ? <Loader2 className="w-5 h-5 animate-spin" /> : <RefreshCw className="w-5 h-5" />}
+                        {t('step3.regenerateSet')}
+                      </button>
                       <button onClick={() => handleRefineWithGemini(setIdx)} disabled={refining[setIdx]} className="flex items-center gap-3 text-amber-600 font-black text-sm bg-amber-50 px-8 py-4 rounded-[1.5rem] border-2 border-amber-100 hover:bg-amber-100 transition-all">
                         {refining[setIdx] ? <Loader2 className="w-5 h-5 animate-spin" /> : <Wand2 className="w-5 h-5" />}
-                        Gemini 导演润色
+                        {t('step3.refine')}
                       </button>
-                      <button onClick={() => copyToClipboard(promptText, setIdx)} className="flex items-center gap-3 text-indigo-600 font-black text-sm bg-indigo-50 px-8 py-4 rounded-[1.5rem] border-2 border-indigo-100 hover:bg-indigo-100 transition-all">
-                        {copyStates[setIdx] ? <CheckCircle2 className="w-5 h-5" /> : <Copy className="w-5 h-5" />} 复制脚本
+                      <button onClick={() => copyToClipboard(formatPromptForEditing(prompt), setIdx)} className="flex items-center gap-3 text-indigo-600 font-black text-sm bg-indigo-50 px-8 py-4 rounded-[1.5rem] border-2 border-indigo-100 hover:bg-indigo-100 transition-all">
+                        {copyStates[setIdx] ? <CheckCircle2 className="w-5 h-5" /> : <Copy className="w-5 h-5" />} {t('step3.copyScript')}
                       </button>
                     </div>
                   </div>
 
                   <div className="flex flex-col xl:flex-row gap-16">
                       <div className="flex-1 space-y-8 flex flex-col">
-                        <div className="flex-1 flex flex-col gap-4">
-                           <label className="text-[12px] font-black uppercase text-slate-400 flex items-center gap-3">导演脚本 (Script)</label>
-                           <textarea className="w-full flex-1 min-h-[400px] p-10 text-base font-medium text-slate-700 leading-relaxed bg-slate-50 rounded-[3rem] border-2 border-transparent focus:border-indigo-100 outline-none transition-all" value={promptText} onChange={(e) => {
-                             const next = [...editablePrompts];
-                             next[setIdx] = e.target.value;
-                             setEditablePrompts(next);
-                           }} />
-                        </div>
+                        <input type="text" placeholder={t('step3.steeringPlaceholder')} className="w-full p-5 text-sm font-bold bg-slate-50 rounded-[1.5rem] border-2 border-transparent focus:border-amber-100 outline-none transition-all" value={steeringNotes[setIdx] || ''} onChange={e => setSteeringNotes(prev => ({ ...prev, [setIdx]: e.target.value }))} />
+                        <ShotEditor
+                          prompt={prompt}
+                          onChange={next => updatePrompt(setIdx, next)}
+                          regeneratingShots={regeneratingShots[setIdx]}
+                          onRegenerateShot={shotIdx => handleRegenerateShot(setIdx, shotIdx)}
+                        />
                         {refinedPrompts[setIdx] && (
                           <div className="bg-amber-50/50 p-8 rounded-[2.5rem] border-2 border-amber-100/50 animate-in slide-in-from-top-4">
                              <div className="flex items-center gap-3 mb-4">
                                 <Sparkles className="w-5 h-5 text-amber-600" />
-                                <span className="text-[11px] font-black uppercase text-amber-600">Gemini 导演已增强渲染指令</span>
+                                <span className="text-[11px] font-black uppercase text-amber-600">{t('step3.refined')}</span>
                              </div>
-                             <p className="text-xs text-amber-700 font-medium italic line-clamp-3 leading-relaxed">{refinedPrompts[setIdx]}</p>
+                             <textarea value={refinedPrompts[setIdx]} onChange={e => setRefinedPrompts(prev => ({ ...prev, [setIdx]: e.target.value }))} rows={4} className="w-full bg-transparent text-xs text-amber-700 font-medium italic leading-relaxed outline-none resize-y" />
                           </div>
                         )}
                         <button onClick={() => handleGenerateImage(setIdx)} disabled={imageLoading[setIdx]} className="w-full py-7 bg-slate-900 text-white rounded-[2rem] font-black text-base flex items-center justify-center gap-4 shadow-xl">
-                          {imageLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><ImageIcon className="w-6 h-6" /> 重新渲染 3x3 预览</>}
+                          {imageLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><ImageIcon className="w-6 h-6" /> {t('step3.renderGrid', { layout: formatGridLayout(getSetLayout(setIdx)) })} <span className="text-xs opacity-60">{t('usage.estimate', { cost: formatCost(estimateImageCost()) })}</span></>}
                         </button>
                       </div>
 
                       <div className="w-full xl:w-[600px] space-y-8">
-                        <div className="aspect-[16/9] bg-slate-100 rounded-[3.5rem] border-2 border-dashed flex items-center justify-center relative overflow-hidden shadow-2xl">
+                        <div style={{ aspectRatio: cssAspectRatio(gridPanels[setIdx]?.layout.aspectRatio || gridAspectRatio) }} className="bg-slate-100 rounded-[3.5rem] border-2 border-dashed flex items-center justify-center relative overflow-hidden shadow-2xl">
                            {gridImages[setIdx] ? <img src={gridImages[setIdx]} className="w-full h-full object-cover" /> : <LayoutGrid className="w-24 h-24 text-slate-200" />}
                            {imageLoading[setIdx] && <div className="absolute inset-0 bg-white/90 flex items-center justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>}
                         </div>
+                        {gridImages[setIdx] && gridProvenance[setIdx] && (
+                          <ProvenanceDetails
+                            provenance={gridProvenance[setIdx]}
+                            versionLabel={getVersionLabel(promptHistory[setIdx], gridProvenance[setIdx].versionId)}
+                            onShowVersion={() => setHistoryView({ setIdx, versionId: gridProvenance[setIdx].versionId })}
+                          />
+                        )}
+                        <TakeStrip
+                          kind="grid"
+                          takes={getTakesOfKind(takes[setIdx], 'grid')}
+                          activeTakeId={getActiveTakeId(setIdx, 'grid')}
+                          locked={!!getApprovedTake(takes[setIdx], 'grid')}
+                          onOpen={takeId => setTakeView({ setIdx, kind: 'grid', takeId })}
+                        />
 
                         <div className="pt-10 border-t flex flex-col gap-6">
                            <div className="relative aspect-[9/16] bg-slate-200 rounded-[3.5rem] overflow-hidden shadow-2xl flex items-center justify-center mx-auto max-w-[320px]">
@@ -385,36 +1319,183 @@ const App: React.FC = () => {
                                 </div>
                               )}
                            </div>
+                           {setVideoUrls[setIdx] && videoProvenance[setIdx] && (
+                             <ProvenanceDetails
+                               provenance={videoProvenance[setIdx]}
+                               versionLabel={getVersionLabel(promptHistory[setIdx], videoProvenance[setIdx].versionId)}
+                               onShowVersion={() => setHistoryView({ setIdx, versionId: videoProvenance[setIdx].versionId })}
+                             />
+                           )}
+                           <TakeStrip
+                             kind="video"
+                             takes={getTakesOfKind(takes[setIdx], 'video')}
+                             activeTakeId={getActiveTakeId(setIdx, 'video')}
+                             locked={!!getApprovedTake(takes[setIdx], 'video')}
+                             onOpen={takeId => setTakeView({ setIdx, kind: 'video', takeId })}
+                           />
                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                               <button onClick={() => handleGenerateFullVideo(setIdx, 'grid')} disabled={setVideoLoading[setIdx] || !gridImages[setIdx]} className="py-6 bg-emerald-600 text-white rounded-[2rem] font-black text-base flex items-center justify-center gap-4 shadow-xl hover:scale-105 transition-all">
-                                {setVideoLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><Zap className="w-6 h-6" /> 采用预览渲染 (Gemini 指导)</>}
+                                {setVideoLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><Zap className="w-6 h-6" /> {t('step3.videoFromGrid')} <span className="text-xs opacity-70">{t('usage.estimate', { cost: formatCost(videoEstimate) })}</span></>}
                               </button>
                               <button onClick={() => handleGenerateFullVideo(setIdx, 'direct')} disabled={setVideoLoading[setIdx] || images.length === 0} className="py-6 bg-slate-900 text-white rounded-[2rem] font-black text-base flex items-center justify-center gap-4 shadow-xl hover:scale-105 transition-all">
-                                {setVideoLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><ZapOff className="w-6 h-6" /> 直接渲染</>}
+                                {setVideoLoading[setIdx] ? <Loader2 className="w-6 h-6 animate-spin" /> : <><ZapOff className="w-6 h-6" /> {t('step3.videoDirect')} <span className="text-xs opacity-70">{t('usage.estimate', { cost: formatCost(videoEstimate) })}</span></>}
                               </button>
                            </div>
+                           <button onClick={() => handleRenderSequence(setIdx)} disabled={sequenceLoading[setIdx] || (images.length === 0 && !gridPanels[setIdx])} className="py-5 bg-indigo-600 text-white rounded-[2rem] font-black text-sm flex items-center justify-center gap-3 shadow-xl hover:bg-indigo-700 transition-all disabled:opacity-50">
+                             {sequenceLoading[setIdx] ? <><Loader2 className="w-5 h-5 animate-spin" /> {sequenceStatus[setIdx]}</> : <><Film className="w-5 h-5" /> {t('step3.sequence')} <span className="text-xs opacity-70">{t('usage.estimate', { cost: formatCost(sequenceClipEstimate * prompt.shots.length) })}</span></>}
+                           </button>
                         </div>
                       </div>
                   </div>
+
+                  {gridPanels[setIdx] && (
+                    <PanelStrip
+                      panels={gridPanels[setIdx].panels}
+                      aspectRatio={getPanelAspectRatio(gridPanels[setIdx].layout)}
+                      shots={prompt.shots}
+                      regenerating={panelLoading[setIdx] || {}}
+                      videoBusy={!!setVideoLoading[setIdx]}
+                      onRegenerate={panelIdx => handleRegeneratePanel(setIdx, panelIdx)}
+                      onRenderVideo={panelIdx => handleGenerateFullVideo(setIdx, 'frame', panelIdx)}
+                    />
+                  )}
+
+                  {(sequences[setIdx]?.length > 0) && (
+                    <SequenceTimeline
+                      clips={sequences[setIdx]}
+                      exporting={sequenceExporting[setIdx] || null}
+                      onChange={clips => setSequences(prev => ({ ...prev, [setIdx]: clips }))}
+                      onExportVideo={() => handleExportSequenceVideo(setIdx)}
+                      onExportJson={() => handleExportSequenceJson(setIdx)}
+                      onExportEdl={() => handleExportSequenceEdl(setIdx)}
+                    />
+                  )}
                </div>
              ))}
           </div>
+          <div className="bg-slate-50 p-10 rounded-[3.5rem] border-2 border-dashed border-slate-200 flex flex-col md:flex-row gap-6 items-stretch">
+            <input type="number" value={extraSetCount} onChange={e => setExtraSetCount(Math.max(1, parseInt(e.target.value) || 1))} className="md:w-32 p-5 bg-white rounded-2xl font-black text-center" min="1" max="5" />
+            <input type="text" placeholder={t('step3.extraPlaceholder')} className="flex-1 p-5 text-sm font-bold bg-white rounded-2xl outline-none border-2 border-transparent focus:border-indigo-100" value={extraSetNote} onChange={e => setExtraSetNote(e.target.value)} />
+            <button onClick={handleAddSets} disabled={addingSets} className="px-10 py-5 bg-indigo-600 text-white rounded-2xl font-black text-sm flex items-center justify-center gap-3 shadow-xl hover:bg-indigo-700 transition-all">
+              {addingSets ? <Loader2 className="w-5 h-5 animate-spin" /> : <Plus className="w-5 h-5" />} {t('step3.addSets')}
+            </button>
+          </div>
         </section>
       )}
 
+      {usage.warning && (
+        <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[90] max-w-xl w-full px-6">
+          <div className="p-5 bg-amber-50 border-2 border-amber-200 rounded-[2rem] shadow-2xl flex items-center gap-4">
+            <AlertCircle className="w-6 h-6 text-amber-600 shrink-0" />
+            <p className="flex-1 text-xs font-bold text-amber-800">{t('usage.warning', { scope: budgetScopeLabel(usage.warning.scope), spent: formatCost(usage.warning.spent), limit: formatCost(usage.warning.limit), estimate: formatCost(usage.warning.estimate) })}</p>
+            <button onClick={() => { setShowUsage(true); dismissBudgetWarning(); }} className="px-4 py-2 bg-white rounded-xl font-black text-[11px] text-amber-700 shrink-0">{t('usage.open')}</button>
+            <button onClick={dismissBudgetWarning} className="p-2 text-amber-600 shrink-0"><X className="w-4 h-4" /></button>
+          </div>
+        </div>
+      )}
+
       {/* ERROR MODAL */}
       {error && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-black/60 backdrop-blur-sm">
            <div className="bg-white p-12 rounded-[4rem] shadow-2xl max-w-md w-full text-center border-4 border-slate-50">
               <div className="w-24 h-24 bg-red-50 text-red-500 rounded-full flex items-center justify-center mx-auto mb-8 shadow-inner"><AlertCircle className="w-12 h-12" /></div>
-              <h3 className="text-2xl font-black mb-6">异常状态报告</h3>
-              <p className="text-slate-500 font-bold mb-10 leading-relaxed text-sm">{error}</p>
-              <button onClick={() => setError(null)} className="w-full py-5 bg-black text-white rounded-[1.5rem] font-black shadow-2xl transition-all">确认并返回</button>
+              <h3 className="text-2xl font-black mb-6">{t('error.title')}</h3>
+              <p className="text-slate-500 font-bold mb-10 leading-relaxed text-sm whitespace-pre-line">{error}</p>
+              {errorAction && (
+                <button onClick={() => { errorAction.run(); setError(null); setErrorAction(null); }} className="w-full py-5 mb-4 bg-slate-100 rounded-[1.5rem] font-black hover:bg-slate-200 transition-all">{errorAction.label}</button>
+              )}
+              <button onClick={() => { setError(null); setErrorAction(null); }} className="w-full py-5 bg-black text-white rounded-[1.5rem] font-black shadow-2xl transition-all">{t('error.dismiss')}</button>
            </div>
         </div>
       )}
 
       {showHistory && (
-        <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
-           <div className="bg-white w-full max-w-3xl max-h-[80vh] rounded-[4rem] overflow-hidden flex flex-col shadow-2xl animate-in slide-in-from-bottom-10">
-              <div className="p-10 border-b flex justify-between items-center bg-slate
\ No newline at end of file
+        <ProjectLibraryModal
+          currentProjectId={projectId}
+          onRestore={handleRestoreProject}
+          onRenamed={(id, name) => { if (id === projectId) setProjectName(name); }}
+          onDeleted={handleProjectDeleted}
+          onError={handleError}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {historyView && (
+        <PromptHistoryModal
+          setIdx={historyView.setIdx}
+          versions={promptHistory[historyView.setIdx] || []}
+          initialVersionId={historyView.versionId}
+          gridVersionId={gridProvenance[historyView.setIdx]?.versionId}
+          videoVersionId={videoProvenance[historyView.setIdx]?.versionId}
+          onRevert={version => handleRevertVersion(historyView.setIdx, version)}
+          onClose={() => setHistoryView(null)}
+        />
+      )}
+
+      {takeView && (
+        <TakeCompareModal
+          setIdx={takeView.setIdx}
+          kind={takeView.kind}
+          takes={getTakesOfKind(takes[takeView.setIdx], takeView.kind)}
+          activeTakeId={getActiveTakeId(takeView.setIdx, takeView.kind)}
+          initialTakeId={takeView.takeId}
+          versionLabel={versionId => getVersionLabel(promptHistory[takeView.setIdx], versionId)}
+          onRate={(takeId, rating) => handleRateTake(takeView.setIdx, takeId, rating)}
+          onVerdict={(takeId, verdict) => handleTakeVerdict(takeView.setIdx, takeId, verdict)}
+          onDelete={takeId => handleDeleteTake(takeView.setIdx, takeId)}
+          onClose={() => setTakeView(null)}
+        />
+      )}
+
+      {/* 常驻挂载：关闭后运行中的批量任务与结果报告都保留 */}
+      <BatchRunModal
+        open={showBatch}
+        presets={stylePresets}
+        defaults={{ style: stylePresetId, promptCount, shotCount, gridAspectRatio, renderVideos: false, videoResolution, videoAspectRatio, videoEngine, targetDuration }}
+        languages={outputLanguages}
+        onOpenProject={handleOpenBatchProject}
+        onError={handleError}
+        onRunningChange={setBatchRunning}
+        onClose={() => setShowBatch(false)}
+      />
+
+      {showUsage && (
+        <UsageDashboardModal
+          currentProjectId={projectId}
+          onError={handleError}
+          onClose={() => setShowUsage(false)}
+        />
+      )}
+
+      {showVideos && (
+        <VideoLibraryModal
+          currentProjectId={projectId}
+          onDeleted={handleVideoDeleted}
+          onError={handleError}
+          onClose={() => setShowVideos(false)}
+        />
+      )}
+
+      {showModelSettings && <ModelSettingsModal onClose={() => setShowModelSettings(false)} />}
+      {showJobs && <RenderJobsPanel onClose={() => setShowJobs(false)} />}
+      {showPresets && (
+        <StylePresetModal
+          presets={stylePresets}
+          onChanged={refreshPresets}
+          onError={handleError}
+          onClose={() => setShowPresets(false)}
+        />
+      )}
+      {showCamera && (
+        <CameraCapture
+          assets={images}
+          onCapture={captured => setImages(prev => [...prev, ...captured])}
+          onError={handleError}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default App;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertCircle, Loader2, Play, RefreshCw, Scan, Sparkles } from 'lucide-react';
+import { IndividualAnalysis, MediaAsset } from '../types';
+import { getUsableAnalyses } from '../services/geminiService';
+import { t } from '../services/i18n';
+
+interface AnalysisReviewProps {
+  assets: MediaAsset[];
+  analyses: IndividualAnalysis[];
+  reanalyzing: Record<string, boolean>;
+  analyzing: boolean;
+  synthesizing: boolean;
+  onChange: (id: string, description: string) => void;
+  onReanalyze: (id: string) => void;
+  onSynthesize: () => void;
+}
+
+/**
+ * 逐项审阅单个资产的分析结果：缩略图 + 可编辑描述 + 单项重跑；失败项不参与合成
+ */
+const AnalysisReview: React.FC<AnalysisReviewProps> = ({ assets, analyses, reanalyzing, analyzing, synthesizing, onChange, onReanalyze, onSynthesize }) => {
+  const usableCount = getUsableAnalyses(analyses).length;
+  const failedCount = analyses.filter(a => a.status === 'failed').length;
+  return (
+    <section className="bg-slate-50 p-10 rounded-[3rem] border border-slate-100 mb-16 shadow-sm">
+      <div className="flex items-center gap-6 mb-10">
+        <span className="w-12 h-12 rounded-2xl bg-black text-white flex items-center justify-center text-xl font-black shadow-lg"><Scan className="w-6 h-6" /></span>
+        <h2 className="text-3xl font-black tracking-tight">{t('review.title')}</h2>
+        {failedCount > 0 && <span className="px-4 py-2 bg-red-50 text-red-500 rounded-xl text-xs font-black">{t('review.failedCount', { count: failedCount })}</span>}
+      </div>
+      <div className="space-y-6 mb-10">
+        {analyses.map((item, i) => {
+          const asset = assets.find(a => a.id === item.id);
+          const busy = item.status === 'pending' || item.status === 'running';
+          const failed = item.status === 'failed';
+          return (
+            <div key={item.id} className={`flex flex-col md:flex-row gap-6 bg-white p-6 rounded-[2rem] border shadow-sm ${failed ? 'border-red-200' : 'border-slate-100'}`}>
+              <div className="w-full md:w-40 aspect-square rounded-[1.5rem] overflow-hidden bg-slate-100 flex-shrink-0 flex items-center justify-center">
+                {!asset ? (
+                  <span className="text-[10px] font-black uppercase text-slate-400">{t('review.removed')}</span>
+                ) : asset.type === 'video' ? (
+                  asset.keyframes?.length ? <img src={asset.keyframes[0]} className="w-full h-full object-cover" /> : <Play className="w-8 h-8 text-slate-400" />
+                ) : (
+                  <img src={asset.data} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="flex-1 flex flex-col gap-3">
+                <label className="text-[11px] font-black uppercase text-slate-400">{t('review.itemLabel', { index: i + 1 })}{item.status === 'pending' && t('review.queued')}{item.status === 'running' && t('review.running')}</label>
+                {failed && (
+                  <p className="flex items-center gap-2 text-xs font-bold text-red-500"><AlertCircle className="w-4 h-4 flex-shrink-0" /> {t('review.failed', { error: item.error || t('common.unknownError') })}</p>
+                )}
+                <textarea
+                  className="w-full flex-1 min-h-[120px] p-5 text-sm font-medium text-slate-700 leading-relaxed bg-slate-50 rounded-[1.5rem] border-2 border-transparent focus:border-indigo-100 outline-none transition-all"
+                  value={item.description}
+                  disabled={busy}
+                  placeholder={failed ? t('review.manualPlaceholder') : ''}
+                  onChange={e => onChange(item.id, e.target.value)}
+                />
+              </div>
+              <button onClick={() => onReanalyze(item.id)} disabled={!asset || busy || reanalyzing[item.id]} className="self-start flex items-center gap-2 text-indigo-600 font-black text-xs bg-indigo-50 px-5 py-3 rounded-[1.2rem] border-2 border-indigo-100 hover:bg-indigo-100 transition-all disabled:opacity-50">
+                {busy || reanalyzing[item.id] ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} {failed ? t('common.retry') : t('review.reanalyze')}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <button onClick={onSynthesize} disabled={analyzing || synthesizing || usableCount === 0} className="w-full py-7 bg-black text-white rounded-[2.5rem] font-black text-lg flex items-center justify-center gap-4 shadow-2xl disabled:bg-slate-200 transition-all">
+        {synthesizing ? <Loader2 className="w-7 h-7 animate-spin" /> : <><Sparkles className="w-7 h-7" /> {t('review.synthesize', { usable: usableCount, total: analyses.length })}</>}
+      </button>
+    </section>
+  );
+};
+
+export default AnalysisReview;
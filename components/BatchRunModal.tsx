@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle2, Download, FileSpreadsheet, FolderOpen, Loader2, Play, Square, Upload, X } from 'lucide-react';
+import { BatchItemResult, BatchItemStatus, BatchProductSpec, BatchStage, OutputLanguages, StylePreset } from '../types';
+import { BatchDefaults, matchAssetFiles, parseManifest, resolveBatchStyle } from '../services/batchManifest';
+import { createBatchResults, downloadBatchReport, downloadSampleManifest, estimateBatchCost, runBatch } from '../services/batchPipeline';
+import { formatCost, getUsageState } from '../services/usage';
+import { ensureApiKey } from '../services/geminiService';
+import { t } from '../services/i18n';
+
+const DEFAULT_PRODUCT_INTERVAL = 10;
+
+interface BatchRunModalProps {
+  /** 关闭时只隐藏，运行中的批量任务在后台继续 */
+  open: boolean;
+  presets: StylePreset[];
+  defaults: BatchDefaults;
+  languages: OutputLanguages;
+  onOpenProject: (projectId: string) => void;
+  onError: (err: any) => void;
+  onRunningChange: (running: boolean) => void;
+  onClose: () => void;
+}
+
+const statusLabel = (status: BatchItemStatus) => t(`batch.status.${status}`);
+const stageLabel = (stage: BatchStage) => t(`batch.stage.${stage}`);
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'bg-slate-100 text-slate-500',
+  running: 'bg-indigo-100 text-indigo-700',
+  done: 'bg-emerald-100 text-emerald-700',
+  partial: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-600',
+  cancelled: 'bg-slate-200 text-slate-500'
+};
+
+/**
+ * 批量模式：读取产品清单与素材文件，无人值守地逐个产品跑完整条流水线，结束后给出汇总报告
+ */
+const BatchRunModal: React.FC<BatchRunModalProps> = ({ open, presets, defaults, languages, onOpenProject, onError, onRunningChange, onClose }) => {
+  const [manifestName, setManifestName] = useState<string>('');
+  const [specs, setSpecs] = useState<BatchProductSpec[] | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [productInterval, setProductInterval] = useState<number>(DEFAULT_PRODUCT_INTERVAL);
+  const [results, setResults] = useState<BatchItemResult[] | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => { onRunningChange(running); }, [running]);
+
+  const handleManifest = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSpecs(parseManifest(await file.text(), file.name, defaults));
+      setManifestName(file.name);
+      setResults(null);
+    } catch (err: any) { onError(err); }
+  };
+
+  const handleAssets = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    // 同名文件以后选择的为准
+    setFiles((prev: File[]) => [...prev.filter(f => !picked.some(p => p.name === f.name)), ...picked]);
+  };
+
+  const handleStart = async () => {
+    if (!specs) return;
+    const { confirmAbove } = getUsageState().budget;
+    const estimate = estimateBatchCost(specs);
+    if (confirmAbove !== null && estimate >= confirmAbove && !window.confirm(t('usage.confirmCost', { cost: formatCost(estimate) }))) return;
+    try {
+      if (specs.some(spec => spec.renderVideos)) await ensureApiKey();
+    } catch (err: any) {
+      onError(err);
+      return;
+    }
+    controller.current = new AbortController();
+    setRunning(true);
+    setResults(createBatchResults(specs));
+    try {
+      await runBatch(specs, files, {
+        presets,
+        fallbackStyleId: defaults.style,
+        languages,
+        productInterval,
+        signal: controller.current.signal,
+        onUpdate: setResults
+      });
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const totals = specs ? {
+    products: specs.length,
+    sets: specs.reduce((sum, s) => sum + s.promptCount, 0),
+    videos: specs.reduce((sum, s) => sum + (s.renderVideos ? s.promptCount : 0), 0),
+    missing: specs.reduce((sum, s) => sum + matchAssetFiles(s, files).missing.length, 0),
+    estimate: estimateBatchCost(specs)
+  } : null;
+  const finished = !running && results && results.some(r => r.status !== 'pending');
+  const countBy = (status: BatchItemStatus) => results?.filter(r => r.status === status).length || 0;
+
+  return (
+    <div className={`fixed inset-0 z-[80] items-center justify-center p-6 bg-black/70 backdrop-blur-md ${open ? 'flex' : 'hidden'}`}>
+      <div className="bg-white w-full max-w-7xl max-h-[92vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><FileSpreadsheet className="w-7 h-7" /> {t('batch.title')}</h3>
+          <div className="flex items-center gap-3">
+            <button onClick={downloadSampleManifest} className="px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 hover:bg-slate-100 transition-all"><Download className="w-4 h-4" /> {t('batch.sample')}</button>
+            <button onClick={onClose} title={running ? t('batch.closeWhileRunning') : undefined} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+
+        <div className="p-8 border-b grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className={`p-5 border-2 border-dashed rounded-2xl flex items-center gap-3 font-black text-sm transition-all ${running ? 'opacity-50' : 'cursor-pointer hover:border-black'}`}>
+            <Upload className="w-5 h-5" /> {manifestName || t('batch.pickManifest')}
+            <input type="file" className="hidden" accept=".csv,.json,text/csv,application/json" onChange={handleManifest} disabled={running} />
+          </label>
+          <label className={`p-5 border-2 border-dashed rounded-2xl flex items-center gap-3 font-black text-sm transition-all ${running ? 'opacity-50' : 'cursor-pointer hover:border-black'}`}>
+            <FolderOpen className="w-5 h-5" /> {t('batch.pickAssets', { count: files.length })}
+            <input type="file" className="hidden" multiple accept="image/*,video/*" onChange={handleAssets} disabled={running} />
+          </label>
+          <div className="p-5 bg-slate-50 rounded-2xl flex items-center gap-3">
+            <span className="text-[11px] font-black uppercase text-slate-400 flex-1">{t('batch.interval')}</span>
+            <input type="number" min={1} value={productInterval} onChange={e => setProductInterval(Math.max(1, parseInt(e.target.value) || 1))} disabled={running} className="w-20 p-2 bg-white rounded-xl font-black text-center text-sm" />
+            <span className="text-xs font-bold text-slate-400">s</span>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8">
+          {!specs ? (
+            <p className="text-center text-slate-400 font-bold py-16 whitespace-pre-line">{t('batch.empty')}</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] font-black uppercase text-slate-400">
+                  <th className="pb-3">{t('batch.col.product')}</th>
+                  <th className="pb-3">{t('batch.col.assets')}</th>
+                  <th className="pb-3">{t('batch.col.style')}</th>
+                  <th className="pb-3">{t('batch.col.plan')}</th>
+                  <th className="pb-3">{t('batch.col.status')}</th>
+                  <th className="pb-3">{t('batch.col.outputs')}</th>
+                  <th className="pb-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {specs.map((spec, i) => {
+                  const { files: matched, missing } = matchAssetFiles(spec, files);
+                  const result = results?.[i];
+                  return (
+                    <tr key={i} className="border-t border-slate-100 align-top">
+                      <td className="py-3 pr-4 font-black">{spec.productName}</td>
+                      <td className="py-3 pr-4 font-bold">
+                        <span className={missing.length > 0 ? 'text-red-500' : 'text-slate-600'} title={missing.join('\n')}>{matched.length}/{spec.assetNames.length}</span>
+                      </td>
+                      <td className="py-3 pr-4 font-bold text-slate-600">{resolveBatchStyle(presets, spec.style, defaults.style).name}</td>
+                      <td className="py-3 pr-4 font-bold text-slate-600">
+                        {t('batch.plan', { sets: spec.promptCount, shots: spec.shotCount, grid: spec.gridAspectRatio })}
+                        {spec.renderVideos && <span className="block text-emerald-600">{t('batch.planVideo', { resolution: spec.videoResolution, aspect: spec.videoAspectRatio, duration: spec.targetDuration })}</span>}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {result && (
+                          <span className={`px-2 py-1 rounded-lg font-black text-[10px] inline-flex items-center gap-1 ${STATUS_STYLES[result.status]}`}>
+                            {result.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                            {statusLabel(result.status)}{result.status === 'running' && result.stage && ` · ${stageLabel(result.stage)}`}
+                          </span>
+                        )}
+                        {result?.error && <p className="mt-2 text-red-500 font-bold">{result.error}</p>}
+                        {result && result.warnings.length > 0 && (
+                          <details className="mt-2 text-amber-600 font-bold">
+                            <summary className="cursor-pointer">{t('batch.warnings', { count: result.warnings.length })}</summary>
+                            <ul className="mt-1 space-y-1 list-disc pl-4">{result.warnings.map((w, j) => <li key={j}>{w}</li>)}</ul>
+                          </details>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 font-bold text-slate-600">{result && result.sets > 0 && t('batch.outputs', { grids: result.grids, sets: result.sets, videos: result.videos })}{result?.cost !== undefined && <span className="block text-slate-400">{formatCost(result.cost)}</span>}</td>
+                      <td className="py-3 text-right">
+                        {result?.projectId && !running && (
+                          <button onClick={() => onOpenProject(result.projectId!)} className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl font-black text-[10px] hover:bg-slate-100">{t('batch.openProject')}</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {totals && (
+          <div className="p-8 border-t bg-slate-50 flex flex-col md:flex-row items-center gap-4">
+            <div className="flex-1 text-xs font-black text-slate-500 space-y-1">
+              <p>{t('batch.totals', { products: totals.products, sets: totals.sets, videos: totals.videos })} · {t('usage.estimate', { cost: formatCost(totals.estimate) })}</p>
+              {totals.missing > 0 && <p className="text-red-500">{t('batch.missingTotal', { count: totals.missing })}</p>}
+              {finished && (
+                <p className="text-slate-700 flex items-center gap-2"><CheckCircle2 className="w-4 h-4 text-emerald-600" /> {t('batch.summary', { done: countBy('done'), partial: countBy('partial'), failed: countBy('failed'), cancelled: countBy('cancelled') })} · {t('batch.spent', { cost: formatCost(results?.reduce((sum, r) => sum + (r.cost || 0), 0) || 0) })}</p>
+              )}
+            </div>
+            {finished && results && (
+              <>
+                <button onClick={() => downloadBatchReport(results, 'csv')} className="px-5 py-4 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 hover:bg-slate-100"><Download className="w-4 h-4" /> {t('batch.reportCsv')}</button>
+                <button onClick={() => downloadBatchReport(results, 'json')} className="px-5 py-4 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 hover:bg-slate-100"><Download className="w-4 h-4" /> {t('batch.reportJson')}</button>
+              </>
+            )}
+            {running ? (
+              <button onClick={() => controller.current?.abort()} className="px-8 py-4 bg-red-500 text-white rounded-2xl font-black text-sm flex items-center gap-2"><Square className="w-4 h-4" /> {t('batch.stop')}</button>
+            ) : (
+              <button onClick={handleStart} className="px-8 py-4 bg-black text-white rounded-2xl font-black text-sm flex items-center gap-2"><Play className="w-4 h-4" /> {t(finished ? 'batch.restart' : 'batch.start')}</button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchRunModal;
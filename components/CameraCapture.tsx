@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CheckCircle2, Loader2, RefreshCw, Video, X } from 'lucide-react';
+import { MediaAsset } from '../types';
+import { CAPTURE_ANGLES, FramingGuide } from '../services/captureAngles';
+import { ingestFiles } from '../services/mediaIngest';
+import { t } from '../services/i18n';
+
+const CLIP_SECONDS = 4;
+
+interface CameraCaptureProps {
+  assets: MediaAsset[];
+  onCapture: (assets: MediaAsset[]) => void;
+  onError: (err: unknown) => void;
+  onClose: () => void;
+}
+
+/**
+ * 取景框叠加层：三分线 + 按角度切换的构图参考
+ */
+const FramingOverlay: React.FC<{ guide: FramingGuide }> = ({ guide }) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+    {[33.3, 66.6].map(p => (
+      <React.Fragment key={p}>
+        <line x1={p} y1="0" x2={p} y2="100" stroke="white" strokeOpacity="0.3" strokeWidth="0.3" />
+        <line x1="0" y1={p} x2="100" y2={p} stroke="white" strokeOpacity="0.3" strokeWidth="0.3" />
+      </React.Fragment>
+    ))}
+    {guide === 'center' && <rect x="20" y="15" width="60" height="70" rx="3" fill="none" stroke="white" strokeWidth="0.6" strokeDasharray="2 1.5" />}
+    {guide === 'top-down' && (
+      <>
+        <ellipse cx="50" cy="50" rx="28" ry="28" fill="none" stroke="white" strokeWidth="0.6" strokeDasharray="2 1.5" />
+        <line x1="46" y1="50" x2="54" y2="50" stroke="white" strokeWidth="0.6" />
+        <line x1="50" y1="46" x2="50" y2="54" stroke="white" strokeWidth="0.6" />
+      </>
+    )}
+    {guide === 'macro' && <ellipse cx="50" cy="50" rx="12" ry="12" fill="none" stroke="white" strokeWidth="0.8" />}
+    {guide === 'hand' && <rect x="25" y="30" width="50" height="60" rx="6" fill="none" stroke="white" strokeWidth="0.6" strokeDasharray="2 1.5" />}
+  </svg>
+);
+
+/**
+ * 引导式拍摄：按多角度清单逐项拍照或录制短片，直接加入资产并标注角度
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ assets, onCapture, onError, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [angleIdx, setAngleIdx] = useState<number>(0);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [recordingLeft, setRecordingLeft] = useState<number>(0);
+
+  const angle = CAPTURE_ANGLES[angleIdx];
+  const capturedCount = (id: string) => assets.filter(a => a.angle === id).length;
+
+  useEffect(() => {
+    let cancelled = false;
+    setCameraError(null);
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(stream => {
+        if (cancelled) { stream.getTracks().forEach(t => t.stop()); return; }
+        streamRef.current = stream;
+        if (videoRef.current) videoRef.current.srcObject = stream;
+      })
+      .catch(err => {
+        if (!cancelled) setCameraError(err?.name === 'NotAllowedError' ? t('camera.permissionDenied') : t('camera.openFailed', { error: err?.message || String(err) }));
+      });
+    if (!navigator.mediaDevices?.getUserMedia) setCameraError(t('camera.unsupported'));
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      streamRef.current = null;
+    };
+  }, [facingMode]);
+
+  // 拍完一项后跳到下一个尚未拍摄的角度
+  const advance = (justCaptured: string) => {
+    const next = CAPTURE_ANGLES.findIndex((spec, i) => i > angleIdx && spec.id !== justCaptured && capturedCount(spec.id) === 0);
+    if (next >= 0) setAngleIdx(next);
+  };
+
+  const addCapturedFile = async (file: File) => {
+    const { assets: ingested, rejected } = await ingestFiles([file]);
+    if (rejected.length > 0) throw new Error(rejected[0].reason);
+    onCapture(ingested.map(asset => ({ ...asset, angle: angle.id })));
+    advance(angle.id);
+  };
+
+  const capturePhoto = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    setBusy(true);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+      if (!blob) throw new Error(t('camera.photoFailed'));
+      await addCapturedFile(new File([blob], `${angle.id}-${Date.now()}.jpg`, { type: 'image/jpeg' }));
+    } catch (err) {
+      onError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const recordClip = async () => {
+    const stream = streamRef.current;
+    if (!stream || typeof MediaRecorder === 'undefined') { onError(new Error(t('camera.recordUnsupported'))); return; }
+    setBusy(true);
+    try {
+      const mimeType = MediaRecorder.isTypeSupported('video/mp4') ? 'video/mp4' : 'video/webm';
+      const recorder = new MediaRecorder(stream, { mimeType });
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+      const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+      recorder.start();
+      for (let left = CLIP_SECONDS; left > 0; left--) {
+        setRecordingLeft(left);
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+      recorder.stop();
+      await stopped;
+      setRecordingLeft(0);
+      const ext = mimeType === 'video/mp4' ? 'mp4' : 'webm';
+      await addCapturedFile(new File([new Blob(chunks, { type: mimeType })], `${angle.id}-${Date.now()}.${ext}`, { type: mimeType }));
+    } catch (err) {
+      onError(err);
+    } finally {
+      setRecordingLeft(0);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-6 bg-black/80 backdrop-blur-md">
+      <div className="bg-white w-full max-w-6xl max-h-[92vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Camera className="w-7 h-7" /> {t('camera.title')}</h3>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+        <div className="flex flex-col lg:flex-row gap-8 p-8 overflow-y-auto">
+          <div className="flex-1 flex flex-col gap-5">
+            <div className="relative aspect-video bg-black rounded-[2rem] overflow-hidden">
+              {cameraError ? (
+                <div className="absolute inset-0 flex items-center justify-center p-10 text-center text-sm font-bold text-white/80">{cameraError}</div>
+              ) : (
+                <>
+                  <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                  <FramingOverlay guide={angle.guide} />
+                  {recordingLeft > 0 && <span className="absolute top-5 left-5 flex items-center gap-2 px-4 py-2 bg-red-500 text-white rounded-xl text-xs font-black"><span className="w-2 h-2 bg-white rounded-full animate-pulse" /> {t('camera.recording', { seconds: recordingLeft })}</span>}
+                </>
+              )}
+            </div>
+            <div className="p-5 bg-slate-50 rounded-[1.5rem]">
+              <p className="text-lg font-black">{t(`angle.${angle.id}`)}</p>
+              <p className="text-sm font-medium text-slate-500 mt-1">{t(`angle.${angle.id}.hint`)}</p>
+            </div>
+            <div className="flex gap-4">
+              <button onClick={capturePhoto} disabled={busy || !!cameraError} className="flex-1 py-5 bg-black text-white rounded-[1.5rem] font-black flex items-center justify-center gap-3 shadow-xl disabled:opacity-50 transition-all">
+                {busy && recordingLeft === 0 ? <Loader2 className="w-5 h-5 animate-spin" /> : <Camera className="w-5 h-5" />} {t('camera.takePhoto')}
+              </button>
+              <button onClick={recordClip} disabled={busy || !!cameraError} className="flex-1 py-5 bg-slate-100 rounded-[1.5rem] font-black flex items-center justify-center gap-3 hover:bg-slate-200 disabled:opacity-50 transition-all">
+                <Video className="w-5 h-5" /> {t('camera.recordClip', { seconds: CLIP_SECONDS })}
+              </button>
+              <button onClick={() => setFacingMode(prev => prev === 'environment' ? 'user' : 'environment')} disabled={busy} title={t('camera.switchCamera')} className="px-5 bg-slate-100 rounded-[1.5rem] hover:bg-slate-200 disabled:opacity-50 transition-all">
+                <RefreshCw className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+          <div className="w-full lg:w-72 space-y-3">
+            <label className="text-[11px] font-black uppercase text-slate-400 block mb-2">{t('camera.checklist')}</label>
+            {CAPTURE_ANGLES.map((spec, i) => {
+              const count = capturedCount(spec.id);
+              return (
+                <button key={spec.id} onClick={() => setAngleIdx(i)} disabled={busy} className={`w-full flex items-center justify-between p-4 rounded-[1.2rem] border-2 font-black text-sm transition-all ${i === angleIdx ? 'border-black bg-white' : 'border-transparent bg-slate-50 hover:bg-slate-100'}`}>
+                  <span>{i + 1}. {t(`angle.${spec.id}`)}</span>
+                  {count > 0 ? <span className="flex items-center gap-1 text-green-600 text-xs"><CheckCircle2 className="w-4 h-4" /> {count}</span> : <span className="text-xs text-slate-300">{t('camera.pending')}</span>}
+                </button>
+              );
+            })}
+            <button onClick={onClose} className="w-full mt-4 py-4 bg-black text-white rounded-[1.2rem] font-black text-sm">{t('camera.done')}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
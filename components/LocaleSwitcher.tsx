@@ -0,0 +1,22 @@
+import React, { useSyncExternalStore } from 'react';
+import { Languages } from 'lucide-react';
+import { Locale, LOCALE_OPTIONS, getLocale, setLocale, subscribeLocale, t } from '../services/i18n';
+
+export const useLocale = () => useSyncExternalStore(subscribeLocale, getLocale);
+
+/**
+ * 界面语言切换，选择会记住在本机
+ */
+const LocaleSwitcher: React.FC = () => {
+  const locale = useLocale();
+  return (
+    <label title={t('locale.label')} className="px-4 py-3 bg-slate-100 rounded-2xl font-black text-sm flex items-center gap-2 hover:bg-slate-200 transition-all shadow-sm cursor-pointer">
+      <Languages className="w-5 h-5" />
+      <select value={locale} onChange={e => setLocale(e.target.value as Locale)} className="bg-transparent outline-none cursor-pointer">
+        {LOCALE_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+      </select>
+    </label>
+  );
+};
+
+export default LocaleSwitcher;
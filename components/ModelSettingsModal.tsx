@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Cpu, X } from 'lucide-react';
+import { DEFAULT_MODEL_CONFIG, ModelConfig, ProviderId, getModelConfig, saveModelConfig, resetModelConfig } from '../services/modelConfig';
+import { t } from '../services/i18n';
+
+const MODEL_FIELDS: Exclude<keyof ModelConfig, 'provider'>[] = ['analysisModel', 'profileModel', 'storyboardModel', 'refineModel', 'imageModel', 'videoExtensionModel'];
+
+const PROVIDER_OPTIONS: ProviderId[] = ['gemini', 'mock'];
+
+interface ModelSettingsModalProps {
+  onClose: () => void;
+}
+
+const ModelSettingsModal: React.FC<ModelSettingsModalProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<ModelConfig>(getModelConfig());
+
+  const handleSave = () => {
+    saveModelConfig(draft);
+    onClose();
+  };
+
+  const handleReset = () => {
+    resetModelConfig();
+    setDraft(getModelConfig());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-2xl max-h-[85vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Cpu className="w-7 h-7" /> {t('models.title')}</h3>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+        <div className="p-8 space-y-8 overflow-y-auto">
+          <div>
+            <label className="text-[11px] font-black uppercase text-slate-400 mb-4 block">{t('models.provider')}</label>
+            <div className="flex p-2 bg-slate-100 rounded-3xl gap-2">
+              {PROVIDER_OPTIONS.map(id => (
+                <button key={id} onClick={() => setDraft(prev => ({ ...prev, provider: id }))} className={`flex-1 py-4 rounded-2xl font-black text-[11px] transition-all ${draft.provider === id ? 'bg-white text-indigo-600 shadow-lg' : 'text-slate-400'}`}>{t(`models.provider.${id}`)}</button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {MODEL_FIELDS.map(field => (
+              <div key={field}>
+                <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t(`models.field.${field}`)}</label>
+                <input
+                  type="text"
+                  value={draft[field]}
+                  placeholder={DEFAULT_MODEL_CONFIG[field]}
+                  disabled={draft.provider === 'mock'}
+                  onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+                  className="w-full p-4 bg-slate-50 rounded-2xl font-bold text-xs outline-none border-2 border-transparent focus:border-indigo-100 disabled:opacity-50"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className="p-8 border-t flex gap-4">
+          <button onClick={handleReset} className="flex-1 py-4 bg-slate-100 rounded-2xl font-black text-sm hover:bg-slate-200 transition-all">{t('models.reset')}</button>
+          <button onClick={handleSave} className="flex-1 py-4 bg-black text-white rounded-2xl font-black text-sm shadow-xl hover:bg-slate-800 transition-all">{t('models.save')}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsModal;
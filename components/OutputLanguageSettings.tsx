@@ -0,0 +1,30 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { OutputLanguage, OutputLanguages, OutputStage } from '../types';
+import { OUTPUT_LANGUAGE_OPTIONS, t } from '../services/i18n';
+
+const STAGES: OutputStage[] = ['analysis', 'profile', 'storyboard', 'refine'];
+
+interface OutputLanguageSettingsProps {
+  value: OutputLanguages;
+  onChange: (value: OutputLanguages) => void;
+}
+
+/**
+ * 各阶段模型输出语言，与界面语言相互独立
+ */
+const OutputLanguageSettings: React.FC<OutputLanguageSettingsProps> = ({ value, onChange }) => (
+  <div className="flex flex-wrap items-center gap-4 px-8 py-5 bg-white border-2 border-slate-100 rounded-[2rem]">
+    <span className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2"><Globe className="w-4 h-4" /> {t('outputLanguage.title')}</span>
+    {STAGES.map(stage => (
+      <label key={stage} className="flex items-center gap-2 text-xs font-black text-slate-600">
+        {t(`outputLanguage.${stage}`)}
+        <select value={value[stage]} onChange={e => onChange({ ...value, [stage]: e.target.value as OutputLanguage })} className="p-2 bg-slate-50 rounded-xl font-black text-xs outline-none">
+          {OUTPUT_LANGUAGE_OPTIONS.map(lang => <option key={lang} value={lang}>{t(`outputLanguage.${lang}`)}</option>)}
+        </select>
+      </label>
+    ))}
+  </div>
+);
+
+export default OutputLanguageSettings;
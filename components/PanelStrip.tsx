@@ -0,0 +1,60 @@
+import React from 'react';
+import { ImageIcon, Loader2, RefreshCw, Video } from 'lucide-react';
+import { ShotDetail } from '../types';
+import { cssAspectRatio } from '../services/gridImage';
+import { t } from '../services/i18n';
+
+interface PanelStripProps {
+  panels: string[];
+  shots: ShotDetail[];
+  aspectRatio: string;
+  regenerating: Record<number, boolean>;
+  videoBusy: boolean;
+  onRegenerate: (panelIdx: number) => void;
+  onRenderVideo: (panelIdx: number) => void;
+}
+
+/**
+ * 宫格切片后的逐帧视图：每帧与对应镜头描述并排，支持单帧重绘与以此帧起始渲染视频
+ */
+const PanelStrip: React.FC<PanelStripProps> = ({ panels, shots, aspectRatio, regenerating, videoBusy, onRegenerate, onRenderVideo }) => {
+  return (
+    <div className="border-t pt-10">
+      <label className="text-[12px] font-black uppercase text-slate-400 flex items-center gap-3 mb-6"><ImageIcon className="w-4 h-4" /> {t('panels.title')}</label>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {panels.map((panel, i) => {
+          const shot = shots[i];
+          return (
+            <div key={i} className="bg-slate-50 rounded-[2rem] overflow-hidden border border-slate-100 flex flex-col">
+              <div style={{ aspectRatio: cssAspectRatio(aspectRatio) }} className="relative bg-slate-200">
+                <img src={panel} className="w-full h-full object-cover" />
+                <span className="absolute top-3 left-3 px-3 py-1 bg-black/70 text-white rounded-lg text-[10px] font-black">{i + 1}</span>
+                {regenerating[i] && <div className="absolute inset-0 bg-white/80 flex items-center justify-center"><Loader2 className="animate-spin text-indigo-600" /></div>}
+              </div>
+              <div className="p-5 flex-1 flex flex-col gap-3">
+                {shot ? (
+                  <>
+                    <p className="text-[10px] font-black uppercase text-slate-400">{shot.cameraAngle} · {shot.lighting}</p>
+                    <p className="text-xs font-medium text-slate-600 leading-relaxed line-clamp-4 flex-1">{shot.description}</p>
+                  </>
+                ) : (
+                  <p className="text-xs font-bold text-slate-300 flex-1">{t('panels.noShot')}</p>
+                )}
+                <div className="flex gap-2">
+                  <button onClick={() => onRegenerate(i)} disabled={regenerating[i] || !shot} className="flex-1 py-3 bg-white rounded-xl font-black text-[11px] text-slate-600 flex items-center justify-center gap-2 border border-slate-200 hover:bg-slate-100 transition-all disabled:opacity-50">
+                    <RefreshCw className="w-3 h-3" /> {t('panels.regenerate')}
+                  </button>
+                  <button onClick={() => onRenderVideo(i)} disabled={videoBusy} className="flex-1 py-3 bg-emerald-600 rounded-xl font-black text-[11px] text-white flex items-center justify-center gap-2 hover:bg-emerald-700 transition-all disabled:opacity-50">
+                    <Video className="w-3 h-3" /> {t('panels.startVideo')}
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PanelStrip;
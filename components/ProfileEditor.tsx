@@ -0,0 +1,51 @@
+import React from 'react';
+import { Activity, Box, Lock, MapPin, Scan, Unlock, Users } from 'lucide-react';
+import { ProductAnalysis, ProfileField } from '../types';
+import { PROFILE_FIELDS } from '../services/profile';
+import { t } from '../services/i18n';
+
+const FIELD_ICONS: Record<ProfileField, React.ElementType> = {
+  structure: Box,
+  details: Scan,
+  audience: Users,
+  scenarios: MapPin,
+  motion: Activity
+};
+
+interface ProfileEditorProps {
+  profile: ProductAnalysis['globalProfile'];
+  lockedFields: ProfileField[];
+  onChange: (field: ProfileField, value: string) => void;
+  onToggleLock: (field: ProfileField) => void;
+}
+
+/**
+ * 产品基因五要素的手工编辑，锁定的字段在重新合成时保持不变
+ */
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ profile, lockedFields, onChange, onToggleLock }) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {PROFILE_FIELDS.map(field => {
+        const Icon = FIELD_ICONS[field];
+        const locked = lockedFields.includes(field);
+        return (
+          <div key={field} className={`bg-white p-6 rounded-[2rem] border-2 shadow-sm flex flex-col gap-3 ${locked ? 'border-amber-200' : 'border-slate-100'}`}>
+            <div className="flex items-center justify-between">
+              <label className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2"><Icon className="w-4 h-4" /> {t(`profile.field.${field}`)}</label>
+              <button onClick={() => onToggleLock(field)} title={locked ? t('profile.unlock') : t('profile.lock')} className={`p-2 rounded-xl transition-all ${locked ? 'bg-amber-50 text-amber-600' : 'text-slate-300 hover:text-slate-600'}`}>
+                {locked ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
+              </button>
+            </div>
+            <textarea
+              className="w-full min-h-[110px] p-4 text-sm font-medium text-slate-700 leading-relaxed bg-slate-50 rounded-[1.5rem] border-2 border-transparent focus:border-indigo-100 outline-none transition-all"
+              value={profile[field]}
+              onChange={e => onChange(field, e.target.value)}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProfileEditor;
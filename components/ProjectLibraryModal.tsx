@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Check, Clock, Download, Edit3, FolderOpen, History, Loader2, Search, Trash2, Upload, X } from 'lucide-react';
+import { ProjectRecord } from '../types';
+import { StorageUsage, listProjects, renameProject, deleteProject, getStorageUsage, estimateProjectBytes, formatBytes, saveProject } from '../services/projectStore';
+import { exportProjectBundle, parseProjectBundle } from '../services/projectBundle';
+import { t, getDateLocale } from '../services/i18n';
+
+interface ProjectLibraryModalProps {
+  currentProjectId: string | null;
+  onRestore: (record: ProjectRecord) => void;
+  onRenamed: (id: string, name: string) => void;
+  onDeleted: (id: string) => void;
+  onError: (err: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * 本地项目库：搜索、恢复、重命名、删除，并展示存储占用
+ */
+const ProjectLibraryModal: React.FC<ProjectLibraryModalProps> = ({ currentProjectId, onRestore, onRenamed, onDeleted, onError, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [records, setRecords] = useState<ProjectRecord[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+  const [exporting, setExporting] = useState<Record<string, boolean>>({});
+  const [importing, setImporting] = useState<boolean>(false);
+
+  const refresh = async (keyword = query) => {
+    try {
+      const [list, stats] = await Promise.all([listProjects(keyword), getStorageUsage()]);
+      setRecords(list);
+      setUsage(stats);
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(query); }, [query]);
+
+  const handleRename = async (id: string) => {
+    const name = editingName.trim();
+    if (!name) return;
+    try {
+      await renameProject(id, name);
+      onRenamed(id, name);
+      setEditingId(null);
+      await refresh();
+    } catch (err: any) { onError(err); }
+  };
+
+  const handleDelete = async (record: ProjectRecord) => {
+    if (!window.confirm(t('library.confirmDelete', { name: record.name }))) return;
+    try {
+      await deleteProject(record.id);
+      onDeleted(record.id);
+      await refresh();
+    } catch (err: any) { onError(err); }
+  };
+
+  const handleExport = async (record: ProjectRecord) => {
+    setExporting(prev => ({ ...prev, [record.id]: true }));
+    try {
+      await exportProjectBundle(record);
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setExporting(prev => ({ ...prev, [record.id]: false }));
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const record = parseProjectBundle(await file.text());
+      await saveProject(record);
+      onRestore(record);
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-3xl max-h-[80vh] rounded-[4rem] overflow-hidden flex flex-col shadow-2xl animate-in slide-in-from-bottom-10">
+        <div className="p-10 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><History className="w-7 h-7" /> {t('library.title')}</h3>
+          <div className="flex items-center gap-3">
+            <label className="px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 cursor-pointer hover:bg-slate-100 transition-all">
+              {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} {t('library.import')}
+              <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} disabled={importing} />
+            </label>
+            <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+        <div className="px-10 pt-8">
+          <div className="flex items-center gap-3 p-4 bg-slate-50 rounded-2xl">
+            <Search className="w-5 h-5 text-slate-400" />
+            <input type="text" placeholder={t('library.search')} className="flex-1 bg-transparent outline-none font-bold text-sm" value={query} onChange={e => setQuery(e.target.value)} />
+          </div>
+        </div>
+        <div className="p-10 overflow-y-auto space-y-4 flex-1">
+          {loading ? (
+            <div className="flex justify-center py-16"><Loader2 className="w-8 h-8 animate-spin text-slate-300" /></div>
+          ) : records.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold py-16">{query ? t('library.noMatch') : t('library.empty')}</p>
+          ) : records.map(record => (
+            <div key={record.id} className={`flex items-center gap-6 p-5 rounded-[2rem] border ${record.id === currentProjectId ? 'bg-indigo-50 border-indigo-100' : 'bg-slate-50 border-slate-100'}`}>
+              {record.thumbnail ? <img src={record.thumbnail} className="w-20 h-20 rounded-2xl object-cover" /> : <div className="w-20 h-20 rounded-2xl bg-slate-200 flex items-center justify-center"><Box className="w-8 h-8 text-slate-400" /></div>}
+              <div className="flex-1 min-w-0">
+                {editingId === record.id ? (
+                  <div className="flex gap-2">
+                    <input autoFocus className="flex-1 p-2 bg-white rounded-xl font-black outline-none border-2 border-indigo-100" value={editingName} onChange={e => setEditingName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') handleRename(record.id); if (e.key === 'Escape') setEditingId(null); }} />
+                    <button onClick={() => handleRename(record.id)} className="p-2 rounded-xl bg-black text-white"><Check className="w-4 h-4" /></button>
+                  </div>
+                ) : (
+                  <p className="font-black text-lg truncate">{record.name}</p>
+                )}
+                <p className="text-xs text-slate-400 font-bold flex items-center gap-2"><Clock className="w-3 h-3" /> {new Date(record.updatedAt).toLocaleString(getDateLocale())} · {t('library.meta', { sets: record.session.prompts.length, size: formatBytes(estimateProjectBytes(record)) })}</p>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onRestore(record)} title={t('library.restore')} className="p-3 rounded-xl bg-black text-white hover:bg-slate-800 transition-all"><FolderOpen className="w-4 h-4" /></button>
+                <button onClick={() => handleExport(record)} disabled={exporting[record.id]} title={t('library.export')} className="p-3 rounded-xl bg-white text-slate-500 hover:text-slate-900 transition-all">
+                  {exporting[record.id] ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </button>
+                <button onClick={() => { setEditingId(record.id); setEditingName(record.name); }} title={t('library.rename')} className="p-3 rounded-xl bg-white text-slate-500 hover:text-slate-900 transition-all"><Edit3 className="w-4 h-4" /></button>
+                <button onClick={() => handleDelete(record)} title={t('library.delete')} className="p-3 rounded-xl bg-white text-red-400 hover:text-red-600 transition-all"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+        {usage && (
+          <div className="px-10 py-5 border-t bg-slate-50 text-[11px] font-black uppercase text-slate-400 flex justify-between">
+            <span>{t('library.usage', { count: usage.projectCount, size: formatBytes(usage.projectBytes) })}</span>
+            {usage.usage !== undefined && usage.quota !== undefined && <span>{t('library.browserStorage', { used: formatBytes(usage.usage), quota: formatBytes(usage.quota) })}</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectLibraryModal;
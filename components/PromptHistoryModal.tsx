@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { PromptVersion, PromptVersionSource } from '../types';
+import { formatPromptForEditing } from '../services/scriptFormat';
+import { getLatestVersion, getVersionLabel, isSameVersionContent } from '../services/promptHistory';
+import { DiffRow, diffLines, hasDifferences } from '../services/textDiff';
+import { t, getDateLocale } from '../services/i18n';
+
+interface PromptHistoryModalProps {
+  setIdx: number;
+  versions: PromptVersion[];
+  initialVersionId?: string;
+  gridVersionId?: string;
+  videoVersionId?: string;
+  onRevert: (version: PromptVersion) => void;
+  onClose: () => void;
+}
+
+const sourceLabel = (source: PromptVersionSource) => t(`history.source.${source}`);
+
+const ROW_STYLES: Record<DiffRow['type'], { left: string, right: string }> = {
+  same: { left: 'text-slate-500', right: 'text-slate-500' },
+  added: { left: 'bg-slate-50', right: 'bg-emerald-50 text-emerald-800' },
+  removed: { left: 'bg-red-50 text-red-800', right: 'bg-slate-50' },
+  changed: { left: 'bg-red-50 text-red-800', right: 'bg-emerald-50 text-emerald-800' }
+};
+
+const DiffTable: React.FC<{ title: string, before: string, after: string }> = ({ title, before, after }) => {
+  const rows = diffLines(before, after);
+  return (
+    <div>
+      <p className="text-[11px] font-black uppercase text-slate-400 mb-3">{title}</p>
+      {!hasDifferences(rows) ? (
+        <p className="text-xs font-bold text-slate-300 py-4">{t('history.noChanges')}</p>
+      ) : (
+        <div className="grid grid-cols-2 gap-px bg-slate-100 rounded-2xl overflow-hidden text-xs font-medium leading-relaxed">
+          {rows.map((row, i) => (
+            <React.Fragment key={i}>
+              <div className={`px-4 py-1.5 whitespace-pre-wrap break-words bg-white ${ROW_STYLES[row.type].left}`}>{row.left ?? ''}</div>
+              <div className={`px-4 py-1.5 whitespace-pre-wrap break-words bg-white ${ROW_STYLES[row.type].right}`}>{row.right ?? ''}</div>
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * 单套方案的版本时间线：任选两个版本左右对照差异，并可回退到任一历史版本
+ */
+const PromptHistoryModal: React.FC<PromptHistoryModalProps> = ({ setIdx, versions, initialVersionId, gridVersionId, videoVersionId, onRevert, onClose }) => {
+  const latest = getLatestVersion(versions);
+  const initialIndex = Math.max(0, versions.findIndex(v => v.id === (initialVersionId || latest?.id)));
+  const [compareId, setCompareId] = useState<string | undefined>(versions[initialIndex]?.id);
+  // 默认与紧邻的上一个版本对比；从渲染结果打开时与当前版本对比
+  const [baseId, setBaseId] = useState<string | undefined>(initialVersionId && initialVersionId !== latest?.id ? latest?.id : versions[Math.max(0, initialIndex - 1)]?.id);
+
+  const base = versions.find(v => v.id === baseId);
+  const compare = versions.find(v => v.id === compareId);
+  const labelOf = (version?: PromptVersion) => version ? getVersionLabel(versions, version.id) : '';
+
+  const handleRevert = (version: PromptVersion) => {
+    if (!window.confirm(t('history.confirmRevert', { version: labelOf(version) }))) return;
+    onRevert(version);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-6xl max-h-[88vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><History className="w-7 h-7" /> {t('history.title', { set: setIdx + 1 })}</h3>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+        {versions.length === 0 ? (
+          <p className="text-center text-slate-400 font-bold py-24">{t('history.empty')}</p>
+        ) : (
+          <div className="flex flex-1 min-h-0">
+            <div className="w-80 border-r p-6 space-y-2 overflow-y-auto">
+              <p className="text-[11px] font-bold text-slate-400 mb-4">{t('history.pickHint')}</p>
+              {[...versions].reverse().map(version => {
+                const isCurrent = version === latest;
+                return (
+                  <div key={version.id} className={`p-4 rounded-2xl border ${version.id === compareId ? 'border-indigo-200 bg-indigo-50' : version.id === baseId ? 'border-slate-300 bg-slate-50' : 'border-transparent hover:bg-slate-50'}`}>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-black text-sm">{labelOf(version)}</span>
+                      <span className="text-[10px] font-black text-slate-500">{sourceLabel(version.source)}</span>
+                      {isCurrent && <span className="px-2 py-0.5 bg-black text-white rounded-lg text-[10px] font-black">{t('history.current')}</span>}
+                      {version.id === gridVersionId && <span className="px-2 py-0.5 bg-slate-200 rounded-lg text-[10px] font-black">{t('history.usedByGrid')}</span>}
+                      {version.id === videoVersionId && <span className="px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-lg text-[10px] font-black">{t('history.usedByVideo')}</span>}
+                    </div>
+                    <p className="text-[10px] font-bold text-slate-400 mt-1">{new Date(version.createdAt).toLocaleString(getDateLocale())}</p>
+                    <div className="flex gap-2 mt-3">
+                      <button onClick={() => setBaseId(version.id)} className={`px-3 py-1.5 rounded-lg font-black text-[10px] ${version.id === baseId ? 'bg-slate-700 text-white' : 'bg-white border border-slate-200 text-slate-500'}`}>{t('history.base')}</button>
+                      <button onClick={() => setCompareId(version.id)} className={`px-3 py-1.5 rounded-lg font-black text-[10px] ${version.id === compareId ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500'}`}>{t('history.compare')}</button>
+                      {latest && !isSameVersionContent(latest, version.prompt, version.refined) && (
+                        <button onClick={() => handleRevert(version)} title={t('history.revert')} className="ml-auto p-1.5 rounded-lg bg-white border border-slate-200 text-amber-600 hover:bg-amber-50"><RotateCcw className="w-3 h-3" /></button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex-1 p-8 overflow-y-auto space-y-8">
+              {base && compare && (
+                <>
+                  <div className="grid grid-cols-2 gap-4 text-xs font-black">
+                    <p className="text-slate-500">{labelOf(base)} · {sourceLabel(base.source)}</p>
+                    <p className="text-indigo-600">{labelOf(compare)} · {sourceLabel(compare.source)}</p>
+                  </div>
+                  <DiffTable title={t('history.script')} before={formatPromptForEditing(base.prompt)} after={formatPromptForEditing(compare.prompt)} />
+                  {(base.refined || compare.refined) && (
+                    <DiffTable title={t('history.refined')} before={base.refined || ''} after={compare.refined || ''} />
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptHistoryModal;
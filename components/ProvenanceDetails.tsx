@@ -0,0 +1,58 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { RenderProvenance } from '../types';
+import { t, getDateLocale } from '../services/i18n';
+
+interface ProvenanceDetailsProps {
+  provenance: RenderProvenance;
+  versionLabel?: string;
+  onShowVersion?: () => void;
+}
+
+const referenceLabel = ({ reference }: RenderProvenance) => reference.kind === 'panel'
+  ? t('provenance.reference.panel', { frame: (reference.panelIdx ?? 0) + 1 })
+  : t(`provenance.reference.${reference.kind}`);
+
+/**
+ * 宫格图或视频的生成来源：提示词版本、参考图、渲染参数与实际提交的提示词
+ */
+const ProvenanceDetails: React.FC<ProvenanceDetailsProps> = ({ provenance, versionLabel, onShowVersion }) => {
+  const { settings } = provenance;
+  const summary = [
+    settings.model,
+    settings.stylePresetName,
+    settings.layout && t('provenance.layout', { layout: settings.layout }),
+    settings.aspectRatio,
+    settings.resolution,
+    settings.targetDuration && `${settings.targetDuration}s`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <details className="bg-slate-50 rounded-[1.5rem] border border-slate-100 px-5 py-4 text-xs text-slate-500">
+      <summary className="font-black cursor-pointer flex items-center gap-2 flex-wrap">
+        <History className="w-4 h-4" /> {t('provenance.title')}
+        {provenance.versionId && versionLabel !== undefined && <span className="px-2 py-0.5 bg-white rounded-lg text-slate-700">{versionLabel ? t('provenance.version', { version: versionLabel }) : t('provenance.versionMissing')}</span>}
+        <span className="text-slate-400 font-bold">{new Date(provenance.createdAt).toLocaleString(getDateLocale())}</span>
+      </summary>
+      <div className="mt-4 space-y-3">
+        <div className="flex items-center gap-4">
+          {provenance.reference.thumbnail && <img src={provenance.reference.thumbnail} className="w-14 h-14 rounded-xl object-cover border border-slate-200" />}
+          <div className="space-y-1 min-w-0">
+            <p className="font-black text-slate-700">{referenceLabel(provenance)}</p>
+            <p className="font-bold break-words">{summary}</p>
+            {provenance.redrawnPanels && provenance.redrawnPanels.length > 0 && (
+              <p className="font-bold text-amber-600">{t('provenance.redrawn', { frames: provenance.redrawnPanels.map(i => i + 1).join(', ') })}</p>
+            )}
+          </div>
+        </div>
+        <p className="font-black text-[10px] uppercase text-slate-400">{t('provenance.prompt')}</p>
+        <p className="whitespace-pre-line leading-relaxed max-h-40 overflow-y-auto bg-white rounded-xl p-3">{provenance.prompt}</p>
+        {onShowVersion && versionLabel && (
+          <button onClick={onShowVersion} className="px-4 py-2 bg-white border border-slate-200 rounded-xl font-black text-[11px] text-slate-700 hover:bg-slate-100 transition-all">{t('provenance.showVersion')}</button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ProvenanceDetails;
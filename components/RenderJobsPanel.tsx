@@ -0,0 +1,89 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { AlertCircle, CheckCircle2, Clock, Image as ImageIcon, Layers, Loader2, Trash, Video, X, XCircle } from 'lucide-react';
+import { RenderJob, RenderJobStatus } from '../types';
+import { subscribeJobs, getJobs, cancelJob, clearFinishedJobs, getMaxConcurrency, setMaxConcurrency } from '../services/renderJobs';
+import { t } from '../services/i18n';
+
+const STATUS_CLASSES: Record<RenderJobStatus, string> = {
+  queued: 'bg-slate-100 text-slate-500',
+  running: 'bg-indigo-50 text-indigo-600',
+  succeeded: 'bg-emerald-50 text-emerald-600',
+  failed: 'bg-red-50 text-red-500',
+  cancelled: 'bg-amber-50 text-amber-600'
+};
+
+const statusLabel = (status: RenderJobStatus) => t(`jobs.status.${status}`);
+
+const StatusIcon: React.FC<{ status: RenderJobStatus }> = ({ status }) => {
+  if (status === 'running') return <Loader2 className="w-4 h-4 animate-spin" />;
+  if (status === 'succeeded') return <CheckCircle2 className="w-4 h-4" />;
+  if (status === 'failed') return <AlertCircle className="w-4 h-4" />;
+  if (status === 'cancelled') return <XCircle className="w-4 h-4" />;
+  return <Clock className="w-4 h-4" />;
+};
+
+const formatElapsed = (job: RenderJob) => {
+  if (!job.startedAt) return '';
+  const seconds = Math.round(((job.finishedAt || Date.now()) - job.startedAt) / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m${seconds % 60}s` : `${seconds}s`;
+};
+
+export const useRenderJobs = () => useSyncExternalStore(subscribeJobs, getJobs);
+
+interface RenderJobsPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * 全部方案的图片 / 视频渲染任务队列
+ */
+const RenderJobsPanel: React.FC<RenderJobsPanelProps> = ({ onClose }) => {
+  const jobs = useRenderJobs();
+  const [concurrency, setConcurrency] = useState<number>(getMaxConcurrency());
+
+  const handleConcurrencyChange = (value: number) => {
+    setMaxConcurrency(value);
+    setConcurrency(getMaxConcurrency());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[85] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-3xl max-h-[80vh] rounded-[4rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-10 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Layers className="w-7 h-7" /> {t('jobs.title')}</h3>
+          <div className="flex items-center gap-3">
+            <label className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2">{t('jobs.maxConcurrency')}
+              <input type="number" min="1" max="8" value={concurrency} onChange={e => handleConcurrencyChange(parseInt(e.target.value))} className="w-16 p-2 bg-white rounded-xl font-black text-center border border-slate-200" />
+            </label>
+            <button onClick={clearFinishedJobs} title={t('jobs.clearFinished')} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><Trash className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+        <div className="p-10 overflow-y-auto space-y-3">
+          {jobs.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold py-16">{t('jobs.empty')}</p>
+          ) : jobs.map(job => {
+            const active = job.status === 'queued' || job.status === 'running';
+            return (
+              <div key={job.id} className="flex items-center gap-5 p-5 bg-slate-50 rounded-[1.5rem] border border-slate-100">
+                <div className="w-10 h-10 rounded-xl bg-white flex items-center justify-center text-slate-400">
+                  {job.kind === 'video' ? <Video className="w-5 h-5" /> : <ImageIcon className="w-5 h-5" />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-black text-sm truncate">{job.label}</p>
+                  <p className={`text-xs font-bold truncate ${job.status === 'failed' ? 'text-red-400' : 'text-slate-400'}`}>{job.error || job.message} {formatElapsed(job) && `· ${formatElapsed(job)}`}</p>
+                </div>
+                <span className={`px-3 py-2 rounded-xl text-[10px] font-black flex items-center gap-2 ${STATUS_CLASSES[job.status]}`}><StatusIcon status={job.status} /> {statusLabel(job.status)}</span>
+                {active && (
+                  <button onClick={() => cancelJob(job.id)} title={t('jobs.cancel')} className="p-2 rounded-xl text-red-400 hover:bg-white hover:text-red-600 transition-all"><XCircle className="w-5 h-5" /></button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RenderJobsPanel;
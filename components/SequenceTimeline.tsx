@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, FileText, Film, Loader2, Pause, Play, Trash2 } from 'lucide-react';
+import { TimelineClip } from '../types';
+import { getClipLength, getTimelineDuration } from '../services/timeline';
+import { t } from '../services/i18n';
+
+interface SequenceTimelineProps {
+  clips: TimelineClip[];
+  exporting: string | null;
+  onChange: (clips: TimelineClip[]) => void;
+  onExportVideo: () => void;
+  onExportJson: () => void;
+  onExportEdl: () => void;
+}
+
+/**
+ * 逐镜头视频的时间线：排序、裁切入/出点、连续预览与导出
+ */
+const SequenceTimeline: React.FC<SequenceTimelineProps> = ({ clips, exporting, onChange, onExportVideo, onExportJson, onExportEdl }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playingIdx, setPlayingIdx] = useState<number | null>(null);
+
+  const updateClip = (idx: number, patch: Partial<TimelineClip>) => {
+    onChange(clips.map((clip, i) => i === idx ? { ...clip, ...patch } : clip));
+  };
+
+  const moveClip = (idx: number, offset: -1 | 1) => {
+    const target = idx + offset;
+    if (target < 0 || target >= clips.length) return;
+    const next = [...clips];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    onChange(next);
+  };
+
+  const setTrim = (idx: number, field: 'trimStart' | 'trimEnd', value: number) => {
+    const clip = clips[idx];
+    if (Number.isNaN(value)) return;
+    if (field === 'trimStart') updateClip(idx, { trimStart: Math.min(Math.max(0, value), clip.trimEnd - 0.1) });
+    else updateClip(idx, { trimEnd: Math.max(Math.min(clip.duration, value), clip.trimStart + 0.1) });
+  };
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || playingIdx === null) return;
+    const clip = clips[playingIdx];
+    if (!clip) { setPlayingIdx(null); return; }
+    video.src = clip.url;
+    video.onloadeddata = () => {
+      video.currentTime = clip.trimStart;
+      video.play().catch(() => setPlayingIdx(null));
+    };
+  }, [playingIdx]);
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || playingIdx === null) return;
+    const clip = clips[playingIdx];
+    if (clip && video.currentTime < clip.trimEnd && !video.ended) return;
+    setPlayingIdx(playingIdx + 1 < clips.length ? playingIdx + 1 : null);
+  };
+
+  const togglePreview = () => {
+    if (playingIdx !== null) {
+      videoRef.current?.pause();
+      setPlayingIdx(null);
+    } else if (clips.length > 0) {
+      setPlayingIdx(0);
+    }
+  };
+
+  return (
+    <div className="border-t pt-10 space-y-6">
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <label className="text-[12px] font-black uppercase text-slate-400 flex items-center gap-3"><Film className="w-4 h-4" /> {t('timeline.title', { count: clips.length, duration: getTimelineDuration(clips).toFixed(1) })}</label>
+        <div className="flex gap-3">
+          <button onClick={togglePreview} disabled={clips.length === 0} className="px-5 py-3 bg-slate-900 text-white rounded-xl font-black text-[11px] flex items-center gap-2 disabled:opacity-50">
+            {playingIdx !== null ? <><Pause className="w-4 h-4" /> {t('timeline.stopPreview')}</> : <><Play className="w-4 h-4" /> {t('timeline.playAll')}</>}
+          </button>
+          <button onClick={onExportVideo} disabled={clips.length === 0 || !!exporting} className="px-5 py-3 bg-emerald-600 text-white rounded-xl font-black text-[11px] flex items-center gap-2 disabled:opacity-50">
+            {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />} {exporting || t('timeline.exportVideo')}
+          </button>
+          <button onClick={onExportJson} disabled={clips.length === 0} className="px-5 py-3 bg-slate-100 rounded-xl font-black text-[11px] flex items-center gap-2 disabled:opacity-50"><FileText className="w-4 h-4" /> JSON</button>
+          <button onClick={onExportEdl} disabled={clips.length === 0} className="px-5 py-3 bg-slate-100 rounded-xl font-black text-[11px] flex items-center gap-2 disabled:opacity-50"><FileText className="w-4 h-4" /> EDL</button>
+        </div>
+      </div>
+
+      <video ref={videoRef} onTimeUpdate={handleTimeUpdate} onEnded={handleTimeUpdate} className={`w-full max-h-[420px] bg-black rounded-[2rem] ${playingIdx === null ? 'hidden' : ''}`} />
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {clips.map((clip, i) => (
+          <div key={clip.id} className={`flex-shrink-0 w-56 bg-slate-50 rounded-[1.5rem] border-2 overflow-hidden ${playingIdx === i ? 'border-emerald-400' : 'border-slate-100'}`}>
+            <video src={clip.url} muted className="w-full aspect-video object-cover bg-black" />
+            <div className="p-4 space-y-3">
+              <p className="text-[10px] font-black uppercase text-slate-500">{t('timeline.clip', { index: i + 1, shot: clip.shotIdx + 1, duration: getClipLength(clip).toFixed(1) })}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-[9px] font-black uppercase text-slate-400">{t('timeline.in')}
+                  <input type="number" step="0.1" value={clip.trimStart} onChange={e => setTrim(i, 'trimStart', parseFloat(e.target.value))} className="w-full mt-1 p-2 bg-white rounded-lg font-bold text-xs" />
+                </label>
+                <label className="text-[9px] font-black uppercase text-slate-400">{t('timeline.out')}
+                  <input type="number" step="0.1" value={clip.trimEnd} onChange={e => setTrim(i, 'trimEnd', parseFloat(e.target.value))} className="w-full mt-1 p-2 bg-white rounded-lg font-bold text-xs" />
+                </label>
+              </div>
+              <div className="flex gap-1 justify-between">
+                <button onClick={() => moveClip(i, -1)} disabled={i === 0} className="p-2 rounded-lg text-slate-400 hover:bg-white disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+                <button onClick={() => moveClip(i, 1)} disabled={i === clips.length - 1} className="p-2 rounded-lg text-slate-400 hover:bg-white disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+                <button onClick={() => onChange(clips.filter((_, j) => j !== i))} className="p-2 rounded-lg text-red-300 hover:bg-white hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SequenceTimeline;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Copy, FileText, Loader2, Plus, Table, Trash2, Wand2 } from 'lucide-react';
+import { ProductPrompt, ShotDetail } from '../types';
+import { createEmptyShot, formatPromptForEditing, parsePromptScript } from '../services/scriptFormat';
+import { t } from '../services/i18n';
+
+interface ShotEditorProps {
+  prompt: ProductPrompt;
+  onChange: (prompt: ProductPrompt) => void;
+  regeneratingShots?: Record<number, boolean>;
+  onRegenerateShot?: (shotIdx: number) => void;
+}
+
+type EditorMode = 'table' | 'text';
+
+/**
+ * 单套分镜的结构化编辑器：表格逐镜头编辑，或切换到脚本文本后解析回结构化数据
+ */
+const ShotEditor: React.FC<ShotEditorProps> = ({ prompt, onChange, regeneratingShots = {}, onRegenerateShot }) => {
+  const [mode, setMode] = useState<EditorMode>('table');
+  const [draft, setDraft] = useState<string>('');
+
+  // 方案被外部改写（重生成、润色、版本回退）时重新展开草稿；草稿解析结果与方案一致说明是自己的输入，保留原文与光标
+  useEffect(() => {
+    if (mode !== 'text') return;
+    const formatted = formatPromptForEditing(prompt);
+    if (formatPromptForEditing(parsePromptScript(draft)) !== formatted) setDraft(formatted);
+  }, [prompt]);
+
+  const updateShots = (shots: ShotDetail[]) => onChange({ ...prompt, shots });
+
+  const updateShot = (idx: number, patch: Partial<ShotDetail>) => {
+    updateShots(prompt.shots.map((shot, i) => i === idx ? { ...shot, ...patch } : shot));
+  };
+
+  const moveShot = (idx: number, offset: -1 | 1) => {
+    const target = idx + offset;
+    if (target < 0 || target >= prompt.shots.length) return;
+    const next = [...prompt.shots];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    updateShots(next);
+  };
+
+  const duplicateShot = (idx: number) => {
+    const next = [...prompt.shots];
+    next.splice(idx + 1, 0, { ...prompt.shots[idx] });
+    updateShots(next);
+  };
+
+  const insertShot = (idx: number) => {
+    const next = [...prompt.shots];
+    next.splice(idx + 1, 0, createEmptyShot());
+    updateShots(next);
+  };
+
+  const deleteShot = (idx: number) => {
+    updateShots(prompt.shots.filter((_, i) => i !== idx));
+  };
+
+  const switchMode = (next: EditorMode) => {
+    if (next === mode) return;
+    if (next === 'text') setDraft(formatPromptForEditing(prompt));
+    setMode(next);
+  };
+
+  const handleDraftChange = (text: string) => {
+    setDraft(text);
+    onChange(parsePromptScript(text));
+  };
+
+  const tabClass = (active: boolean) => `flex items-center gap-2 px-5 py-2 rounded-xl font-black text-[11px] transition-all ${active ? 'bg-white text-indigo-600 shadow' : 'text-slate-400'}`;
+
+  return (
+    <div className="flex-1 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[12px] font-black uppercase text-slate-400 flex items-center gap-3">{t('shots.title')}</label>
+        <div className="flex p-1 bg-slate-100 rounded-2xl gap-1">
+          <button onClick={() => switchMode('table')} className={tabClass(mode === 'table')}><Table className="w-4 h-4" /> {t('shots.tableMode')}</button>
+          <button onClick={() => switchMode('text')} className={tabClass(mode === 'text')}><FileText className="w-4 h-4" /> {t('shots.textMode')}</button>
+        </div>
+      </div>
+
+      {mode === 'text' ? (
+        <textarea className="w-full flex-1 min-h-[400px] p-10 text-base font-medium text-slate-700 leading-relaxed bg-slate-50 rounded-[3rem] border-2 border-transparent focus:border-indigo-100 outline-none transition-all" value={draft} onChange={e => handleDraftChange(e.target.value)} />
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-slate-50 p-6 rounded-[2rem]">
+            <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t('shots.instruction')}</label>
+            <textarea className="w-full min-h-[80px] p-4 text-sm font-medium text-slate-700 leading-relaxed bg-white rounded-[1.5rem] border-2 border-transparent focus:border-indigo-100 outline-none transition-all" value={prompt.instruction} onChange={e => onChange({ ...prompt, instruction: e.target.value })} />
+          </div>
+          <div className="bg-slate-50 rounded-[2rem] overflow-hidden">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[11px] font-black uppercase text-slate-400 text-left">
+                  <th className="p-4 w-12">#</th>
+                  <th className="p-4 w-40">{t('shots.camera')}</th>
+                  <th className="p-4 w-40">{t('shots.lighting')}</th>
+                  <th className="p-4">{t('shots.description')}</th>
+                  <th className="p-4 w-52"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {prompt.shots.map((shot, i) => (
+                  <tr key={i} className="border-t border-slate-200/60 align-top">
+                    <td className="p-4 font-black text-slate-400">{i + 1}</td>
+                    <td className="p-2"><input className="w-full p-3 bg-white rounded-xl font-bold text-xs outline-none border-2 border-transparent focus:border-indigo-100" value={shot.cameraAngle} onChange={e => updateShot(i, { cameraAngle: e.target.value })} /></td>
+                    <td className="p-2"><input className="w-full p-3 bg-white rounded-xl font-bold text-xs outline-none border-2 border-transparent focus:border-indigo-100" value={shot.lighting} onChange={e => updateShot(i, { lighting: e.target.value })} /></td>
+                    <td className="p-2"><textarea className="w-full min-h-[64px] p-3 bg-white rounded-xl font-medium text-xs text-slate-700 outline-none border-2 border-transparent focus:border-indigo-100" value={shot.description} onChange={e => updateShot(i, { description: e.target.value })} /></td>
+                    <td className="p-2">
+                      <div className="flex gap-1 justify-end">
+                        {onRegenerateShot && (
+                          <button onClick={() => onRegenerateShot(i)} disabled={regeneratingShots[i]} title={t('shots.regenerate')} className="p-2 rounded-lg text-amber-500 hover:bg-white hover:text-amber-600 disabled:opacity-50">
+                            {regeneratingShots[i] ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+                          </button>
+                        )}
+                        <button onClick={() => moveShot(i, -1)} disabled={i === 0} title={t('shots.moveUp')} className="p-2 rounded-lg text-slate-400 hover:bg-white hover:text-slate-700 disabled:opacity-30"><ChevronUp className="w-4 h-4" /></button>
+                        <button onClick={() => moveShot(i, 1)} disabled={i === prompt.shots.length - 1} title={t('shots.moveDown')} className="p-2 rounded-lg text-slate-400 hover:bg-white hover:text-slate-700 disabled:opacity-30"><ChevronDown className="w-4 h-4" /></button>
+                        <button onClick={() => duplicateShot(i)} title={t('shots.duplicate')} className="p-2 rounded-lg text-slate-400 hover:bg-white hover:text-slate-700"><Copy className="w-4 h-4" /></button>
+                        <button onClick={() => insertShot(i)} title={t('shots.insertBelow')} className="p-2 rounded-lg text-slate-400 hover:bg-white hover:text-slate-700"><Plus className="w-4 h-4" /></button>
+                        <button onClick={() => deleteShot(i)} title={t('shots.delete')} className="p-2 rounded-lg text-red-300 hover:bg-white hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {prompt.shots.length === 0 && (
+              <button onClick={() => insertShot(-1)} className="w-full p-6 text-xs font-black text-slate-400 hover:text-slate-700 flex items-center justify-center gap-2"><Plus className="w-4 h-4" /> {t('shots.add')}</button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShotEditor;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Copy, Download, Loader2, Palette, Plus, Save, Trash2, Upload, X } from 'lucide-react';
+import { StylePreset, VideoAspectRatio, VideoEngine, VideoResolution } from '../types';
+import { SCENE_OPTIONS, createEmptyPreset, createPresetId, savePreset, deletePreset, exportPresets, parsePresetFile } from '../services/stylePresets';
+import { ingestFiles } from '../services/mediaIngest';
+import { t } from '../services/i18n';
+
+const MAX_MOOD_IMAGES = 3;
+
+const TEXT_FIELDS = ['sceneDescription', 'lighting', 'palette', 'props', 'banned', 'negativePrompt'] as const;
+
+interface StylePresetModalProps {
+  presets: StylePreset[];
+  onChanged: () => void;
+  onError: (err: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * 风格预设管理：新建、复制、编辑、删除，以及以 JSON 分享导入导出
+ */
+const StylePresetModal: React.FC<StylePresetModalProps> = ({ presets, onChanged, onError, onClose }) => {
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [importing, setImporting] = useState<boolean>(false);
+  const customPresets = presets.filter(p => !p.builtIn);
+
+  const update = <K extends keyof StylePreset>(key: K, value: StylePreset[K]) =>
+    setDraft(prev => prev ? { ...prev, [key]: value } : prev);
+
+  const updateDefault = (key: keyof NonNullable<StylePreset['renderDefaults']>, value: string) =>
+    setDraft(prev => {
+      if (!prev) return prev;
+      const defaults = { ...prev.renderDefaults };
+      if (value === '') delete defaults[key];
+      else (defaults as any)[key] = key === 'targetDuration' ? Number(value) : value;
+      return { ...prev, renderDefaults: defaults };
+    });
+
+  const handleDuplicate = (preset: StylePreset) =>
+    setDraft({ ...preset, id: createPresetId(), name: t('presets.copySuffix', { name: preset.name }), builtIn: undefined, updatedAt: Date.now() });
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    setSaving(true);
+    try {
+      await savePreset(draft);
+      onChanged();
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    if (!window.confirm(t('presets.confirmDelete', { name: preset.name }))) return;
+    try {
+      await deletePreset(preset.id);
+      if (draft?.id === preset.id) setDraft(null);
+      onChanged();
+    } catch (err: any) { onError(err); }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      const imported = parsePresetFile(await file.text());
+      for (const preset of imported) await savePreset(preset);
+      onChanged();
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleMoodUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = (Array.from(e.target.files || []) as File[]).slice(0, MAX_MOOD_IMAGES);
+    e.target.value = '';
+    if (!draft || files.length === 0) return;
+    try {
+      const { assets, rejected } = await ingestFiles(files);
+      if (rejected.length > 0) onError(new Error(rejected.map(r => `${r.name}：${r.reason}`).join('\n')));
+      const images = assets.filter(a => a.type === 'image').map(a => a.data);
+      update('moodImages', [...draft.moodImages, ...images].slice(0, MAX_MOOD_IMAGES));
+    } catch (err: any) { onError(err); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-5xl max-h-[88vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Palette className="w-7 h-7" /> {t('presets.title')}</h3>
+          <div className="flex items-center gap-3">
+            <label className="px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 cursor-pointer hover:bg-slate-100 transition-all">
+              {importing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />} {t('presets.import')}
+              <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} disabled={importing} />
+            </label>
+            <button onClick={() => exportPresets(customPresets)} disabled={customPresets.length === 0} className="px-5 py-3 bg-white border border-slate-200 rounded-2xl font-black text-xs flex items-center gap-2 hover:bg-slate-100 disabled:opacity-50 transition-all"><Download className="w-4 h-4" /> {t('presets.exportAll')}</button>
+            <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <div className="w-72 border-r p-6 space-y-2 overflow-y-auto">
+            <button onClick={() => setDraft(createEmptyPreset())} className="w-full mb-4 py-3 bg-black text-white rounded-2xl font-black text-xs flex items-center justify-center gap-2"><Plus className="w-4 h-4" /> {t('presets.new')}</button>
+            {presets.map(preset => (
+              <div key={preset.id} className={`flex items-center gap-2 p-3 rounded-2xl ${draft?.id === preset.id ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                <button onClick={() => preset.builtIn ? handleDuplicate(preset) : setDraft(preset)} className="flex-1 text-left min-w-0">
+                  <p className="font-black text-sm truncate">{preset.name}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{preset.builtIn ? t('presets.builtInHint') : preset.sceneType}</p>
+                </button>
+                {!preset.builtIn && (
+                  <>
+                    <button onClick={() => exportPresets([preset])} title={t('presets.export')} className="p-2 text-slate-400 hover:text-black"><Download className="w-4 h-4" /></button>
+                    <button onClick={() => handleDuplicate(preset)} title={t('presets.duplicate')} className="p-2 text-slate-400 hover:text-black"><Copy className="w-4 h-4" /></button>
+                    <button onClick={() => handleDelete(preset)} title={t('presets.delete')} className="p-2 text-slate-400 hover:text-red-500"><Trash2 className="w-4 h-4" /></button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex-1 p-8 overflow-y-auto">
+            {!draft ? (
+              <p className="text-center text-slate-400 font-bold py-24">{t('presets.emptyEditor')}</p>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-6">
+                  <div>
+                    <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t('presets.name')}</label>
+                    <input value={draft.name} onChange={e => update('name', e.target.value)} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-sm outline-none" />
+                  </div>
+                  <div>
+                    <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t('presets.sceneType')}</label>
+                    <select value={draft.sceneType} onChange={e => update('sceneType', e.target.value as StylePreset['sceneType'])} className="w-full p-4 bg-slate-50 rounded-2xl font-black text-xs outline-none">
+                      {SCENE_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                    </select>
+                  </div>
+                </div>
+                {TEXT_FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t(`presets.field.${field}`)}</label>
+                    <textarea value={draft[field]} placeholder={t(`presets.field.${field}.placeholder`)} onChange={e => update(field, e.target.value)} className="w-full min-h-[64px] p-4 bg-slate-50 rounded-2xl font-medium text-sm outline-none" />
+                  </div>
+                ))}
+                <div>
+                  <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t('presets.moodImages', { max: MAX_MOOD_IMAGES })}</label>
+                  <div className="flex gap-4">
+                    {draft.moodImages.map((img, i) => (
+                      <div key={i} className="relative w-28 h-28 rounded-2xl overflow-hidden">
+                        <img src={img} className="w-full h-full object-cover" />
+                        <button onClick={() => update('moodImages', draft.moodImages.filter((_, j) => j !== i))} className="absolute top-1 right-1 p-1 bg-red-500 text-white rounded-lg"><X className="w-3 h-3" /></button>
+                      </div>
+                    ))}
+                    {draft.moodImages.length < MAX_MOOD_IMAGES && (
+                      <label className="w-28 h-28 flex items-center justify-center border-2 border-dashed border-slate-200 rounded-2xl cursor-pointer hover:border-black transition-all">
+                        <Plus className="w-5 h-5 text-slate-400" />
+                        <input type="file" className="hidden" accept="image/*" multiple onChange={handleMoodUpload} />
+                      </label>
+                    )}
+                  </div>
+                </div>
+                <div>
+                  <label className="text-[11px] font-black uppercase text-slate-400 mb-3 block">{t('presets.renderDefaults')}</label>
+                  <div className="grid grid-cols-4 gap-3">
+                    <select value={draft.renderDefaults?.videoAspectRatio || ''} onChange={e => updateDefault('videoAspectRatio', e.target.value as VideoAspectRatio)} className="p-3 bg-slate-50 rounded-xl font-black text-xs outline-none">
+                      <option value="">{t('presets.keepAspect')}</option><option value="9:16">9:16</option><option value="16:9">16:9</option>
+                    </select>
+                    <select value={draft.renderDefaults?.videoResolution || ''} onChange={e => updateDefault('videoResolution', e.target.value as VideoResolution)} className="p-3 bg-slate-50 rounded-xl font-black text-xs outline-none">
+                      <option value="">{t('presets.keepResolution')}</option><option value="720p">720p</option><option value="1080p">1080p</option>
+                    </select>
+                    <select value={draft.renderDefaults?.videoEngine || ''} onChange={e => updateDefault('videoEngine', e.target.value as VideoEngine)} className="p-3 bg-slate-50 rounded-xl font-black text-xs outline-none">
+                      <option value="">{t('presets.keepEngine')}</option><option value="veo-3.1-fast-generate-preview">Veo Fast</option><option value="veo-3.1-generate-preview">Veo Standard</option>
+                    </select>
+                    <select value={draft.renderDefaults?.targetDuration ?? ''} onChange={e => updateDefault('targetDuration', e.target.value)} className="p-3 bg-slate-50 rounded-xl font-black text-xs outline-none">
+                      <option value="">{t('presets.keepDuration')}</option><option value="5">5-7s</option><option value="12">12-14s</option><option value="19">19-21s</option>
+                    </select>
+                  </div>
+                </div>
+                <button onClick={handleSave} disabled={saving || !draft.name.trim()} className="w-full py-5 bg-black text-white rounded-[1.5rem] font-black flex items-center justify-center gap-3 disabled:opacity-50">
+                  {saving ? <Loader2 className="w-5 h-5 animate-spin" /> : <Save className="w-5 h-5" />} {t('presets.save')}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StylePresetModal;
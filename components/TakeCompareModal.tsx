@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { Columns2, Pause, Play, RotateCcw, ThumbsDown, ThumbsUp, Trash2, X } from 'lucide-react';
+import { RenderTake, TakeKind, TakeVerdict } from '../types';
+import TakeRating from './TakeRating';
+import { t, getDateLocale } from '../services/i18n';
+
+// 同屏对比的结果数上限
+const MAX_COMPARED = 4;
+
+interface TakeCompareModalProps {
+  setIdx: number;
+  kind: TakeKind;
+  takes: RenderTake[];
+  activeTakeId?: string;
+  initialTakeId?: string;
+  versionLabel: (versionId?: string) => string;
+  onRate: (takeId: string, rating?: number) => void;
+  onVerdict: (takeId: string, verdict?: TakeVerdict) => void;
+  onDelete: (takeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 同一套方案多次结果的并排对比：宫格图并排查看，视频同步播放，并可评分、通过或淘汰
+ */
+const TakeCompareModal: React.FC<TakeCompareModalProps> = ({ setIdx, kind, takes, activeTakeId, initialTakeId, versionLabel, onRate, onVerdict, onDelete, onClose }) => {
+  const [selected, setSelected] = useState<string[]>(() => {
+    const preferred = [initialTakeId, activeTakeId].filter((id): id is string => !!id);
+    const rest = [...takes].reverse().map(take => take.id).filter(id => !preferred.includes(id));
+    return Array.from(new Set([...preferred, ...rest])).slice(0, 2);
+  });
+  const videos = useRef<Record<string, HTMLVideoElement | null>>({});
+  const [playing, setPlaying] = useState<boolean>(false);
+  const [time, setTime] = useState<number>(0);
+  const [duration, setDuration] = useState<number>(0);
+
+  const compared = takes.filter(take => selected.includes(take.id));
+  const comparedVideos = () => compared.map(take => videos.current[take.id]).filter((v): v is HTMLVideoElement => !!v);
+
+  const toggleSelected = (id: string) => setSelected((prev: string[]) => prev.includes(id)
+    ? prev.filter(s => s !== id)
+    : [...prev, id].slice(-MAX_COMPARED));
+
+  // 所有视频从同一时间点一起播放或暂停，时长不同的视频各自播完即停
+  const togglePlayback = () => {
+    const list = comparedVideos();
+    if (playing) {
+      list.forEach(v => v.pause());
+      setPlaying(false);
+      return;
+    }
+    list.forEach(v => { v.currentTime = Math.min(time, v.duration || time); v.play().catch(() => undefined); });
+    setPlaying(true);
+  };
+
+  const seek = (value: number) => {
+    setTime(value);
+    comparedVideos().forEach(v => { v.currentTime = Math.min(value, v.duration || value); });
+  };
+
+  const restart = () => {
+    seek(0);
+    if (playing) comparedVideos().forEach(v => v.play().catch(() => undefined));
+  };
+
+  const handleTimeUpdate = (video: HTMLVideoElement) => {
+    // 以最长的视频为准更新进度
+    if (video.duration >= duration) setTime(video.currentTime);
+    if (comparedVideos().every(v => v.ended || v.paused)) setPlaying(false);
+  };
+
+  const handleDelete = (take: RenderTake) => {
+    if (!window.confirm(t('takes.confirmDelete'))) return;
+    setSelected((prev: string[]) => prev.filter(id => id !== take.id));
+    onDelete(take.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-7xl max-h-[92vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Columns2 className="w-7 h-7" /> {t(kind === 'grid' ? 'takes.compareGridTitle' : 'takes.compareVideoTitle', { set: setIdx + 1 })}</h3>
+          <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+        </div>
+        <div className="px-8 py-5 border-b flex gap-3 overflow-x-auto items-center">
+          <span className="text-[11px] font-black text-slate-400 shrink-0">{t('takes.pickHint', { max: MAX_COMPARED })}</span>
+          {takes.map((take, i) => (
+            <button key={take.id} onClick={() => toggleSelected(take.id)} className={`shrink-0 px-4 py-2 rounded-xl font-black text-xs border-2 transition-all ${selected.includes(take.id) ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-500 hover:border-slate-300'}`}>
+              #{i + 1}{take.id === activeTakeId ? ` · ${t('takes.active')}` : ''}{take.verdict ? ` · ${t(take.verdict === 'approved' ? 'takes.approved' : 'takes.rejected')}` : ''}
+            </button>
+          ))}
+        </div>
+        {kind === 'video' && compared.length > 0 && (
+          <div className="px-8 py-4 border-b flex items-center gap-4 bg-slate-50">
+            <button onClick={togglePlayback} className="p-3 bg-black text-white rounded-xl">{playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}</button>
+            <button onClick={restart} title={t('takes.restart')} className="p-3 bg-white border border-slate-200 rounded-xl"><RotateCcw className="w-4 h-4" /></button>
+            <input type="range" min={0} max={duration || 0} step={0.05} value={time} onChange={e => seek(Number(e.target.value))} className="flex-1" />
+            <span className="text-xs font-black text-slate-500 w-24 text-right">{time.toFixed(1)}s / {duration.toFixed(1)}s</span>
+          </div>
+        )}
+        <div className="flex-1 overflow-y-auto p-8">
+          {compared.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold py-24">{t('takes.noneSelected')}</p>
+          ) : (
+            <div className={`grid gap-6 ${compared.length === 1 ? 'grid-cols-1' : compared.length === 2 ? 'grid-cols-2' : compared.length === 3 ? 'grid-cols-3' : 'grid-cols-2 xl:grid-cols-4'}`}>
+              {compared.map(take => {
+                const index = takes.indexOf(take);
+                const version = versionLabel(take.provenance?.versionId);
+                return (
+                  <div key={take.id} className={`rounded-[2rem] border-2 overflow-hidden flex flex-col ${take.verdict === 'approved' ? 'border-emerald-400' : take.verdict === 'rejected' ? 'border-red-200 opacity-70' : 'border-slate-100'}`}>
+                    {kind === 'grid' ? (
+                      <img src={take.url} className="w-full bg-slate-100 object-contain" />
+                    ) : (
+                      <video
+                        ref={el => { videos.current[take.id] = el; }}
+                        src={take.url}
+                        preload="auto"
+                        muted
+                        playsInline
+                        onLoadedMetadata={e => { const d = e.currentTarget.duration; setDuration((prev: number) => Math.max(prev, d || 0)); }}
+                        onTimeUpdate={e => handleTimeUpdate(e.currentTarget)}
+                        className="w-full aspect-video bg-black object-contain"
+                      />
+                    )}
+                    <div className="p-5 space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-black text-sm">#{index + 1}{take.id === activeTakeId && <span className="ml-2 px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-lg text-[10px]">{t('takes.active')}</span>}</span>
+                        <TakeRating rating={take.rating} onChange={rating => onRate(take.id, rating)} />
+                      </div>
+                      <p className="text-[11px] font-bold text-slate-400">
+                        {new Date(take.createdAt).toLocaleString(getDateLocale())}
+                        {version && ` · ${t('provenance.version', { version })}`}
+                        {take.provenance && ` · ${take.provenance.settings.model}`}
+                      </p>
+                      <div className="flex gap-2">
+                        <button onClick={() => onVerdict(take.id, take.verdict === 'approved' ? undefined : 'approved')} className={`flex-1 py-3 rounded-xl font-black text-xs flex items-center justify-center gap-2 transition-all ${take.verdict === 'approved' ? 'bg-emerald-600 text-white' : 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'}`}>
+                          <ThumbsUp className="w-4 h-4" /> {t(take.verdict === 'approved' ? 'takes.approved' : 'takes.approve')}
+                        </button>
+                        <button onClick={() => onVerdict(take.id, take.verdict === 'rejected' ? undefined : 'rejected')} className={`flex-1 py-3 rounded-xl font-black text-xs flex items-center justify-center gap-2 transition-all ${take.verdict === 'rejected' ? 'bg-red-500 text-white' : 'bg-red-50 text-red-600 hover:bg-red-100'}`}>
+                          <ThumbsDown className="w-4 h-4" /> {t(take.verdict === 'rejected' ? 'takes.rejected' : 'takes.reject')}
+                        </button>
+                        <button onClick={() => handleDelete(take)} disabled={take.id === activeTakeId} title={t('takes.delete')} className="p-3 rounded-xl bg-slate-50 text-slate-400 hover:text-red-500 disabled:opacity-30 transition-all"><Trash2 className="w-4 h-4" /></button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TakeCompareModal;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { t } from '../services/i18n';
+
+interface TakeRatingProps {
+  rating?: number;
+  onChange?: (rating?: number) => void;
+  size?: 'sm' | 'md';
+}
+
+/**
+ * 1-5 星评分；再次点击当前星级清除评分，只读时不响应点击
+ */
+const TakeRating: React.FC<TakeRatingProps> = ({ rating = 0, onChange, size = 'md' }) => {
+  const iconSize = size === 'sm' ? 'w-3 h-3' : 'w-5 h-5';
+  return (
+    <div className="flex items-center gap-0.5" title={t('takes.rating', { rating })}>
+      {[1, 2, 3, 4, 5].map(value => (
+        <button
+          key={value}
+          type="button"
+          disabled={!onChange}
+          onClick={e => { e.stopPropagation(); onChange?.(value === rating ? undefined : value); }}
+          className={onChange ? 'hover:scale-110 transition-all' : 'cursor-default'}
+        >
+          <Star className={`${iconSize} ${value <= rating ? 'text-amber-400 fill-amber-400' : 'text-slate-300'}`} />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TakeRating;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { CheckCircle2, Columns2, Lock, XCircle } from 'lucide-react';
+import { RenderTake, TakeKind } from '../types';
+import TakeRating from './TakeRating';
+import { t } from '../services/i18n';
+
+interface TakeStripProps {
+  kind: TakeKind;
+  takes: RenderTake[];
+  activeTakeId?: string;
+  locked: boolean;
+  onOpen: (takeId?: string) => void;
+}
+
+/**
+ * 方案卡片内的结果缩略列表：当前展示的结果高亮，点击进入对比视图
+ */
+const TakeStrip: React.FC<TakeStripProps> = ({ kind, takes, activeTakeId, locked, onOpen }) => {
+  if (takes.length === 0) return null;
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[11px] font-black uppercase text-slate-400 flex items-center gap-2">
+          {t(kind === 'grid' ? 'takes.gridTakes' : 'takes.videoTakes', { count: takes.length })}
+          {locked && <span title={t('takes.lockedHint')} className="flex items-center gap-1 text-emerald-600"><Lock className="w-3 h-3" /> {t('takes.locked')}</span>}
+        </span>
+        <button onClick={() => onOpen()} disabled={takes.length < 2} className="px-4 py-2 bg-slate-50 border border-slate-200 rounded-xl font-black text-[11px] text-slate-700 flex items-center gap-2 hover:bg-slate-100 disabled:opacity-50 transition-all">
+          <Columns2 className="w-3 h-3" /> {t('takes.compare')}
+        </button>
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {takes.map((take, i) => (
+          <button key={take.id} onClick={() => onOpen(take.id)} className={`relative shrink-0 w-24 rounded-xl overflow-hidden border-2 transition-all ${take.id === activeTakeId ? 'border-indigo-500' : 'border-transparent hover:border-slate-300'} ${take.verdict === 'rejected' ? 'opacity-40' : ''}`}>
+            {kind === 'grid'
+              ? <img src={take.url} className="w-full h-16 object-cover bg-slate-100" />
+              : <video src={take.url} preload="metadata" muted className="w-full h-16 object-cover bg-black" />}
+            <span className="absolute top-1 left-1 px-1.5 py-0.5 bg-black/70 text-white rounded text-[9px] font-black">#{i + 1}</span>
+            {take.verdict === 'approved' && <CheckCircle2 className="absolute top-1 right-1 w-4 h-4 text-emerald-500 bg-white rounded-full" />}
+            {take.verdict === 'rejected' && <XCircle className="absolute top-1 right-1 w-4 h-4 text-red-500 bg-white rounded-full" />}
+            {take.rating && <div className="absolute bottom-0 inset-x-0 bg-white/90 py-0.5 flex justify-center"><TakeRating rating={take.rating} size="sm" /></div>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TakeStrip;
@@ -0,0 +1,184 @@
+import React, { useEffect, useState, useSyncExternalStore } from 'react';
+import { Coins, Save, Trash, X } from 'lucide-react';
+import { UsageRecord, UsageStep } from '../types';
+import { subscribeUsage, getUsageState, getSessionRecords, getProjectRecords, summarizeUsage, groupUsage, formatCost, saveBudget, clearUsage, BudgetSettings, BudgetMode, UsageSummary } from '../services/usage';
+import { listProjects } from '../services/projectStore';
+import { t, getDateLocale } from '../services/i18n';
+
+type UsageView = 'session' | 'project' | 'all';
+
+const stepLabel = (step: UsageStep) => t(`usage.step.${step}`);
+const viewLabel = (view: UsageView) => t(`usage.view.${view}`);
+
+export const useUsage = () => useSyncExternalStore(subscribeUsage, getUsageState);
+
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 ? null : parsed;
+};
+
+const formatTokens = (n: number) => n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}K` : String(n);
+
+const SummaryTable: React.FC<{ title: string; rows: [string, UsageSummary][] }> = ({ title, rows }) => (
+  <div>
+    <h4 className="text-[11px] font-black uppercase text-slate-400 mb-3">{title}</h4>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-[10px] font-black uppercase text-slate-300">
+          <th className="pb-2"></th>
+          <th className="pb-2">{t('usage.col.calls')}</th>
+          <th className="pb-2">{t('usage.col.tokens')}</th>
+          <th className="pb-2">{t('usage.col.images')}</th>
+          <th className="pb-2">{t('usage.col.videoSeconds')}</th>
+          <th className="pb-2 text-right">{t('usage.col.cost')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(([label, summary]) => (
+          <tr key={label} className="border-t border-slate-100 font-bold text-slate-600">
+            <td className="py-2 pr-3 font-black text-slate-800 truncate max-w-[200px]">{label}</td>
+            <td className="py-2">{summary.calls}</td>
+            <td className="py-2">{formatTokens(summary.inputTokens)} / {formatTokens(summary.outputTokens)}</td>
+            <td className="py-2">{summary.images}</td>
+            <td className="py-2">{summary.videoSeconds}s</td>
+            <td className="py-2 text-right font-black text-slate-800">{formatCost(summary.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+interface UsageDashboardModalProps {
+  currentProjectId: string | null;
+  onError: (err: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * 用量面板：按会话 / 项目 / 全部汇总调用次数、token、图片、视频秒数与估算费用，并设置预算
+ */
+const UsageDashboardModal: React.FC<UsageDashboardModalProps> = ({ currentProjectId, onError, onClose }) => {
+  const { records, budget } = useUsage();
+  const [view, setView] = useState<UsageView>(currentProjectId ? 'project' : 'session');
+  const [projectNames, setProjectNames] = useState<Record<string, string>>({});
+  const [draft, setDraft] = useState({
+    sessionLimit: budget.sessionLimit?.toString() ?? '',
+    projectLimit: budget.projectLimit?.toString() ?? '',
+    confirmAbove: budget.confirmAbove?.toString() ?? '',
+    mode: budget.mode as BudgetMode
+  });
+
+  useEffect(() => {
+    listProjects()
+      .then(projects => setProjectNames(Object.fromEntries(projects.map(p => [p.id, p.name]))))
+      .catch(err => console.error(err));
+  }, []);
+
+  const views: UsageView[] = currentProjectId ? ['session', 'project', 'all'] : ['session', 'all'];
+  const visible: UsageRecord[] = view === 'session' ? getSessionRecords(records)
+    : view === 'project' && currentProjectId ? getProjectRecords(currentProjectId, records)
+    : records;
+  const total = summarizeUsage(visible);
+  const recent = [...visible].reverse().slice(0, 20);
+  const projectLabel = (id: string) => id ? projectNames[id] || t('usage.deletedProject') : t('usage.noProject');
+
+  const handleSaveBudget = () => {
+    const next: BudgetSettings = {
+      sessionLimit: parseLimit(draft.sessionLimit),
+      projectLimit: parseLimit(draft.projectLimit),
+      confirmAbove: parseLimit(draft.confirmAbove),
+      mode: draft.mode
+    };
+    saveBudget(next);
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usage.confirmClear'))) return;
+    try {
+      await clearUsage();
+    } catch (err: any) { onError(err); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-5xl max-h-[88vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl animate-in slide-in-from-bottom-10">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Coins className="w-7 h-7" /> {t('usage.title')}</h3>
+          <div className="flex items-center gap-3">
+            <div className="flex p-1 bg-slate-200 rounded-2xl gap-1">
+              {views.map(v => (
+                <button key={v} onClick={() => setView(v)} className={`px-4 py-2 rounded-xl font-black text-xs transition-all ${view === v ? 'bg-white shadow' : 'text-slate-500'}`}>{viewLabel(v)}</button>
+              ))}
+            </div>
+            <button onClick={handleClear} disabled={records.length === 0} title={t('usage.clear')} className="p-3 rounded-2xl hover:bg-slate-200 disabled:opacity-30 transition-all"><Trash className="w-5 h-5" /></button>
+            <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+        <div className="p-8 overflow-y-auto flex-1 space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              [t('usage.col.cost'), formatCost(total.cost)],
+              [t('usage.col.calls'), String(total.calls)],
+              [t('usage.col.tokens'), `${formatTokens(total.inputTokens)} / ${formatTokens(total.outputTokens)}`],
+              [t('usage.col.images'), String(total.images)],
+              [t('usage.col.videoSeconds'), `${total.videoSeconds}s`]
+            ].map(([label, value]) => (
+              <div key={label} className="p-5 bg-slate-50 rounded-[1.5rem]">
+                <p className="text-[10px] font-black uppercase text-slate-400 mb-2">{label}</p>
+                <p className="text-xl font-black">{value}</p>
+              </div>
+            ))}
+          </div>
+          {visible.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold py-10">{t('usage.empty')}</p>
+          ) : (
+            <>
+              <SummaryTable title={t('usage.byModel')} rows={groupUsage(visible, 'model')} />
+              <SummaryTable title={t('usage.byStep')} rows={groupUsage(visible, 'step').map(([step, summary]) => [stepLabel(step as UsageStep), summary])} />
+              {view !== 'project' && <SummaryTable title={t('usage.byProject')} rows={groupUsage(visible, 'projectId').map(([id, summary]) => [projectLabel(id), summary])} />}
+              <div>
+                <h4 className="text-[11px] font-black uppercase text-slate-400 mb-3">{t('usage.recent')}</h4>
+                <div className="space-y-1">
+                  {recent.map(r => (
+                    <div key={r.id} className="flex items-center gap-4 text-[11px] font-bold text-slate-500 py-1">
+                      <span className="w-36 text-slate-400">{new Date(r.createdAt).toLocaleString(getDateLocale())}</span>
+                      <span className="w-24 font-black text-slate-700">{stepLabel(r.step)}</span>
+                      <span className="flex-1 truncate">{r.model}</span>
+                      <span>{r.videoSeconds > 0 ? `${r.videoSeconds}s` : r.images > 0 ? t('usage.imageCount', { count: r.images }) : `${formatTokens(r.inputTokens)} / ${formatTokens(r.outputTokens)}`}</span>
+                      <span className="w-16 text-right font-black text-slate-700">{formatCost(r.cost)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+          <div className="p-6 bg-slate-50 rounded-[2rem] space-y-4">
+            <h4 className="text-[11px] font-black uppercase text-slate-400">{t('usage.budget')}</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(['sessionLimit', 'projectLimit', 'confirmAbove'] as const).map(field => (
+                <label key={field} className="text-[10px] font-black uppercase text-slate-400 space-y-2 block">
+                  <span>{t(`usage.budget.${field}`)}</span>
+                  <input type="number" min="0" step="0.5" value={draft[field]} placeholder={t('usage.budget.unlimited')} onChange={e => setDraft(prev => ({ ...prev, [field]: e.target.value }))} className="w-full p-3 bg-white rounded-xl font-black text-sm text-slate-800 outline-none border border-slate-200" />
+                </label>
+              ))}
+              <label className="text-[10px] font-black uppercase text-slate-400 space-y-2 block">
+                <span>{t('usage.budget.mode')}</span>
+                <select value={draft.mode} onChange={e => setDraft(prev => ({ ...prev, mode: e.target.value as BudgetMode }))} className="w-full p-3 bg-white rounded-xl font-black text-xs text-slate-800 outline-none border border-slate-200">
+                  <option value="warn">{t('usage.budget.warn')}</option>
+                  <option value="block">{t('usage.budget.block')}</option>
+                </select>
+              </label>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-[11px] font-bold text-slate-400">{t('usage.estimateNote')}</p>
+              <button onClick={handleSaveBudget} className="px-6 py-3 bg-black text-white rounded-2xl font-black text-xs flex items-center gap-2 shrink-0"><Save className="w-4 h-4" /> {t('usage.budget.save')}</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboardModal;
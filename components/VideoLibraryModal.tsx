@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, Download, Film, Loader2, Trash2, X } from 'lucide-react';
+import { VideoRecord } from '../types';
+import { listVideos, deleteVideo, downloadVideo, getPlaybackUrl } from '../services/videoLibrary';
+import { formatBytes } from '../services/projectStore';
+import { t, getDateLocale } from '../services/i18n';
+import ProvenanceDetails from './ProvenanceDetails';
+
+interface VideoLibraryModalProps {
+  currentProjectId: string | null;
+  onDeleted: (record: VideoRecord) => void;
+  onError: (err: any) => void;
+  onClose: () => void;
+}
+
+/**
+ * 本地视频库：浏览、回放、下载与删除所有项目的渲染结果
+ */
+const VideoLibraryModal: React.FC<VideoLibraryModalProps> = ({ currentProjectId, onDeleted, onError, onClose }) => {
+  const [records, setRecords] = useState<VideoRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [projectOnly, setProjectOnly] = useState<boolean>(!!currentProjectId);
+
+  const refresh = async () => {
+    try {
+      setRecords(await listVideos(projectOnly ? currentProjectId : undefined));
+    } catch (err: any) {
+      onError(err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { refresh(); }, [projectOnly]);
+
+  const handleDelete = async (record: VideoRecord) => {
+    if (!window.confirm(t('videos.confirmDelete'))) return;
+    try {
+      await deleteVideo(record.id);
+      onDeleted(record);
+      await refresh();
+    } catch (err: any) { onError(err); }
+  };
+
+  const totalBytes = records.reduce((sum, r) => sum + r.size, 0);
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-center justify-center p-6 bg-black/70 backdrop-blur-md">
+      <div className="bg-white w-full max-w-5xl max-h-[88vh] rounded-[3rem] overflow-hidden flex flex-col shadow-2xl animate-in slide-in-from-bottom-10">
+        <div className="p-8 border-b flex justify-between items-center bg-slate-50">
+          <h3 className="text-2xl font-black flex items-center gap-4"><Film className="w-7 h-7" /> {t('videos.title')}</h3>
+          <div className="flex items-center gap-3">
+            {currentProjectId && (
+              <div className="flex p-1 bg-slate-200 rounded-2xl gap-1">
+                <button onClick={() => setProjectOnly(true)} className={`px-4 py-2 rounded-xl font-black text-xs transition-all ${projectOnly ? 'bg-white shadow' : 'text-slate-500'}`}>{t('videos.filterProject')}</button>
+                <button onClick={() => setProjectOnly(false)} className={`px-4 py-2 rounded-xl font-black text-xs transition-all ${!projectOnly ? 'bg-white shadow' : 'text-slate-500'}`}>{t('videos.filterAll')}</button>
+              </div>
+            )}
+            <button onClick={onClose} className="p-3 rounded-2xl hover:bg-slate-200 transition-all"><X className="w-6 h-6" /></button>
+          </div>
+        </div>
+        <div className="p-8 overflow-y-auto flex-1">
+          {loading ? (
+            <div className="flex justify-center py-16"><Loader2 className="w-8 h-8 animate-spin text-slate-300" /></div>
+          ) : records.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold py-16">{t('videos.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {records.map(record => (
+                <div key={record.id} className="bg-slate-50 rounded-[2rem] border border-slate-100 overflow-hidden flex flex-col">
+                  <video src={getPlaybackUrl(record)} controls preload="metadata" className="w-full aspect-video bg-black object-contain" />
+                  <div className="p-5 space-y-3 flex-1 flex flex-col">
+                    <p className="font-black text-sm truncate">
+                      {record.productName || record.projectName} · {t('videos.setLabel', { set: record.setIdx + 1 })}{record.shotIdx !== undefined && ` · ${t('videos.shotLabel', { shot: record.shotIdx + 1 })}`}
+                    </p>
+                    <p className="text-[11px] font-bold text-slate-400">
+                      {t('videos.meta', { engine: record.engine.includes('fast') ? 'Veo Fast' : 'Veo Standard', resolution: record.resolution, aspect: record.aspectRatio, duration: Math.round(record.duration), size: formatBytes(record.size) })}
+                    </p>
+                    <p className="text-[11px] font-bold text-slate-400 flex items-center gap-2"><Clock className="w-3 h-3" /> {new Date(record.createdAt).toLocaleString(getDateLocale())}</p>
+                    <details className="text-xs text-slate-500">
+                      <summary className="font-black cursor-pointer">{t('videos.prompt')}</summary>
+                      <p className="mt-2 whitespace-pre-line leading-relaxed max-h-40 overflow-y-auto">{record.prompt}</p>
+                    </details>
+                    {record.provenance && <ProvenanceDetails provenance={record.provenance} />}
+                    <div className="flex gap-2 mt-auto pt-2">
+                      <button onClick={() => downloadVideo(record)} className="flex-1 py-3 bg-black text-white rounded-xl font-black text-xs flex items-center justify-center gap-2"><Download className="w-4 h-4" /> {t('videos.download')}</button>
+                      <button onClick={() => handleDelete(record)} title={t('videos.delete')} className="p-3 rounded-xl bg-white text-red-400 hover:text-red-600 transition-all"><Trash2 className="w-4 h-4" /></button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        {records.length > 0 && (
+          <div className="px-8 py-5 border-t bg-slate-50 text-[11px] font-black uppercase text-slate-400">
+            {t('videos.usage', { count: records.length, size: formatBytes(totalBytes) })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoLibraryModal;
@@ -0,0 +1,174 @@
+/**
+ * Gemini API 本地代理：API Key 只保存在服务端，浏览器请求同源的 PROXY_PATH，
+ * 由这里附加 Key 后转发到 Google，响应（含 Veo 视频下载）以流的方式原样返回。
+ * 既可作为 Vite 中间件（开发 / 预览），也可由 server/index.mjs 独立运行。
+ */
+import { Readable } from 'node:stream';
+
+export const PROXY_PATH = '/api/gemini';
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const UPSTREAM_ORIGIN = new URL(UPSTREAM).origin;
+
+// 只转发客户端实际用到的接口：模型调用、Veo 操作轮询与生成文件下载
+const ALLOWED_PATHS = [
+  /^\/v1beta\/models\/[\w.-]+:\w+$/,
+  /^\/v1beta\/models\/[\w.-]+\/operations\/[\w.-]+$/,
+  /^\/v1beta\/operations\/[\w.-]+$/,
+  /^\/v1beta\/files\/[\w.-]+:download$/
+];
+
+// 不转发给上游的请求头：逐跳头、浏览器凭据，以及客户端占位的 Key
+const DROPPED_REQUEST_HEADERS = new Set(['host', 'connection', 'keep-alive', 'transfer-encoding', 'upgrade', 'origin', 'referer', 'cookie', 'x-goog-api-key', 'content-length']);
+// fetch 已解压响应体，长度与编码头不再成立
+const DROPPED_RESPONSE_HEADERS = new Set(['connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length', 'set-cookie']);
+
+// 内联媒体的请求体上限：Gemini 单次请求 20MB，留出余量
+const MAX_BODY_BYTES = 24 * 1024 * 1024;
+
+// 始终允许的本机地址；其他主机名需通过 allowedHosts 显式配置
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+class BodyTooLargeError extends Error {}
+
+const readBody = (req, limit = MAX_BODY_BYTES) => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > limit) return reject(new BodyTooLargeError());
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size <= limit) return chunks.push(chunk);
+    // 超限后丢弃剩余数据，只回复 413
+    chunks.length = 0;
+    reject(new BodyTooLargeError());
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const sendError = (res, status, message) => {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const hostnameOf = host => {
+  try {
+    return new URL(`http://${host}`).hostname;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * 逗号分隔的主机名列表（如 PROXY_ALLOWED_HOSTS），忽略空项与端口
+ */
+export const parseAllowedHosts = value => (value || '').split(',').map(host => hostnameOf(host.trim())).filter(Boolean);
+
+// Host 必须在白名单内，防止 DNS 重绑定的页面冒充同源
+const isAllowedHost = (req, allowedHosts) => {
+  const hostname = hostnameOf(req.headers.host || '');
+  return !!hostname && allowedHosts.includes(hostname);
+};
+
+// 只接受同源页面发来的请求，避免其他网站借用服务端的 Key。
+// 带 Origin 时必须与 Host 一致；不带 Origin 的请求（如 <video> 的 GET）须由浏览器标明 same-origin，两者都没有则拒绝
+const isSameOrigin = req => {
+  const origin = req.headers.origin;
+  if (!origin) return req.headers['sec-fetch-site'] === 'same-origin';
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * 把代理路径映射到固定的上游地址；路径不在白名单内或解析后不在上游源上时返回 null
+ */
+const resolveTarget = url => {
+  const { pathname, search } = new URL(url, 'http://proxy.invalid');
+  if (!pathname.startsWith(`${PROXY_PATH}/`)) return null;
+  const path = pathname.slice(PROXY_PATH.length);
+  if (!ALLOWED_PATHS.some(pattern => pattern.test(path))) return null;
+  const target = new URL(`${UPSTREAM_ORIGIN}${path}${search}`);
+  return target.origin === UPSTREAM_ORIGIN ? target : null;
+};
+
+/**
+ * 创建 connect 风格的中间件；路径不在 PROXY_PATH 下时交给 next。
+ * allowedHosts 为本机以外允许访问代理的主机名
+ */
+export const createGeminiProxy = (apiKey, { allowedHosts = [] } = {}) => {
+  const hosts = [...LOCAL_HOSTS, ...allowedHosts];
+  return async (req, res, next) => {
+    if (!req.url || !req.url.startsWith(`${PROXY_PATH}/`)) {
+      if (next) next();
+      else sendError(res, 404, 'Not found');
+      return;
+    }
+    if (!apiKey) return sendError(res, 500, 'GEMINI_API_KEY is not configured on the proxy server');
+    if (!isAllowedHost(req, hosts)) return sendError(res, 403, 'Host is not allowed by the proxy');
+    if (!isSameOrigin(req)) return sendError(res, 403, 'Cross-origin requests are not allowed');
+
+    const target = resolveTarget(req.url);
+    if (!target) return sendError(res, 403, 'Path is not allowed by the proxy');
+    // 旧版客户端可能把 Key 拼在查询参数里，统一以服务端的为准
+    target.searchParams.delete('key');
+
+    const headers = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined && !DROPPED_REQUEST_HEADERS.has(name)) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+    }
+    headers['x-goog-api-key'] = apiKey;
+
+    let body;
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      try {
+        body = await readBody(req);
+      } catch (err) {
+        if (!(err instanceof BodyTooLargeError)) return res.destroy();
+        res.setHeader('connection', 'close');
+        return sendError(res, 413, `Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024}MB`);
+      }
+    }
+
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+
+    try {
+      const upstream = await fetch(target, {
+        method: req.method,
+        headers,
+        body,
+        signal: controller.signal
+      });
+      res.statusCode = upstream.status;
+      upstream.headers.forEach((value, name) => {
+        if (!DROPPED_RESPONSE_HEADERS.has(name)) res.setHeader(name, value);
+      });
+      if (!upstream.body) return res.end();
+      Readable.fromWeb(upstream.body).on('error', () => res.destroy()).pipe(res);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('[gemini-proxy]', err);
+      if (!res.headersSent) sendError(res, 502, `Upstream request failed: ${err.message}`);
+      else res.destroy();
+    }
+  };
+};
+
+/**
+ * Vite 插件：在 dev 与 preview 服务器上挂载代理
+ */
+export const geminiProxyPlugin = (apiKey, options) => {
+  const middleware = createGeminiProxy(apiKey, options);
+  return {
+    name: 'gemini-api-proxy',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    }
+  };
+};
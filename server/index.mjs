@@ -0,0 +1,74 @@
+/**
+ * 生产环境独立服务：托管 vite build 产出的 dist/，并挂载 Gemini 代理。
+ * 用法：API_PROXY=true npm run build && npm start
+ */
+import { createServer } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { extname, join, normalize, resolve } from 'node:path';
+import { createGeminiProxy, parseAllowedHosts } from './geminiProxy.mjs';
+
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch (e) {
+    // 文件不存在时直接使用进程环境变量
+  }
+}
+
+const ROOT = resolve(process.env.STATIC_DIR || 'dist');
+const PORT = Number(process.env.PORT) || 3000;
+// 默认只监听本机；需要对外提供服务时显式设置 HOST，并自行加上访问控制
+const HOST = process.env.HOST || '127.0.0.1';
+
+const MIME_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const resolveFile = async pathname => {
+  const relative = normalize(decodeURIComponent(pathname)).replace(/^([/\\]|\.\.[/\\])+/, '');
+  const file = join(ROOT, relative);
+  if (!file.startsWith(ROOT)) return null;
+  const info = await stat(file).catch(() => null);
+  if (info?.isFile()) return file;
+  // 单页应用：未知路径一律回退到 index.html
+  return join(ROOT, 'index.html');
+};
+
+const serveStatic = async (req, res) => {
+  const file = await resolveFile(new URL(req.url, 'http://localhost').pathname);
+  const info = file && await stat(file).catch(() => null);
+  if (!file || !info) {
+    res.statusCode = 404;
+    return res.end('Not found');
+  }
+  res.setHeader('content-type', MIME_TYPES[extname(file)] || 'application/octet-stream');
+  res.setHeader('content-length', info.size);
+  if (req.method === 'HEAD') return res.end();
+  createReadStream(file).pipe(res);
+};
+
+const proxy = createGeminiProxy(process.env.GEMINI_API_KEY, { allowedHosts: parseAllowedHosts(process.env.PROXY_ALLOWED_HOSTS) });
+
+createServer((req, res) => {
+  proxy(req, res, () => {
+    serveStatic(req, res).catch(err => {
+      console.error(err);
+      res.statusCode = 500;
+      res.end('Internal error');
+    });
+  });
+}).listen(PORT, HOST, () => {
+  if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; proxied requests will fail');
+  console.log(`Storyboard Pro listening on http://${HOST}:${PORT} (static: ${ROOT})`);
+});
@@ -0,0 +1,53 @@
+/**
+ * Gemini 的鉴权方式：本地代理（Key 只在服务端）、AI Studio 注入的 Key，或构建期写入的 Key
+ */
+const GEMINI_ORIGIN = 'https://generativelanguage.googleapis.com';
+// 走代理时 SDK 仍要求非空 Key，真实 Key 由代理替换
+const PROXY_KEY_PLACEHOLDER = 'proxy';
+
+interface AiStudioHost {
+  hasSelectedApiKey?: () => Promise<boolean>;
+  openSelectKey?: () => Promise<void>;
+}
+
+const getProxyBase = () => process.env.API_PROXY_BASE || '';
+
+export const isProxyEnabled = () => !!getProxyBase();
+
+/**
+ * 创建 GoogleGenAI 所需的参数；代理模式下请求发往同源的代理路径
+ */
+export const getClientOptions = () => isProxyEnabled()
+  ? { apiKey: PROXY_KEY_PLACEHOLDER, httpOptions: { baseUrl: `${window.location.origin}${getProxyBase()}` } }
+  : { apiKey: process.env.API_KEY };
+
+/**
+ * Veo 返回的文件地址需要鉴权才能下载：代理模式下改写为代理地址，否则附加 Key
+ */
+export const toPlayableVideoUrl = (uri: string) => {
+  if (!isProxyEnabled()) return `${uri}&key=${process.env.API_KEY}`;
+  return uri.startsWith(GEMINI_ORIGIN) ? `${getProxyBase()}${uri.slice(GEMINI_ORIGIN.length)}` : uri;
+};
+
+/**
+ * 去掉地址中附加的 Key，用于写入 localStorage 等持久化位置
+ */
+export const stripApiKey = (url: string) => url.replace(/([?&])key=[^&]*(&|$)/, (_, separator: string, tail: string) => tail ? separator : '');
+
+const getAiStudio = (): AiStudioHost | undefined => (window as any).aistudio;
+
+/** 仅在 AI Studio 中运行时才有 Key 选择器 */
+export const hasKeySelector = () => !isProxyEnabled() && !!getAiStudio()?.openSelectKey;
+
+export const openKeySelector = async () => {
+  if (hasKeySelector()) await getAiStudio()!.openSelectKey!();
+};
+
+/**
+ * AI Studio 中渲染视频前确认已选择付费 Key；独立部署或代理模式下无需操作
+ */
+export const ensureSelectedKey = async () => {
+  const aistudio = getAiStudio();
+  if (!hasKeySelector() || !aistudio?.hasSelectedApiKey) return;
+  if (!(await aistudio.hasSelectedApiKey())) await openKeySelector();
+};
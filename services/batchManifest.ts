@@ -0,0 +1,203 @@
+import { BatchProductSpec, GridAspectRatio, StylePreset, VideoAspectRatio, VideoEngine, VideoResolution } from "../types";
+import { SCENE_OPTIONS, resolvePreset } from "./stylePresets";
+import { SHOT_COUNT_OPTIONS, GRID_ASPECT_RATIOS } from "./gridImage";
+import { t } from "./i18n";
+
+export type BatchDefaults = Omit<BatchProductSpec, 'productName' | 'brief' | 'assetNames'>;
+
+export class ManifestValidationError extends Error {
+  issues: string[];
+  constructor(issues: string[]) {
+    super(t('batch.invalidManifest', { issues: issues.join('\n') }));
+    this.name = 'ManifestValidationError';
+    this.issues = issues;
+  }
+}
+
+const MAX_PROMPT_COUNT = 10;
+const DURATION_OPTIONS = [5, 12, 19];
+const ENGINE_ALIASES: Record<string, VideoEngine> = {
+  fast: 'veo-3.1-fast-generate-preview',
+  standard: 'veo-3.1-generate-preview',
+  'veo-3.1-fast-generate-preview': 'veo-3.1-fast-generate-preview',
+  'veo-3.1-generate-preview': 'veo-3.1-generate-preview'
+};
+
+// 表头与 JSON 字段的别名，比较时忽略大小写、空格与下划线
+const FIELD_ALIASES: Record<string, keyof BatchProductSpec> = {
+  productname: 'productName', product: 'productName', name: 'productName',
+  brief: 'brief', description: 'brief',
+  assets: 'assetNames', assetnames: 'assetNames', files: 'assetNames', images: 'assetNames',
+  style: 'style', scene: 'style', scenetype: 'style', preset: 'style', stylepreset: 'style',
+  promptcount: 'promptCount', count: 'promptCount', sets: 'promptCount',
+  shotcount: 'shotCount', shots: 'shotCount',
+  gridaspectratio: 'gridAspectRatio', grid: 'gridAspectRatio',
+  rendervideos: 'renderVideos', videos: 'renderVideos', video: 'renderVideos',
+  videoresolution: 'videoResolution', resolution: 'videoResolution',
+  videoaspectratio: 'videoAspectRatio', aspectratio: 'videoAspectRatio', aspect: 'videoAspectRatio',
+  videoengine: 'videoEngine', engine: 'videoEngine',
+  targetduration: 'targetDuration', duration: 'targetDuration'
+};
+
+const normalizeField = (name: string) => FIELD_ALIASES[name.toLowerCase().replace(/[\s_\-]/g, '')];
+
+/**
+ * RFC 4180 风格的 CSV：支持引号包裹、引号内逗号与换行、"" 转义
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const splitList = (value: unknown): string[] => Array.isArray(value)
+  ? value.map(String).map(s => s.trim()).filter(Boolean)
+  : String(value ?? '').split(/[;|\n]/).map(s => s.trim()).filter(Boolean);
+
+const parseBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return undefined;
+  if (['1', 'true', 'yes', 'y', '是'].includes(text)) return true;
+  if (['0', 'false', 'no', 'n', '否'].includes(text)) return false;
+  return undefined;
+};
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * 把一条原始记录（CSV 行或 JSON 对象）转成产品规格，问题记录到 issues
+ */
+const toSpec = (raw: Record<string, unknown>, path: string, defaults: BatchDefaults, issues: string[]): BatchProductSpec => {
+  const fields: Partial<Record<keyof BatchProductSpec, unknown>> = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    const field = normalizeField(key);
+    if (field) fields[field] = value;
+  });
+
+  const spec: BatchProductSpec = {
+    ...defaults,
+    productName: String(fields.productName ?? '').trim(),
+    brief: String(fields.brief ?? '').trim(),
+    assetNames: splitList(fields.assetNames)
+  };
+  const invalid = (field: string, value: unknown) => issues.push(t('batch.issue.invalid', { path, field, value: String(value) }));
+  if (!spec.productName) issues.push(t('batch.issue.missing', { path, field: 'productName' }));
+  if (!isBlank(fields.style)) spec.style = String(fields.style).trim();
+
+  const number = (key: 'promptCount' | 'shotCount' | 'targetDuration', valid: (n: number) => boolean) => {
+    if (isBlank(fields[key])) return;
+    const value = Number(fields[key]);
+    if (Number.isInteger(value) && valid(value)) spec[key] = value;
+    else invalid(key, fields[key]);
+  };
+  number('promptCount', n => n >= 1 && n <= MAX_PROMPT_COUNT);
+  number('shotCount', n => SHOT_COUNT_OPTIONS.includes(n));
+  number('targetDuration', n => DURATION_OPTIONS.includes(n));
+
+  const option = <K extends 'gridAspectRatio' | 'videoAspectRatio' | 'videoResolution'>(key: K, options: BatchProductSpec[K][]) => {
+    if (isBlank(fields[key])) return;
+    const value = String(fields[key]).trim() as BatchProductSpec[K];
+    if (options.includes(value)) spec[key] = value;
+    else invalid(key, fields[key]);
+  };
+  option('gridAspectRatio', GRID_ASPECT_RATIOS as GridAspectRatio[]);
+  option('videoAspectRatio', ['9:16', '16:9'] as VideoAspectRatio[]);
+  option('videoResolution', ['720p', '1080p'] as VideoResolution[]);
+
+  if (!isBlank(fields.videoEngine)) {
+    const engine = ENGINE_ALIASES[String(fields.videoEngine).trim().toLowerCase()];
+    if (engine) spec.videoEngine = engine;
+    else invalid('videoEngine', fields.videoEngine);
+  }
+  if (!isBlank(fields.renderVideos)) {
+    const flag = parseBoolean(fields.renderVideos);
+    if (flag === undefined) invalid('renderVideos', fields.renderVideos);
+    else spec.renderVideos = flag;
+  }
+  return spec;
+};
+
+/**
+ * 解析批量清单：.csv 首行为表头；JSON 为产品数组或 { products: [...] }。
+ * 任一条目有问题时整体拒绝，避免跑到一半才发现清单写错
+ */
+export const parseManifest = (text: string, filename: string, defaults: BatchDefaults): BatchProductSpec[] => {
+  const issues: string[] = [];
+  let specs: BatchProductSpec[];
+  if (filename.toLowerCase().endsWith('.csv')) {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new ManifestValidationError([t('batch.emptyManifest')]);
+    if (!header.some(cell => normalizeField(cell) === 'productName')) issues.push(t('batch.issue.noProductNameColumn'));
+    specs = rows.map((row, i) => toSpec(Object.fromEntries(header.map((key, j) => [key, row[j] ?? ''])), t('batch.issue.row', { row: i + 2 }), defaults, issues));
+  } else {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch (e) {
+      throw new ManifestValidationError([t('batch.invalidJson')]);
+    }
+    const products = Array.isArray(raw) ? raw : raw?.products;
+    if (!Array.isArray(products)) throw new ManifestValidationError([t('batch.unknownManifest')]);
+    specs = products.map((item, i) => toSpec(item && typeof item === 'object' ? item : {}, `products[${i}]`, defaults, issues));
+  }
+  if (specs.length === 0) issues.push(t('batch.emptyManifest'));
+  if (issues.length > 0) throw new ManifestValidationError(issues);
+  return specs;
+};
+
+/**
+ * 按文件名（不区分大小写、忽略路径）为每个产品匹配素材，返回缺失的文件名
+ */
+export const matchAssetFiles = (spec: BatchProductSpec, files: File[]): { files: File[], missing: string[] } => {
+  const byName = new Map(files.map(file => [file.name.toLowerCase(), file] as const));
+  const matched: File[] = [];
+  const missing: string[] = [];
+  spec.assetNames.forEach(name => {
+    const file = byName.get(name.split(/[\\/]/).pop()!.toLowerCase());
+    if (file) matched.push(file);
+    else missing.push(name);
+  });
+  return { files: matched, missing };
+};
+
+/**
+ * style 列可以是预设 ID、预设名称或场景类型；都不匹配时使用全局预设
+ */
+export const resolveBatchStyle = (presets: StylePreset[], style: string, fallbackId: string): StylePreset => {
+  const key = style.trim().toLowerCase();
+  const preset = key
+    ? presets.find(p => p.id.toLowerCase() === key) || presets.find(p => p.name.toLowerCase() === key)
+    : undefined;
+  if (preset) return preset;
+  const scene = SCENE_OPTIONS.find(s => s.toLowerCase() === key);
+  return scene ? resolvePreset(presets, undefined, scene) : resolvePreset(presets, fallbackId, 'Studio');
+};
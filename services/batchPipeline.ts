@@ -0,0 +1,314 @@
+import { BatchItemResult, BatchProductSpec, IndividualAnalysis, OutputLanguages, ProjectSession, RenderProvenance, StylePreset, VideoRenderConfig } from "../types";
+import { analyzeIndividualImages, getUsableAnalyses, synthesizeProductProfile, generateProductProfileFromText, generateStoryboards, generateGridImage, generateVideoWithExtension } from "./geminiService";
+import { matchAssetFiles, resolveBatchStyle } from "./batchManifest";
+import { ingestFiles, getReferenceImage } from "./mediaIngest";
+import { createProjectId, saveProject } from "./projectStore";
+import { enqueueRenderJob, isJobCancelled, JobCancelledError } from "./renderJobs";
+import { createRateLimiter } from "./rateLimiter";
+import { formatPromptForEditing } from "./scriptFormat";
+import { getGridLayout, formatGridLayout } from "./gridImage";
+import { styleDirectives } from "./stylePresets";
+import { createPromptVersion } from "./promptHistory";
+import { createTake, addTake } from "./takes";
+import { archiveVideo, getPlaybackUrl } from "./videoLibrary";
+import { getModelConfig } from "./modelConfig";
+import { downloadBlob } from "./download";
+import { toServiceError } from "./errors";
+import { getProjectRecords, sumCost, estimateCost, estimateStoryboardCost, estimateImageCost, estimateVideoCost, IMAGE_INPUT_TOKENS } from "./usage";
+import { t } from "./i18n";
+
+export interface BatchRunOptions {
+  presets: StylePreset[];
+  fallbackStyleId: string;
+  languages: OutputLanguages;
+  /** 相邻两个产品开始处理的最小间隔（秒） */
+  productInterval: number;
+  signal: AbortSignal;
+  onUpdate: (results: BatchItemResult[]) => void;
+}
+
+export const createBatchResults = (specs: BatchProductSpec[]): BatchItemResult[] =>
+  specs.map(spec => ({ spec, status: 'pending', warnings: [], sets: 0, grids: 0, videos: 0 }));
+
+const errorMessage = (err: unknown) => {
+  const typed = toServiceError(err);
+  return typed instanceof Error ? typed.message : String(typed);
+};
+
+const throwIfCancelled = (signal: AbortSignal) => {
+  if (signal.aborted) throw new JobCancelledError();
+};
+
+/**
+ * 单个产品的完整流水线：素材 → 分析 → 基因 → 分镜 → 宫格图（→ 视频）。
+ * 每个阶段结束都写回项目库，中途失败时已完成的部分仍可在项目库中打开
+ */
+const runProduct = async (spec: BatchProductSpec, files: File[], options: BatchRunOptions, report: (patch: Partial<BatchItemResult>) => void) => {
+  const { signal, languages } = options;
+  const warnings: string[] = [];
+  const warn = (message: string) => {
+    warnings.push(message);
+    report({ warnings: [...warnings] });
+  };
+  const style = resolveBatchStyle(options.presets, spec.style, options.fallbackStyleId);
+  const projectId = createProjectId();
+  const createdAt = Date.now();
+  report({ stage: 'ingest', projectId });
+  const { files: matched, missing } = matchAssetFiles(spec, files);
+  if (missing.length > 0) warn(t('batch.missingAssets', { files: missing.join(', ') }));
+  const { assets, rejected } = await ingestFiles(matched);
+  rejected.forEach(r => warn(`${r.name}：${r.reason}`));
+
+  const session: ProjectSession = {
+    productName: spec.productName,
+    productBrief: spec.brief,
+    assets,
+    analysis: null,
+    prompts: [],
+    refinedPrompts: {},
+    gridImages: {},
+    videoUrls: {},
+    videoIds: {},
+    promptHistory: {},
+    gridProvenance: {},
+    videoProvenance: {},
+    takes: {},
+    setStyles: {},
+    stylePresets: style.builtIn ? [] : [style],
+    settings: {
+      promptCount: spec.promptCount,
+      language: languages.storyboard,
+      outputLanguages: languages,
+      sceneType: style.sceneType,
+      stylePresetId: style.id,
+      shotCount: spec.shotCount,
+      gridAspectRatio: spec.gridAspectRatio,
+      videoResolution: spec.videoResolution,
+      videoAspectRatio: spec.videoAspectRatio,
+      videoEngine: spec.videoEngine,
+      targetDuration: spec.targetDuration
+    }
+  };
+  const save = () => saveProject({
+    id: projectId,
+    name: spec.productName,
+    createdAt,
+    updatedAt: Date.now(),
+    thumbnail: getReferenceImage(assets) || '',
+    session
+  });
+  await save();
+
+  // 素材全部分析失败时退回纯文字建档，不让整个产品中断
+  throwIfCancelled(signal);
+  let analyses: IndividualAnalysis[] = [];
+  if (assets.length > 0) {
+    report({ stage: 'analysis' });
+    analyses = await analyzeIndividualImages(assets, spec.productName, { language: languages.analysis, signal, projectId });
+    throwIfCancelled(signal);
+    const failed = analyses.filter(a => a.status === 'failed').length;
+    if (failed > 0) warn(t('batch.analysisFailed', { failed, total: analyses.length }));
+  }
+  throwIfCancelled(signal);
+  report({ stage: 'profile' });
+  const fromImages = getUsableAnalyses(analyses).length > 0;
+  const profile = fromImages
+    ? await synthesizeProductProfile(analyses, spec.productName, spec.brief, languages.profile, { signal, projectId })
+    : await generateProductProfileFromText(spec.productName, spec.brief, languages.profile, { signal, projectId });
+  session.analysis = {
+    individualAnalyses: analyses,
+    globalProfile: profile,
+    lockedFields: [],
+    profileSource: !fromImages ? 'text' : spec.brief ? 'hybrid' : 'images',
+    brief: spec.brief
+  };
+  await save();
+
+  throwIfCancelled(signal);
+  report({ stage: 'storyboards' });
+  const prompts = await generateStoryboards(profile, spec.productName, spec.promptCount, languages.storyboard, style, spec.shotCount, { signal, projectId });
+  session.prompts = prompts;
+  session.promptHistory = Object.fromEntries(prompts.map((p, i) => [i, [createPromptVersion('generated', p)]]));
+  report({ sets: prompts.length });
+  await save();
+
+  // 各套宫格图一起入队，由渲染任务队列控制并发
+  throwIfCancelled(signal);
+  report({ stage: 'grids' });
+  const reference = getReferenceImage(assets);
+  let grids = 0;
+  const gridResults = await Promise.allSettled(prompts.map(async (prompt, setIdx) => {
+    throwIfCancelled(signal);
+    const script = formatPromptForEditing(prompt);
+    const layout = getGridLayout(prompt.shots.length, spec.gridAspectRatio);
+    const image = await enqueueRenderJob({
+      kind: 'image',
+      label: t('batch.job.grid', { product: spec.productName, set: setIdx + 1 }),
+      target: { type: 'grid', projectId, setIdx },
+      run: ctx => generateGridImage(script, reference, { signal: ctx.signal, style, layout, projectId })
+    });
+    const provenance: RenderProvenance = {
+      versionId: session.promptHistory?.[setIdx]?.[0]?.id,
+      prompt: script,
+      reference: { kind: reference ? 'asset' : 'none' },
+      settings: { model: getModelConfig().imageModel, stylePresetName: style.name, layout: formatGridLayout(layout), aspectRatio: layout.aspectRatio },
+      createdAt: Date.now()
+    };
+    session.gridImages = { ...session.gridImages, [setIdx]: image };
+    session.gridProvenance = { ...session.gridProvenance, [setIdx]: provenance };
+    session.takes = { ...session.takes, [setIdx]: addTake(session.takes?.[setIdx], createTake('grid', image, { provenance })) };
+    report({ grids: ++grids });
+  }));
+  gridResults.forEach((result, setIdx) => {
+    if (result.status === 'rejected' && !isJobCancelled(result.reason)) warn(t('batch.gridFailed', { set: setIdx + 1, error: errorMessage(result.reason) }));
+  });
+  await save();
+  throwIfCancelled(signal);
+  if (grids === 0) throw new Error(t('batch.noGrids'));
+
+  let videos = 0;
+  let videoFailures = 0;
+  if (spec.renderVideos) {
+    report({ stage: 'videos' });
+    const config: VideoRenderConfig = { resolution: spec.videoResolution, aspectRatio: spec.videoAspectRatio, targetDuration: spec.targetDuration, engine: spec.videoEngine, negativePrompt: style.negativePrompt.trim() || undefined };
+    const videoResults = await Promise.allSettled(prompts.map(async (prompt, setIdx) => {
+      const grid = session.gridImages[setIdx];
+      if (!grid) return;
+      throwIfCancelled(signal);
+      const videoPrompt = `${formatPromptForEditing(prompt)}\nStyle: ${styleDirectives(style)}`;
+      const provenance: RenderProvenance = {
+        versionId: session.promptHistory?.[setIdx]?.[0]?.id,
+        prompt: videoPrompt,
+        reference: { kind: 'grid' },
+        settings: { model: config.engine, stylePresetName: style.name, aspectRatio: config.aspectRatio, resolution: config.resolution, targetDuration: config.targetDuration },
+        createdAt: Date.now()
+      };
+      // 与手动渲染一样记录 operation，页面刷新后可续跑并写回该项目
+      const url = await enqueueRenderJob({
+        kind: 'video',
+        label: t('batch.job.video', { product: spec.productName, set: setIdx + 1 }),
+        target: { type: 'set-video', projectId, setIdx },
+        run: ctx => generateVideoWithExtension(videoPrompt, grid, config, ctx.setMessage, {
+          signal: ctx.signal,
+          projectId,
+          onOperation: operation => ctx.setResume({ prompt: videoPrompt, config, operation, provenance })
+        })
+      });
+      const archived = await archiveVideo(url, { projectId, projectName: spec.productName, productName: spec.productName, setIdx, prompt: videoPrompt, config, provenance }).catch(err => {
+        console.warn("视频未能存入本地视频库", err);
+        return null;
+      });
+      const playable = archived ? getPlaybackUrl(archived) : url;
+      session.videoUrls = { ...session.videoUrls, [setIdx]: playable };
+      if (archived) session.videoIds = { ...session.videoIds, [setIdx]: archived.id };
+      session.videoProvenance = { ...session.videoProvenance, [setIdx]: provenance };
+      session.takes = { ...session.takes, [setIdx]: addTake(session.takes?.[setIdx], createTake('video', playable, { videoId: archived?.id, provenance })) };
+      report({ videos: ++videos });
+    }));
+    videoResults.forEach((result, setIdx) => {
+      if (result.status === 'rejected' && !isJobCancelled(result.reason)) {
+        videoFailures++;
+        warn(t('batch.videoFailed', { set: setIdx + 1, error: errorMessage(result.reason) }));
+      }
+    });
+    await save();
+    throwIfCancelled(signal);
+  }
+
+  const complete = grids === prompts.length && (!spec.renderVideos || (videoFailures === 0 && videos === grids));
+  return complete ? 'done' : 'partial';
+};
+
+/**
+ * 运行前的费用估算：逐项素材分析、建档、分镜、每套宫格图与视频，不含校验失败时的修复调用
+ */
+export const estimateBatchCost = (specs: BatchProductSpec[]): number => {
+  const config = getModelConfig();
+  return specs.reduce((sum, spec) => {
+    const analysis = spec.assetNames.length * estimateCost(config.analysisModel, { inputTokens: IMAGE_INPUT_TOKENS + 200, outputTokens: 300 });
+    const profile = estimateCost(config.profileModel, { inputTokens: 1000, outputTokens: 800 });
+    const video: VideoRenderConfig = { resolution: spec.videoResolution, aspectRatio: spec.videoAspectRatio, targetDuration: spec.targetDuration, engine: spec.videoEngine };
+    const perSet = estimateImageCost(1, config.imageModel) + (spec.renderVideos ? estimateVideoCost(video, config.videoExtensionModel) : 0);
+    return sum + analysis + profile + estimateStoryboardCost(spec.promptCount, spec.shotCount, config.storyboardModel) + spec.promptCount * perSet;
+  }, 0);
+};
+
+/**
+ * 按清单顺序逐个产品运行；单个产品失败只记录在报告中，继续处理下一个
+ */
+export const runBatch = async (specs: BatchProductSpec[], files: File[], options: BatchRunOptions): Promise<BatchItemResult[]> => {
+  const results = createBatchResults(specs);
+  const update = (index: number, patch: Partial<BatchItemResult>) => {
+    results[index] = { ...results[index], ...patch };
+    options.onUpdate([...results]);
+  };
+  const pacing = createRateLimiter({ capacity: 1, refillPerSecond: 1 / Math.max(1, options.productInterval) });
+
+  for (let i = 0; i < specs.length; i++) {
+    try {
+      await pacing.acquire(options.signal);
+    } catch (e) {
+      update(i, { status: 'cancelled' });
+      continue;
+    }
+    update(i, { status: 'running', startedAt: Date.now() });
+    // 费用从用量记录中按项目汇总，失败的产品也计入已花费的部分
+    const cost = () => {
+      const projectId = results[i].projectId;
+      return projectId ? sumCost(getProjectRecords(projectId)) : 0;
+    };
+    try {
+      const status = await runProduct(specs[i], files, options, patch => update(i, patch));
+      update(i, { status, stage: undefined, finishedAt: Date.now(), cost: cost() });
+    } catch (err) {
+      const cancelled = isJobCancelled(err) || options.signal.aborted;
+      update(i, { status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : errorMessage(err), finishedAt: Date.now(), cost: cost() });
+    }
+  }
+  return results;
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = String(value ?? '');
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 运行报告：每个产品一行，包含状态、产出数量、耗时、错误与警告
+ */
+export const buildBatchReportCsv = (results: BatchItemResult[]): string => {
+  const header = ['productName', 'status', 'projectId', 'sets', 'grids', 'videos', 'seconds', 'costUsd', 'error', 'warnings'];
+  const rows = results.map(r => [
+    r.spec.productName,
+    r.status,
+    r.projectId,
+    r.sets,
+    r.grids,
+    r.videos,
+    r.startedAt && r.finishedAt ? Math.round((r.finishedAt - r.startedAt) / 1000) : '',
+    r.cost !== undefined ? r.cost.toFixed(4) : '',
+    r.error,
+    r.warnings.join(' | ')
+  ].map(csvCell).join(','));
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const downloadBatchReport = (results: BatchItemResult[], format: 'csv' | 'json') => {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[-:T]/g, '');
+  const blob = format === 'csv'
+    ? new Blob(['\uFEFF' + buildBatchReportCsv(results)], { type: 'text/csv' })
+    : new Blob([JSON.stringify({ generatedAt: Date.now(), results }, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `batch-report-${stamp}.${format}`);
+};
+
+/**
+ * 清单模板，供目录团队按格式填写
+ */
+export const SAMPLE_MANIFEST_CSV = [
+  'productName,brief,assets,style,promptCount,shotCount,gridAspectRatio,renderVideos,videoResolution,videoAspectRatio,videoEngine,targetDuration',
+  '智能美妆镜,"三档色温补光，10 倍放大",mirror-front.jpg;mirror-side.jpg,Studio,3,9,16:9,no,,,,',
+  'Wireless Earbuds,,earbuds.png,Lifestyle,2,6,9:16,yes,1080p,9:16,fast,5'
+].join('\n');
+
+export const downloadSampleManifest = () =>
+  downloadBlob(new Blob(['\uFEFF' + SAMPLE_MANIFEST_CSV], { type: 'text/csv' }), 'batch-manifest-sample.csv');
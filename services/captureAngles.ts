@@ -0,0 +1,23 @@
+import { CaptureAngle } from "../types";
+
+export type FramingGuide = 'center' | 'top-down' | 'macro' | 'hand';
+
+export interface CaptureAngleSpec {
+  id: CaptureAngle;
+  /** 角度名称与拍摄提示，写入分析提示词；界面显示的文案见 locales 中的 angle.* */
+  label: string;
+  hint: string;
+  guide: FramingGuide;
+}
+
+/** 引导拍摄的多角度清单，按推荐顺序排列 */
+export const CAPTURE_ANGLES: CaptureAngleSpec[] = [
+  { id: 'front', label: '正面', hint: '产品正对镜头，完整置于取景框内，背景尽量简洁', guide: 'center' },
+  { id: 'back', label: '背面', hint: '旋转 180°，保持与正面相同的距离和高度', guide: 'center' },
+  { id: 'side', label: '侧面', hint: '旋转 90°，展示厚度与侧面轮廓', guide: 'center' },
+  { id: 'top', label: '俯视', hint: '镜头垂直向下，产品居中', guide: 'top-down' },
+  { id: 'detail', label: '细节微距', hint: '靠近材质、接口或 Logo，对准圆圈对焦', guide: 'macro' },
+  { id: 'in-hand', label: '手持', hint: '手持产品展示真实尺寸与握持方式', guide: 'hand' }
+];
+
+export const getAngleSpec = (angle?: CaptureAngle) => CAPTURE_ANGLES.find(spec => spec.id === angle);
@@ -0,0 +1,85 @@
+import { t } from "./i18n";
+
+const DB_NAME = 'storyboard_pro';
+const DB_VERSION = 4;
+
+export const STORES = {
+  projects: 'projects',
+  presets: 'presets',
+  videos: 'videos',
+  usage: 'usage'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开（必要时升级）本地 IndexedDB，全局复用同一个连接
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(t('errors.indexedDbUnsupported')));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.projects)) {
+        const store = db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.presets)) {
+        db.createObjectStore(STORES.presets, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(STORES.videos)) {
+        const store = db.createObjectStore(STORES.videos, { keyPath: 'id' });
+        store.createIndex('projectId', 'projectId');
+        store.createIndex('createdAt', 'createdAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.usage)) {
+        const store = db.createObjectStore(STORES.usage, { keyPath: 'id' });
+        store.createIndex('projectId', 'projectId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error(t('errors.dbOpen')));
+    };
+  });
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getAll = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+export const getOne = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).get(key) as IDBRequest<T | undefined>);
+};
+
+export const putOne = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const deleteOne = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).clear());
+};
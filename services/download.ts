@@ -0,0 +1,38 @@
+import { t } from "./i18n";
+
+/**
+ * 浏览器端文件下载与 DataURL / Blob 互转
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error(t('errors.fileRead')));
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream';
+  const binary = atob(data || '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * 去掉文件名中的非法字符，保留中文
+ */
+export const sanitizeFilename = (name: string): string =>
+  (name.trim() || 'untitled').replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 80);
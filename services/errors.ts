@@ -0,0 +1,156 @@
+import { t } from "./i18n";
+
+export type ServiceErrorKind = 'rate-limit' | 'auth' | 'safety' | 'empty' | 'invalid-json' | 'schema' | 'timeout' | 'server' | 'budget';
+
+/**
+ * 服务层统一错误基类，UI 按 kind 决定提示文案与恢复操作
+ */
+export class ServiceError extends Error {
+  readonly kind: ServiceErrorKind;
+  readonly cause?: unknown;
+
+  constructor(kind: ServiceErrorKind, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.cause = cause;
+  }
+}
+
+export class RateLimitError extends ServiceError {
+  /** 服务端给出的建议等待时间 */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('rate-limit', message, cause);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AuthError extends ServiceError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class SafetyBlockedError extends ServiceError {
+  /** 被拦截的类别，如 HARM_CATEGORY_DANGEROUS_CONTENT 或 Veo 的过滤原因 */
+  readonly category: string;
+
+  constructor(category: string, message?: string) {
+    super('safety', message || t('errors.safetyBlocked', { category }));
+    this.name = 'SafetyBlockedError';
+    this.category = category;
+  }
+}
+
+export class EmptyResultError extends ServiceError {
+  constructor(message = t('errors.empty')) {
+    super('empty', message);
+    this.name = 'EmptyResultError';
+  }
+}
+
+export class InvalidJsonError extends ServiceError {
+  /** 模型返回的原始文本，便于排查 */
+  readonly raw: string;
+
+  constructor(raw: string, cause?: unknown) {
+    super('invalid-json', t('errors.invalidJson'), cause);
+    this.name = 'InvalidJsonError';
+    this.raw = raw;
+  }
+}
+
+export class SchemaValidationError extends ServiceError {
+  /** 自动修复后仍未解决的问题 */
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super('schema', t('errors.schema', { issues: issues.join('\n') }));
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+export class TimeoutError extends ServiceError {
+  constructor(message: string) {
+    super('timeout', message);
+    this.name = 'TimeoutError';
+  }
+}
+
+export class ServerError extends ServiceError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super('server', message, cause);
+    this.name = 'ServerError';
+    this.status = status;
+  }
+}
+
+export type BudgetScope = 'session' | 'project';
+
+const budgetScopeLabel = (scope: BudgetScope) => t(`usage.scope.${scope}`);
+
+/**
+ * 预算设为拦截模式时，估算费用会让累计花费超出上限的调用不会发出
+ */
+export class BudgetExceededError extends ServiceError {
+  readonly scope: BudgetScope;
+  readonly limit: number;
+  readonly spent: number;
+  readonly estimate: number;
+
+  constructor(scope: BudgetScope, limit: number, spent: number, estimate: number) {
+    super('budget', t('errors.budget', { scope: budgetScopeLabel(scope), limit: limit.toFixed(2), spent: spent.toFixed(2), estimate: estimate.toFixed(2) }));
+    this.name = 'BudgetExceededError';
+    this.scope = scope;
+    this.limit = limit;
+    this.spent = spent;
+    this.estimate = estimate;
+  }
+}
+
+/**
+ * 解析错误信息中的重试提示（google.rpc.RetryInfo 的 retryDelay 或 Retry-After 秒数）
+ */
+export const parseRetryAfter = (message: string): number | undefined => {
+  const delay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || message.match(/retry[- ]after[":\s]+(\d+(?:\.\d+)?)/i);
+  return delay ? Math.ceil(parseFloat(delay[1]) * 1000) : undefined;
+};
+
+/**
+ * 将 SDK / fetch 抛出的原始错误归类为 ServiceError；无法识别的错误原样返回
+ */
+export const toServiceError = (err: unknown): unknown => {
+  if (err instanceof ServiceError) return err;
+  if (!(err instanceof Error)) return err;
+  const rawStatus = typeof err === 'object' && err !== null && 'status' in err ? err.status : undefined;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+  const message = err.message || '';
+
+  if (status === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED')) {
+    return new RateLimitError(t('errors.rateLimit'), parseRetryAfter(message), err);
+  }
+  if (status === 401 || status === 403 || message.includes('Requested entity was not found') || message.includes('API_KEY_INVALID') || message.includes('PERMISSION_DENIED')) {
+    return new AuthError(t('errors.auth'), err);
+  }
+  // 504 DEADLINE_EXCEEDED 属于超时，需先于通用的 5xx 判断
+  if (status === 408 || status === 504 || message.includes('DEADLINE_EXCEEDED')) {
+    return new TimeoutError(t('errors.timeout'));
+  }
+  if ((status !== undefined && status >= 500) || /\b50[0234]\b/.test(message) || message.includes('UNAVAILABLE')) {
+    return new ServerError(t('errors.server'), status, err);
+  }
+  return err;
+};
+
+/**
+ * 频率限制与服务端临时故障可以重试，其余错误重试也不会有不同结果
+ */
+export const isRetryableError = (err: unknown) =>
+  err instanceof RateLimitError || err instanceof ServerError;
@@ -1,29 +1,10 @@
+import { ProductAnalysis, IndividualAnalysis, ProductPrompt, ShotDetail, MediaAsset, VideoRenderConfig, StylePreset, OutputLanguage } from "../types";
+import { getProvider } from "./providers";
+import { toServiceError } from "./errors";
+import { StoryboardContext, PanelRenderRequest, RequestOptions, ImageRequestOptions, VideoJobOptions } from "./providers/types";
+import { t } from "./i18n";
 
-import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
-import { ProductAnalysis, IndividualAnalysis, SceneType, ProductPrompt, VideoResolution, VideoAspectRatio, VideoEngine } from "../types";
-
-/**
- * 通用的重试包装函数，支持指数退避
- */
-async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, initialDelay = 2000): Promise<T> {
-  let lastError: any;
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      const errorMsg = error?.message || "";
-      if (errorMsg.includes("429") || errorMsg.includes("RESOURCE_EXHAUSTED") || errorMsg.includes("500") || errorMsg.includes("503")) {
-        const delay = initialDelay * Math.pow(2, i);
-        console.warn(`检测到频率限制或服务器压力，将在 ${delay}ms 后进行第 ${i + 1} 次重试...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError;
-}
+export type { StoryboardContext, PanelRenderRequest, RequestOptions, ImageRequestOptions, VideoJobOptions } from "./providers/types";
 
 /**
  * 使用 Gemini 3 Pro 润色分镜脚本，生成专为 Veo 优化的“导演指令”
@@ -31,239 +12,155 @@ async function withRetry<T>(fn: () => Promise<T>, maxRetries = 3, initialDelay =
 export const refineVideoPromptWithGemini = async (
   script: string,
   profile: ProductAnalysis['globalProfile'],
-  productName: string
+  productName: string,
+  style?: StylePreset,
+  language?: OutputLanguage,
+  options?: RequestOptions
 ): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-pro-preview';
-
-  const prompt = `你是一名世界级的商业视频导演。请将以下【分镜脚本】和【产品基因】转化成一段专为 Veo 3.1 视频生成模型设计的“高保真导演指令”。
-  
-  产品：${productName}
-  结构特征：${profile.structure}
-  材质细节：${profile.details}
-  分镜脚本：${script}
-
-  要求：
-  1. 描述必须包含：光影动态（如：God rays, soft bokeh）、材质表现（如：Metalic sheen, micro-texture）、镜头平滑运动（如：Cinematic dolly zoom, macro pan）。
-  2. 强调“结构一致性”：确保每一秒钟产品的物理形态都绝对稳定。
-  3. 指令必须用【英文】输出，以获得最佳模型理解度。
-  4. 只输出指令文本，不需要任何解释。`;
+  return getProvider().refineVideoPrompt(script, profile, productName, style, language, options);
+};
 
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model,
-    contents: prompt
-  }));
+const ANALYSIS_CONCURRENCY = 4;
 
-  return response.text || script;
-};
+export interface AnalysisOptions extends RequestOptions {
+  concurrency?: number;
+  language?: OutputLanguage;
+  /** 每个资产状态变化时回调当前全部结果的快照 */
+  onProgress?: (analyses: IndividualAnalysis[]) => void;
+}
 
+/**
+ * 有限并发地逐项分析资产；单项失败只标记为 failed，不影响其它资产。
+ * 中止后不再开始新的分析，尚未开始的条目保持 pending
+ */
 export const analyzeIndividualImages = async (
-  images: {id: string, data: string, type: 'image' | 'video'}[],
-  productName: string
+  images: MediaAsset[],
+  productName: string,
+  options: AnalysisOptions = {}
 ): Promise<IndividualAnalysis[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-flash-preview';
-  const results: IndividualAnalysis[] = [];
-  for (let i = 0; i < images.length; i++) {
-    const item = images[i];
-    const isVideo = item.type === 'video';
-    const mediaPart = {
-      inlineData: {
-        data: item.data.split(',')[1],
-        mimeType: isVideo ? 'video/mp4' : 'image/jpeg'
+  const provider = getProvider();
+  const results: IndividualAnalysis[] = images.map(item => ({ id: item.id, description: '', status: 'pending' }));
+  const update = (index: number, patch: Partial<IndividualAnalysis>) => {
+    results[index] = { ...results[index], ...patch };
+    options.onProgress?.([...results]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < images.length && !options.signal?.aborted) {
+      const index = next++;
+      update(index, { status: 'running' });
+      try {
+        const description = await provider.analyzeAsset(images[index], productName, options.language, { signal: options.signal, projectId: options.projectId });
+        update(index, { description, status: 'done', error: undefined });
+      } catch (e) {
+        const typed = toServiceError(e);
+        update(index, { status: 'failed', error: typed instanceof Error ? typed.message : String(typed) });
       }
-    };
-    const prompt = `分析产品“${productName}”的参考${isVideo ? '视频' : '图'}结构、细节、运动规律等。输出JSON: { "description": "..." }`;
-    try {
-      const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-        model,
-        contents: { parts: [mediaPart, { text: prompt }] },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: { description: { type: Type.STRING } },
-            required: ["description"]
-          }
-        }
-      }));
-      const parsed = JSON.parse(response.text || '{"description": "无法识别"}');
-      results.push({ id: item.id, description: String(parsed.description || "无法识别") });
-      if (images.length > 1 && i < images.length - 1) await new Promise(resolve => setTimeout(resolve, 1000));
-    } catch (e) {
-      results.push({ id: item.id, description: "分析失败" });
     }
-  }
+  };
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? ANALYSIS_CONCURRENCY, images.length));
+  await Promise.all(Array.from({ length: concurrency }, worker));
   return results;
 };
 
+/**
+ * 参与合成的分析：排除失败、未完成或内容为空的条目
+ */
+export const getUsableAnalyses = (analyses: IndividualAnalysis[]) =>
+  analyses.filter(a => (a.status ?? 'done') === 'done' && a.description.trim().length > 0);
+
+export const analyzeSingleAsset = async (
+  item: MediaAsset,
+  productName: string,
+  language?: OutputLanguage,
+  options?: RequestOptions
+): Promise<IndividualAnalysis> => {
+  const description = await getProvider().analyzeAsset(item, productName, language, options);
+  return { id: item.id, description, status: 'done' };
+};
+
 export const synthesizeProductProfile = async (
   individualAnalyses: IndividualAnalysis[],
-  productName: string
+  productName: string,
+  brief?: string,
+  language?: OutputLanguage,
+  options?: RequestOptions
 ): Promise<ProductAnalysis['globalProfile']> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-flash-preview';
-  const context = individualAnalyses.map((a, i) => `参考分析 ${i+1}: ${a.description}`).join('\n');
-  const prompt = `基于以下对产品“${productName}”的参考分析，提炼核心产品基因(Structure, Details, Audience, Scenarios, Motion)。输出JSON。 上下文：${context}`;
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          structure: { type: Type.STRING },
-          details: { type: Type.STRING },
-          audience: { type: Type.STRING },
-          scenarios: { type: Type.STRING },
-          motion: { type: Type.STRING }
-        },
-        required: ["structure", "details", "audience", "scenarios", "motion"]
-      }
-    }
-  }));
-  return JSON.parse(response.text || '{}') as ProductAnalysis['globalProfile'];
+  const usable = getUsableAnalyses(individualAnalyses);
+  if (usable.length === 0) throw new Error(t('errors.noUsableAnalyses'));
+  return getProvider().synthesizeProfile(usable, productName, brief, language, options);
 };
 
 export const generateProductProfileFromText = async (
-  productName: string
+  productName: string,
+  brief?: string,
+  language?: OutputLanguage,
+  options?: RequestOptions
 ): Promise<ProductAnalysis['globalProfile']> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-flash-preview';
-  const prompt = `基于产品名称“${productName}”提供详细的产品基因档案(Structure, Details, Audience, Scenarios, Motion)。输出JSON。`;
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          structure: { type: Type.STRING },
-          details: { type: Type.STRING },
-          audience: { type: Type.STRING },
-          scenarios: { type: Type.STRING },
-          motion: { type: Type.STRING }
-        },
-        required: ["structure", "details", "audience", "scenarios", "motion"]
-      }
-    }
-  }));
-  return JSON.parse(response.text || '{}') as ProductAnalysis['globalProfile'];
+  return getProvider().generateProfileFromText(productName, brief, language, options);
 };
 
 export const generateStoryboards = async (
   profile: ProductAnalysis['globalProfile'], 
   productName: string,
   quantity: number, 
-  language: 'zh' | 'en',
-  sceneType: SceneType
+  language: OutputLanguage,
+  style: StylePreset,
+  shotCount?: number,
+  options?: RequestOptions
 ): Promise<ProductPrompt[]> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const model = 'gemini-3-pro-preview';
-  const systemInstruction = `你是一个顶级商业分镜策划师。擅长在${sceneType}场景下生成电影级分镜。遵循：${profile.structure}, ${profile.details}, ${profile.motion}。`;
-  const prompt = `任务：为“${productName}”策划 ${quantity} 套分镜。每套包含1个全局指令和9个镜头。语言：${language}。`;
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model,
-    contents: prompt,
-    config: {
-      systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            instruction: { type: Type.STRING },
-            shots: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  cameraAngle: { type: Type.STRING },
-                  lighting: { type: Type.STRING },
-                  description: { type: Type.STRING }
-                },
-                required: ["cameraAngle", "lighting", "description"]
-              }
-            }
-          },
-          required: ["instruction", "shots"]
-        }
-      }
-    }
-  }));
-  return JSON.parse(response.text || '[]') as ProductPrompt[];
+  return getProvider().generateStoryboards(profile, productName, quantity, language, style, shotCount, options);
 };
 
-export const generateGridImage = async (prompt: string, referenceImageBase64?: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const contentsParts: any[] = [];
-  if (referenceImageBase64) {
-    contentsParts.push({ inlineData: { data: referenceImageBase64.split(',')[1], mimeType: 'image/jpeg' } });
-  }
-  contentsParts.push({ text: `Create a professional 3x3 storyboard grid image. PROMPT: ${prompt}. Cinematic lighting. Consistent product based on reference.` });
-  const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts: contentsParts },
-    config: { imageConfig: { aspectRatio: "16:9" } }
-  }));
-  const part = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-  if (!part?.inlineData) throw new Error("Image generation failed");
-  return `data:image/png;base64,${part.inlineData.data}`;
+export const regenerateShot = async (
+  context: StoryboardContext,
+  prompt: ProductPrompt,
+  shotIdx: number,
+  note?: string,
+  options?: RequestOptions
+): Promise<ShotDetail> => {
+  return getProvider().regenerateShot(context, prompt, shotIdx, note, options);
 };
 
-export const generateVideoWithExtension = async (
-  prompt: string, 
-  referenceImageBase64: string, 
-  config: {
-    resolution: VideoResolution,
-    aspectRatio: VideoAspectRatio,
-    targetDuration: number,
-    engine: VideoEngine
-  },
-  onStatusChange?: (msg: string) => void
-): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const imageData = referenceImageBase64.includes(',') ? referenceImageBase64.split(',')[1] : referenceImageBase64;
-  
-  onStatusChange?.(`启动 [${config.engine.includes('fast') ? 'Fast' : 'Pro'}] 渲染引擎...`);
+export const regenerateStoryboardSet = async (
+  context: StoryboardContext,
+  prompts: ProductPrompt[],
+  setIdx: number,
+  note?: string,
+  options?: RequestOptions
+): Promise<ProductPrompt> => {
+  return getProvider().regenerateSet(context, prompts, setIdx, note, options);
+};
 
-  let operation: any = await withRetry(() => ai.models.generateVideos({
-    model: config.engine,
-    prompt: `Industrial high-end commercial video. 100% Product Consistency. ${prompt}`,
-    image: { imageBytes: imageData, mimeType: 'image/jpeg' },
-    config: { numberOfVideos: 1, resolution: config.resolution, aspectRatio: config.aspectRatio }
-  }));
+export const generateAdditionalStoryboards = async (
+  context: StoryboardContext,
+  prompts: ProductPrompt[],
+  count: number,
+  note?: string,
+  options?: RequestOptions
+): Promise<ProductPrompt[]> => {
+  return getProvider().generateAdditionalSets(context, prompts, count, note, options);
+};
 
-  while (!operation.done) {
-    onStatusChange?.(`正在进行初始镜头渲染...`);
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    operation = await ai.operations.getVideosOperation({operation: operation});
-  }
+export const generateGridImage = async (prompt: string, referenceImageBase64?: string, options?: ImageRequestOptions): Promise<string> => {
+  return getProvider().generateGridImage(prompt, referenceImageBase64, options);
+};
 
-  let finalVideo = operation.response?.generatedVideos?.[0]?.video;
+export const generatePanelImage = async (request: PanelRenderRequest, options?: RequestOptions): Promise<string> => {
+  return getProvider().generatePanelImage(request, options);
+};
 
-  if (config.targetDuration > 5) {
-    onStatusChange?.(`检测到延展需求，正在续写视频...`);
-    const rounds = Math.ceil((config.targetDuration - 5) / 7);
-    for (let i = 0; i < rounds; i++) {
-      onStatusChange?.(`正在进行第 ${i + 1}/${rounds} 阶段延展 (每轮 +7s)...`);
-      operation = await withRetry(() => ai.models.generateVideos({
-        model: 'veo-3.1-generate-preview',
-        prompt: `Continue the scene smoothly while maintaining product structural consistency. ${prompt}`,
-        video: finalVideo,
-        config: { numberOfVideos: 1, resolution: '720p', aspectRatio: config.aspectRatio }
-      }));
-      while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await ai.operations.getVideosOperation({operation: operation});
-      }
-      finalVideo = operation.response?.generatedVideos?.[0]?.video;
-    }
-  }
+export const generateVideoWithExtension = async (
+  prompt: string, 
+  referenceImageBase64: string, 
+  config: VideoRenderConfig,
+  onStatusChange?: (msg: string) => void,
+  options?: VideoJobOptions
+): Promise<string> => {
+  return getProvider().generateVideo(prompt, referenceImageBase64, config, onStatusChange, options);
+};
 
-  if (!finalVideo?.uri) throw new Error("Video generation failed: Operation returned empty result.");
-  return `${finalVideo.uri}&key=${process.env.API_KEY}`;
+export const ensureApiKey = async (): Promise<void> => {
+  return getProvider().ensureApiKey();
 };
@@ -0,0 +1,112 @@
+import { GridAspectRatio, GridLayout } from "../types";
+import { t } from "./i18n";
+
+export const GRID_ROWS = 3;
+export const GRID_COLS = 3;
+
+export const SHOT_COUNT_OPTIONS = [4, 6, 9, 12, 16];
+export const GRID_ASPECT_RATIOS: GridAspectRatio[] = ['16:9', '9:16', '1:1'];
+
+// 横版 / 方形宫格的行列；竖版宫格行列互换
+const LANDSCAPE_LAYOUTS: Record<number, [number, number]> = {
+  4: [2, 2],
+  6: [2, 3],
+  9: [3, 3],
+  12: [3, 4],
+  16: [4, 4]
+};
+
+// 图像模型支持的出图比例，单帧重绘时取最接近分镜格形状的一个
+const IMAGE_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '9:16', '16:9'];
+
+const ratioValue = (ratio: string) => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+/**
+ * 按镜头数与宫格画幅确定行列；非预设镜头数时取接近正方形的排布
+ */
+export const getGridLayout = (shotCount: number, aspectRatio: GridAspectRatio = '16:9'): GridLayout => {
+  const cols = Math.ceil(Math.sqrt(shotCount));
+  const [rows, columns] = LANDSCAPE_LAYOUTS[shotCount] || [Math.ceil(shotCount / cols), cols];
+  return aspectRatio === '9:16' ? { rows: columns, cols: rows, aspectRatio } : { rows, cols: columns, aspectRatio };
+};
+
+/** 已出图的宫格按实际宽高反推画幅 */
+export const inferGridAspectRatio = (width: number, height: number): GridAspectRatio => {
+  const ratio = width / height;
+  if (Math.abs(ratio - 1) < 0.1) return '1:1';
+  return ratio > 1 ? '16:9' : '9:16';
+};
+
+export const formatGridLayout = (layout: GridLayout) => `${layout.rows}x${layout.cols}`;
+
+/** CSS aspect-ratio 取值，如 16 / 9 */
+export const cssAspectRatio = (ratio: string) => ratio.replace(':', ' / ');
+
+/**
+ * 单个分镜格的形状（宫格画幅按行列等分后），对齐到最接近的出图比例
+ */
+export const getPanelAspectRatio = (layout: GridLayout): string => {
+  const cell = ratioValue(layout.aspectRatio) * layout.rows / layout.cols;
+  return IMAGE_ASPECT_RATIOS.reduce((best, r) =>
+    Math.abs(Math.log(ratioValue(r) / cell)) < Math.abs(Math.log(ratioValue(best) / cell)) ? r : best);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(t('errors.imageLoad')));
+    img.src = src;
+  });
+
+/**
+ * 将宫格大图按行列等分切成独立分镜帧（PNG DataURL，按行优先排序）
+ */
+export const sliceGridImage = async (gridDataUrl: string, rows = GRID_ROWS, cols = GRID_COLS): Promise<string[]> => {
+  const img = await loadImage(gridDataUrl);
+  const cellW = Math.floor(img.naturalWidth / cols);
+  const cellH = Math.floor(img.naturalHeight / rows);
+  const canvas = document.createElement('canvas');
+  canvas.width = cellW;
+  canvas.height = cellH;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('errors.canvas'));
+  const panels: string[] = [];
+  for (let i = 0; i < rows * cols; i++) {
+    const x = (i % cols) * cellW;
+    const y = Math.floor(i / cols) * cellH;
+    ctx.clearRect(0, 0, cellW, cellH);
+    ctx.drawImage(img, x, y, cellW, cellH, 0, 0, cellW, cellH);
+    panels.push(canvas.toDataURL('image/png'));
+  }
+  return panels;
+};
+
+/**
+ * 把分镜帧重新拼回宫格大图。单帧尺寸不一致时按 cover 方式裁切填满格子。
+ */
+export const composeGridImage = async (panels: string[], cellWidth: number, cellHeight: number, rows = GRID_ROWS, cols = GRID_COLS): Promise<string> => {
+  const images = await Promise.all(panels.map(loadImage));
+  const canvas = document.createElement('canvas');
+  canvas.width = cellWidth * cols;
+  canvas.height = cellHeight * rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('errors.canvas'));
+  images.forEach((img, i) => {
+    const scale = Math.max(cellWidth / img.naturalWidth, cellHeight / img.naturalHeight);
+    const srcW = cellWidth / scale;
+    const srcH = cellHeight / scale;
+    const srcX = (img.naturalWidth - srcW) / 2;
+    const srcY = (img.naturalHeight - srcH) / 2;
+    ctx.drawImage(img, srcX, srcY, srcW, srcH, (i % cols) * cellWidth, Math.floor(i / cols) * cellHeight, cellWidth, cellHeight);
+  });
+  return canvas.toDataURL('image/png');
+};
+
+export const getImageSize = async (dataUrl: string): Promise<{ width: number, height: number }> => {
+  const img = await loadImage(dataUrl);
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
@@ -0,0 +1,79 @@
+import { OutputLanguage, OutputLanguages } from "../types";
+import { zh, MessageKey, Messages } from "./locales/zh";
+import { en } from "./locales/en";
+
+export type Locale = 'zh' | 'en';
+export type { MessageKey } from "./locales/zh";
+export type MessageParams = Record<string, string | number>;
+
+const STORAGE_KEY = 'ui_locale';
+
+const MESSAGES: Record<Locale, Messages> = { zh, en };
+
+export const LOCALE_OPTIONS: { id: Locale, label: string }[] = [
+  { id: 'zh', label: '中文' },
+  { id: 'en', label: 'English' }
+];
+
+const isLocale = (value: unknown): value is Locale => value === 'zh' || value === 'en';
+
+/**
+ * 优先读取用户选择过的界面语言，否则按浏览器语言推断
+ */
+const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    // 隐私模式下 localStorage 不可用，退回浏览器语言
+  }
+  return typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('zh') ? 'zh' : 'en';
+};
+
+let currentLocale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const getLocale = () => currentLocale;
+
+/** 日期时间格式化使用的 BCP 47 标签 */
+export const getDateLocale = () => currentLocale === 'zh' ? 'zh-CN' : 'en-US';
+
+if (typeof document !== 'undefined') document.documentElement.lang = getDateLocale();
+
+export const setLocale = (locale: Locale) => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (e) {
+    console.warn("界面语言未能保存", e);
+  }
+  document.documentElement.lang = getDateLocale();
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * 取当前界面语言的文案，{name} 形式的占位符按 params 替换
+ */
+export const t = (key: MessageKey, params?: MessageParams): string => {
+  const template = MESSAGES[currentLocale][key] ?? zh[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+};
+
+/**
+ * 新项目的各阶段输出语言默认跟随界面语言；导演指令默认英文，Veo 对英文理解最好
+ */
+export const defaultOutputLanguages = (locale: Locale = currentLocale): OutputLanguages => ({
+  analysis: locale,
+  profile: locale,
+  storyboard: locale,
+  refine: 'en'
+});
+
+export const OUTPUT_LANGUAGE_OPTIONS: OutputLanguage[] = ['zh', 'en'];
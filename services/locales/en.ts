@@ -0,0 +1,510 @@
+import { Messages } from "./zh";
+
+/**
+ * 英文界面文案
+ */
+export const en: Messages = {
+  'common.unknownError': 'Unknown error',
+  'common.retry': 'Retry',
+  'common.close': 'Close',
+
+  'review.title': 'Asset analysis review',
+  'review.failedCount': '{count} analyses failed and are excluded from synthesis',
+  'review.removed': 'Removed',
+  'review.itemLabel': 'Reference analysis {index}',
+  'review.queued': ' · queued',
+  'review.running': ' · analysing',
+  'review.failed': 'Analysis failed: {error}. Retry, or write the description by hand',
+  'review.manualPlaceholder': 'Describe this asset\'s structure, details and motion by hand…',
+  'review.reanalyze': 'Re-analyse',
+  'review.synthesize': 'Synthesise product profile from reviewed results ({usable}/{total})',
+
+  'profile.field.structure': 'Structure',
+  'profile.field.details': 'Details',
+  'profile.field.audience': 'Audience',
+  'profile.field.scenarios': 'Scenarios',
+  'profile.field.motion': 'Motion',
+  'profile.lock': 'Lock',
+  'profile.unlock': 'Unlock',
+  'profile.source.images': 'From images',
+  'profile.source.text': 'From text',
+  'profile.source.hybrid': 'Images + text',
+  'profile.title': 'Product DNA',
+  'profile.resynthesize': 'Re-synthesise (keeps locked fields)',
+
+  'panels.title': 'Frames',
+  'panels.noShot': 'No shot for this frame',
+  'panels.regenerate': 'Redraw frame',
+  'panels.startVideo': 'Start video here',
+
+  'shots.title': 'Director script',
+  'shots.tableMode': 'Shot table',
+  'shots.textMode': 'Script text',
+  'shots.instruction': 'Global direction',
+  'shots.camera': 'Camera',
+  'shots.lighting': 'Lighting',
+  'shots.description': 'Description',
+  'shots.regenerate': 'Regenerate this shot',
+  'shots.moveUp': 'Move up',
+  'shots.moveDown': 'Move down',
+  'shots.duplicate': 'Duplicate shot',
+  'shots.insertBelow': 'Insert below',
+  'shots.delete': 'Delete shot',
+  'shots.add': 'Add shot',
+
+  'jobs.title': 'Render jobs',
+  'jobs.status.queued': 'Queued',
+  'jobs.status.running': 'Running',
+  'jobs.status.succeeded': 'Done',
+  'jobs.status.failed': 'Failed',
+  'jobs.status.cancelled': 'Cancelled',
+  'jobs.maxConcurrency': 'Max concurrency',
+  'jobs.clearFinished': 'Clear finished jobs',
+  'jobs.empty': 'No render jobs',
+  'jobs.cancel': 'Cancel job',
+  'jobs.message.queued': 'Queued...',
+  'jobs.message.running': 'Running...',
+  'jobs.message.interrupted': 'Interrupted',
+  'jobs.message.awaitingResume': 'Waiting to resume polling...',
+  'jobs.error.cancelled': 'Job cancelled',
+  'jobs.error.timeout': 'Job timed out (over {seconds}s)',
+  'jobs.error.interruptedByReload': 'Job interrupted by a page reload',
+
+  'errors.safetyBlocked': 'Content blocked by safety policy ({category})',
+  'errors.empty': 'The model returned an empty result',
+  'errors.emptyCandidates': 'The model returned no candidates',
+  'errors.emptyImage': 'The model returned no image',
+  'errors.emptyVideo': 'The video job returned an empty result',
+  'errors.invalidJson': 'The model\'s JSON could not be parsed',
+  'errors.schema': 'Model output failed validation and could not be repaired:\n{issues}',
+  'errors.rateLimit': 'API rate limit hit or quota exhausted',
+  'errors.auth': 'API key invalid or lacks permission',
+  'errors.server': 'Model service temporarily unavailable',
+  'errors.timeout': 'Model service timed out',
+  'errors.indexedDbUnsupported': 'This browser does not support IndexedDB, so projects cannot be saved',
+  'errors.dbOpen': 'Could not open the local database',
+  'errors.fileRead': 'Failed to read the file',
+  'errors.noUsableAnalyses': 'No usable asset analyses. Retry the failed assets or fill in descriptions manually first',
+  'errors.imageLoad': 'Failed to load the image',
+  'errors.canvas': 'Canvas is not available',
+  'errors.projectNotFound': 'The project does not exist or has been deleted',
+  'errors.printWindow': 'Could not open the print window',
+  'errors.videoMetadata': 'Failed to read video metadata',
+  'errors.recorderUnsupported': 'This browser cannot record video, so clips cannot be joined for export',
+  'errors.clipDownload': 'Clip download failed ({status})',
+  'errors.clipLoad': 'Clip {index} failed to load',
+
+  'video.status.start': 'Starting [{engine}] render engine...',
+  'video.status.extending': 'Extending, stage {stage}/{rounds} (+7s per round)...',
+  'video.status.resuming': 'Resuming render round {stage}/{total}...',
+  'video.status.initial': 'Rendering the initial shot...',
+  'video.status.mock': '[Mock] Recording sample video...',
+
+  'ingest.imageDecodeFailed': 'Failed to decode image',
+  'ingest.canvasUnavailable': 'Canvas is unavailable',
+  'ingest.imageTooLarge': 'Image exceeds the {mb}MB limit',
+  'ingest.heicUnsupported': 'This browser cannot decode HEIC/HEIF. Export it as JPEG from your photo library and upload again',
+  'ingest.imageFormatUnsupported': 'Unsupported image format ({mimeType})',
+  'ingest.videoDecodeFailed': 'This browser cannot decode the video. Convert it to MP4 (H.264) and upload again',
+  'ingest.videoSeekFailed': 'Failed to seek video',
+  'ingest.videoFormatUnsupported': 'Unsupported video format ({mimeType}). Convert it to MP4 or MOV',
+  'ingest.videoTooLarge': 'Video exceeds the {mb}MB inline limit. Trim or compress it and upload again',
+  'ingest.videoTooLong': 'Video is longer than {seconds}s. Trim it and upload again',
+  'ingest.unknownType': 'Unrecognised file type ({mimeType})',
+
+  'models.title': 'Model settings',
+  'models.provider': 'Provider',
+  'models.provider.gemini': 'Gemini / Veo (cloud)',
+  'models.provider.mock': 'Mock (offline demo)',
+  'models.field.analysisModel': 'Asset analysis',
+  'models.field.profileModel': 'Profile synthesis',
+  'models.field.storyboardModel': 'Storyboard planning',
+  'models.field.refineModel': 'Director refinement',
+  'models.field.imageModel': 'Grid images',
+  'models.field.videoExtensionModel': 'Video extension',
+  'models.reset': 'Reset to defaults',
+  'models.save': 'Save settings',
+
+  'library.title': 'Project library',
+  'library.import': 'Import bundle',
+  'library.search': 'Search projects or product names',
+  'library.noMatch': 'No matching projects',
+  'library.empty': 'No saved projects yet',
+  'library.meta': '{sets} sets · {size}',
+  'library.restore': 'Open in workspace',
+  'library.export': 'Export bundle',
+  'library.rename': 'Rename',
+  'library.delete': 'Delete',
+  'library.confirmDelete': 'Delete project "{name}"? This cannot be undone.',
+  'library.usage': '{count} projects · about {size}',
+  'library.browserStorage': 'Browser storage {used} / {quota}',
+
+  'timeline.title': 'Shot sequence · {count} clips · {duration}s',
+  'timeline.stopPreview': 'Stop preview',
+  'timeline.playAll': 'Play all',
+  'timeline.exportVideo': 'Export joined video',
+  'timeline.clip': '#{index} · shot {shot} · {duration}s',
+  'timeline.in': 'In',
+  'timeline.out': 'Out',
+
+  'angle.front': 'Front',
+  'angle.front.hint': 'Product faces the camera, fully inside the frame, with a plain background',
+  'angle.back': 'Back',
+  'angle.back.hint': 'Turn it 180°, keeping the same distance and height as the front shot',
+  'angle.side': 'Side',
+  'angle.side.hint': 'Turn it 90° to show thickness and the side profile',
+  'angle.top': 'Top-down',
+  'angle.top.hint': 'Camera pointing straight down, product centred',
+  'angle.detail': 'Macro detail',
+  'angle.detail.hint': 'Get close to materials, ports or the logo and focus inside the circle',
+  'angle.in-hand': 'In hand',
+  'angle.in-hand.hint': 'Hold the product to show its real size and grip',
+
+  'camera.title': 'Guided capture',
+  'camera.permissionDenied': 'Camera permission denied. Allow camera access in your browser settings',
+  'camera.openFailed': 'Could not open the camera: {error}',
+  'camera.unsupported': 'This browser does not support camera capture',
+  'camera.photoFailed': 'Failed to take photo',
+  'camera.recordUnsupported': 'This browser does not support recording clips',
+  'camera.recording': 'Recording {seconds}s',
+  'camera.takePhoto': 'Take photo',
+  'camera.recordClip': 'Record {seconds}s clip',
+  'camera.switchCamera': 'Switch front/back camera',
+  'camera.checklist': 'Shot checklist',
+  'camera.pending': 'To do',
+  'camera.done': 'Done',
+
+  'presets.title': 'Style presets',
+  'presets.import': 'Import',
+  'presets.exportAll': 'Export all',
+  'presets.new': 'New preset',
+  'presets.builtInHint': 'Built-in · click to duplicate',
+  'presets.export': 'Export',
+  'presets.duplicate': 'Duplicate',
+  'presets.delete': 'Delete',
+  'presets.copySuffix': '{name} copy',
+  'presets.confirmDelete': 'Delete style preset "{name}"? Sets using it fall back to the built-in scene style.',
+  'presets.emptyEditor': 'Pick a preset on the left to edit, or create a new brand style',
+  'presets.name': 'Name',
+  'presets.sceneType': 'Base scene',
+  'presets.field.sceneDescription': 'Scene description',
+  'presets.field.sceneDescription.placeholder': 'e.g. Nordic living room, light wood floor, floor-to-ceiling windows',
+  'presets.field.lighting': 'Lighting vocabulary',
+  'presets.field.lighting.placeholder': 'e.g. early-morning side backlight, soft diffusion, subtle lens flare',
+  'presets.field.palette': 'Colour palette',
+  'presets.field.palette.placeholder': 'e.g. cream white + haze blue, brand colour #1A73E8 accents',
+  'presets.field.props': 'Props',
+  'presets.field.props.placeholder': 'e.g. linen tablecloth, ceramic cup, plants',
+  'presets.field.banned': 'Banned elements',
+  'presets.field.banned.placeholder': 'e.g. competitor logos, real faces, alcohol',
+  'presets.field.negativePrompt': 'Negative prompt',
+  'presets.field.negativePrompt.placeholder': 'e.g. blurry, distorted logo, extra fingers, watermark',
+  'presets.moodImages': 'Mood images (up to {max})',
+  'presets.renderDefaults': 'Default render settings (applied when the preset is selected)',
+  'presets.keepAspect': 'Keep aspect ratio',
+  'presets.keepResolution': 'Keep resolution',
+  'presets.keepEngine': 'Keep engine',
+  'presets.keepDuration': 'Keep duration',
+  'presets.save': 'Save preset',
+  'presets.builtInReadOnly': 'Built-in presets are read-only. Duplicate it first',
+  'presets.invalidJson': 'The file is not valid JSON',
+  'presets.unknownFile': 'Unrecognised preset file',
+  'presets.newerVersion': 'Preset file version v{version} is newer than the supported v{supported}',
+  'presets.invalidFile': 'Preset file failed validation:\n{issues}',
+  'presets.defaultName': 'New style preset',
+
+  'app.tagline': 'Gemini 3 planning and Veo rendering pipeline',
+  'app.autosaved': 'Autosaved {time}',
+  'app.modelSettings': 'Models',
+  'app.saveProject': 'Save project',
+  'app.renderJobs': 'Render jobs',
+  'app.library': 'Library',
+  'app.videoLibrary': 'Videos',
+  'app.cloudAuth': 'Cloud auth',
+  'app.untitled': 'Untitled product',
+
+  'error.title': 'Something went wrong',
+  'error.dismiss': 'OK',
+  'error.action.openJobs': 'Open render jobs',
+  'error.action.modelSettings': 'Model settings',
+  'error.action.selectKey': 'Select API key',
+  'error.rateLimit.after': 'in about {seconds} s',
+  'error.rateLimit.minute': 'in a minute',
+  'error.rateLimit': 'API rate limit or quota exhausted. Please retry {wait}.\nFor video, switch to the Fast engine or lower concurrency in the render jobs panel.',
+  'error.auth': 'The API key is invalid or lacks permission. Please select a key from a paid project.',
+  'error.authProxy': 'The API key on the proxy server is invalid or lacks permission. Check GEMINI_API_KEY in the server\'s .env.local and restart it.',
+  'error.authEnv': 'The API key is invalid or lacks permission. Check GEMINI_API_KEY in .env.local and restart the app.',
+  'error.safety': 'Blocked by the safety policy: {category}\nEdit the script or steering notes to remove likely triggers (real people, brand marks, sensitive scenes) and retry.',
+  'error.empty': '{message}.\nThis is usually transient, so just retry. If it keeps happening, switch models in the model settings.',
+  'error.invalidJson': 'The model returned malformed structured data. Please retry.\nIf it keeps happening, switch to a stronger model in the model settings.',
+  'error.schema': 'The model output failed validation even after automatic repair:\n{issues}{more}\nPlease retry, or switch to a stronger model in the model settings.',
+  'error.schema.more': '\n…and {count} more',
+  'error.timeout': '{message}.\nTry a shorter target duration, or check other jobs in the render jobs panel.',
+  'error.server': 'The model service is temporarily unavailable. Please retry later or switch the rendering engine.',
+  'error.rejectedFiles': 'These files could not be imported:\n{files}',
+  'error.productNameRequired': 'Please enter a product name',
+  'error.gridRequired': 'Generate the storyboard grid first.',
+  'error.frameNotReady': 'This frame is not ready yet.',
+  'error.noReference': 'There is no product image or video keyframe to use as a reference.',
+  'error.sequenceReference': 'Generate the storyboard grid or upload a product image first.',
+
+  'analysis.interrupted': 'Analysis was interrupted',
+  'analysis.progress': 'Analysing {done}/{total}',
+
+  'job.grid': 'Set {set} · {layout} storyboard preview',
+  'job.panel': 'Set {set} · redraw frame {frame}',
+  'job.frameVideo': 'Set {set} · video from frame {frame}',
+  'job.setVideo': 'Set {set} · full video',
+  'job.sequenceClip': 'Set {set} · shot {shot}/{total}',
+
+  'sequence.preparing': 'Preparing...',
+  'sequence.concatenating': 'Joining {done}/{total}',
+
+  'step1.title': 'Product assets',
+  'step1.keyframes': '{count} frames',
+  'step1.processing': 'Processing...',
+  'step1.addAsset': 'Add assets',
+  'step1.guidedCapture': 'Guided capture',
+  'step1.namePlaceholder': 'Product name, e.g. smart vanity mirror',
+  'step1.briefPlaceholder': '(Optional) Paste a spec sheet or marketing brief: size, materials, specs, selling points, audience… Without samples, the product DNA can be generated from text alone',
+  'step1.scan': 'Run Gemini asset scan',
+  'step1.fromText': 'Generate product DNA from text',
+
+  'step2.title': 'Rendering setup',
+  'step2.engine': 'Rendering engine',
+  'step2.engineFast': 'Veo Fast (recommended)',
+  'step2.engineStandard': 'Veo Standard (high fidelity)',
+  'step2.setCount': 'Sets',
+  'step2.style': 'Scene style',
+  'step2.managePresets': 'Manage presets',
+  'step2.shotCount': 'Shots per set',
+  'step2.shotOption': '{count} shots · {layout} grid',
+  'step2.gridAspect': 'Grid aspect ratio',
+  'step2.generate': 'Generate storyboards',
+
+  'step3.title': 'Storyboard library',
+  'step3.exportHtml': 'Export HTML',
+  'step3.exportPdf': 'Export PDF',
+  'step3.setBadge': 'Set {set}',
+  'step3.setStyleTitle': 'Style preset for this set',
+  'step3.styleFollowGlobal': 'Style: global ({name})',
+  'step3.styleOption': 'Style: {name}',
+  'step3.regenerateSet': 'Regenerate set',
+  'step3.refine': 'Gemini director polish',
+  'step3.copyScript': 'Copy script',
+  'step3.steeringPlaceholder': '(Optional) Steering note for regeneration, e.g. make this shot a macro close-up',
+  'step3.refined': 'Render instructions polished by the Gemini director',
+  'step3.renderGrid': 'Render {layout} preview',
+  'step3.videoFromGrid': 'Render from preview (Gemini guided)',
+  'step3.videoDirect': 'Render directly',
+  'step3.sequence': 'Render shot by shot',
+  'step3.extraPlaceholder': '(Optional) Direction for extra sets, e.g. more outdoor and sporty',
+  'step3.addSets': 'Add distinct sets',
+
+  'outputLanguage.title': 'Output languages',
+  'outputLanguage.analysis': 'Asset analysis',
+  'outputLanguage.profile': 'Product DNA',
+  'outputLanguage.storyboard': 'Storyboard script',
+  'outputLanguage.refine': 'Director polish',
+  'outputLanguage.zh': 'Chinese',
+  'outputLanguage.en': 'English',
+
+  'locale.label': 'Interface language',
+
+  'bundle.invalid': 'Project bundle failed validation:\n{issues}',
+  'bundle.unknownFormat': 'Unrecognised file format; this is not a project bundle',
+  'bundle.newerVersion': 'Project bundle version v{version} is newer than the supported v{supported}. Please update the app',
+  'bundle.missingMigration': 'No migration for v{version}',
+  'bundle.invalidJson': 'The file is not valid JSON',
+  'bundle.mediaDownload': 'Media download failed ({status})',
+
+  'videos.title': 'Video library',
+  'videos.filterProject': 'This project',
+  'videos.filterAll': 'All',
+  'videos.empty': 'No rendered videos yet',
+  'videos.setLabel': 'Set {set}',
+  'videos.shotLabel': 'Shot {shot}',
+  'videos.meta': '{engine} · {resolution} · {aspect} · {duration}s · {size}',
+  'videos.prompt': 'Prompt',
+  'videos.download': 'Download',
+  'videos.delete': 'Delete',
+  'videos.confirmDelete': 'Delete this video from the library? Projects using it fall back to the original remote link, which may have expired.',
+  'videos.usage': '{count} videos · {size}',
+  'videos.downloadFailed': 'Video download failed ({status})',
+
+  'history.open': 'Versions {count}',
+  'history.title': 'Set {set} version history',
+  'history.empty': 'No versions yet',
+  'history.pickHint': 'Pick a base and a compare version to see a line-by-line diff',
+  'history.source.generated': 'Generated',
+  'history.source.regenerated': 'Set regenerated',
+  'history.source.shot': 'Shot regenerated',
+  'history.source.edited': 'Manual edit',
+  'history.source.refined': 'Refined',
+  'history.source.reverted': 'Reverted',
+  'history.current': 'Current',
+  'history.usedByGrid': 'Grid',
+  'history.usedByVideo': 'Video',
+  'history.base': 'Base',
+  'history.compare': 'Compare',
+  'history.revert': 'Revert to this version',
+  'history.confirmRevert': 'Revert to {version}? The current content stays in the version history.',
+  'history.script': 'Script',
+  'history.refined': 'Director prompt',
+  'history.noChanges': 'No differences',
+  'provenance.title': 'Provenance',
+  'provenance.version': 'Prompt {version}',
+  'provenance.versionMissing': 'Prompt version no longer in history',
+  'provenance.showVersion': 'View this version',
+  'provenance.reference.asset': 'Reference: product image',
+  'provenance.reference.grid': 'Reference: storyboard grid',
+  'provenance.reference.panel': 'Reference: frame {frame}',
+  'provenance.reference.none': 'No reference image',
+  'provenance.layout': '{layout} grid',
+  'provenance.redrawn': 'Frames {frames} were redrawn individually afterwards',
+  'provenance.prompt': 'Submitted prompt',
+
+  'takes.gridTakes': 'Grid takes {count}',
+  'takes.videoTakes': 'Video takes {count}',
+  'takes.locked': 'Approved take locked',
+  'takes.lockedHint': 'A take is approved; new renders are added as takes without replacing it',
+  'takes.compare': 'Compare',
+  'takes.compareGridTitle': 'Set {set} grid comparison',
+  'takes.compareVideoTitle': 'Set {set} video comparison',
+  'takes.pickHint': 'Pick takes to compare (up to {max})',
+  'takes.noneSelected': 'Select at least one take',
+  'takes.active': 'Current',
+  'takes.approve': 'Approve',
+  'takes.approved': 'Approved',
+  'takes.reject': 'Reject',
+  'takes.rejected': 'Rejected',
+  'takes.restart': 'Restart',
+  'takes.rating': '{rating} stars',
+  'takes.delete': 'Delete take',
+  'takes.confirmDelete': 'Delete this take? Files in the video library are not affected.',
+
+  'batch.open': 'Batch run',
+  'batch.title': 'Batch pipeline',
+  'batch.sample': 'Download sample manifest',
+  'batch.pickManifest': 'Choose manifest (CSV / JSON)',
+  'batch.pickAssets': 'Add asset files ({count} selected)',
+  'batch.interval': 'Gap between products',
+  'batch.empty': 'Choose a product manifest to start.\nOne product per row: name, brief, asset file names (separated by ;), style, set count, shot count, grid ratio and video settings. Empty columns use the current global settings.',
+  'batch.closeWhileRunning': 'The run continues in the background after closing',
+  'batch.col.product': 'Product',
+  'batch.col.assets': 'Assets',
+  'batch.col.style': 'Style',
+  'batch.col.plan': 'Plan',
+  'batch.col.status': 'Status',
+  'batch.col.outputs': 'Outputs',
+  'batch.plan': '{sets} sets × {shots} shots · {grid} grid',
+  'batch.planVideo': '+ videos {resolution} · {aspect} · {duration}s',
+  'batch.status.pending': 'Pending',
+  'batch.status.running': 'Running',
+  'batch.status.done': 'Done',
+  'batch.status.partial': 'Partial',
+  'batch.status.failed': 'Failed',
+  'batch.status.cancelled': 'Cancelled',
+  'batch.stage.ingest': 'Ingesting assets',
+  'batch.stage.analysis': 'Analysing assets',
+  'batch.stage.profile': 'Building profile',
+  'batch.stage.storyboards': 'Writing storyboards',
+  'batch.stage.grids': 'Rendering grids',
+  'batch.stage.videos': 'Rendering videos',
+  'batch.warnings': '{count} warnings',
+  'batch.outputs': 'Grids {grids}/{sets} · videos {videos}',
+  'batch.openProject': 'Open project',
+  'batch.totals': '{products} products · {sets} sets and grids · {videos} videos',
+  'batch.missingTotal': '{count} asset files not found; those products use the remaining assets or text only',
+  'batch.summary': '{done} done · {partial} partial · {failed} failed · {cancelled} cancelled',
+  'batch.reportCsv': 'Report CSV',
+  'batch.reportJson': 'Report JSON',
+  'batch.start': 'Start batch',
+  'batch.restart': 'Run again',
+  'batch.stop': 'Stop',
+  'batch.invalidManifest': 'Manifest validation failed:\n{issues}',
+  'batch.emptyManifest': 'The manifest contains no products',
+  'batch.invalidJson': 'The manifest is not valid JSON',
+  'batch.unknownManifest': 'Unrecognised manifest: expected an array of products or { "products": [...] }',
+  'batch.missingAssets': 'Assets not found: {files}',
+  'batch.analysisFailed': '{failed}/{total} assets failed analysis',
+  'batch.gridFailed': 'Set {set} grid failed: {error}',
+  'batch.videoFailed': 'Set {set} video failed: {error}',
+  'batch.noGrids': 'No grid image could be rendered',
+  'batch.job.grid': '{product} · set {set} grid',
+  'batch.job.video': '{product} · set {set} video',
+
+  'errors.budget': 'Budget exceeded for this {scope}: limit ${limit}, spent ${spent}, this call is estimated at ${estimate}',
+  'error.action.usage': 'Open usage & budget',
+  'usage.open': 'Usage',
+  'usage.title': 'Usage & cost',
+  'usage.sessionTotal': 'Estimated spend this session',
+  'usage.scope.session': 'session',
+  'usage.scope.project': 'project',
+  'usage.view.session': 'This session',
+  'usage.view.project': 'This project',
+  'usage.view.all': 'All time',
+  'usage.col.calls': 'Calls',
+  'usage.col.tokens': 'Tokens in / out',
+  'usage.col.images': 'Images',
+  'usage.col.videoSeconds': 'Video seconds',
+  'usage.col.cost': 'Est. cost',
+  'usage.byModel': 'By model',
+  'usage.byStep': 'By step',
+  'usage.byProject': 'By project',
+  'usage.recent': 'Recent calls',
+  'usage.empty': 'No calls recorded yet',
+  'usage.noProject': 'No project',
+  'usage.deletedProject': 'Deleted project',
+  'usage.imageCount': '{count} image(s)',
+  'usage.step.analysis': 'Asset analysis',
+  'usage.step.profile': 'Product profile',
+  'usage.step.storyboard': 'Storyboards',
+  'usage.step.refine': 'Prompt refine',
+  'usage.step.grid': 'Grid image',
+  'usage.step.panel': 'Panel redraw',
+  'usage.step.video': 'Video',
+  'usage.step.video-extension': 'Video extension',
+  'usage.budget': 'Budget',
+  'usage.budget.sessionLimit': 'Session cap ($)',
+  'usage.budget.projectLimit': 'Per-project cap ($)',
+  'usage.budget.confirmAbove': 'Confirm steps above ($)',
+  'usage.budget.unlimited': 'No limit',
+  'usage.budget.mode': 'When a cap is exceeded',
+  'usage.budget.warn': 'Warn and continue',
+  'usage.budget.block': 'Block the call',
+  'usage.budget.save': 'Save budget',
+  'usage.estimateNote': 'Costs are estimated from a built-in price table and the usage each call reports. Your bill is authoritative.',
+  'usage.confirmClear': 'Clear all usage records?',
+  'usage.clear': 'Clear records',
+  'usage.estimate': '≈ {cost}',
+  'usage.confirmCost': 'This step is estimated to cost about {cost}. Continue?',
+  'usage.warning': 'Spend for this {scope} ({spent}) plus this call ({estimate}) exceeds the {limit} cap. The call went ahead anyway.',
+  'batch.spent': 'Estimated spend {cost}',
+
+  'bundle.issue.missing': '{path} is missing',
+  'bundle.issue.string': '{path} must be a string',
+  'bundle.issue.array': '{path} must be an array',
+  'bundle.issue.invalid': '{path} has an invalid structure',
+  'bundle.issue.notEmbedded': '{path} media is not embedded',
+  'bundle.issue.invalidShots': '{path} contains invalid shots',
+
+  'ingest.videoTimeout': 'The video did not load within {seconds}s. Convert it to MP4 (H.264) and upload again',
+
+  'doc.setCount': '{count} storyboard sets',
+  'doc.set': 'Set {index}',
+  'doc.references': 'References',
+
+  'ingest.videoDurationUnknown': 'Could not read the video duration. Convert it to MP4 (H.264) and upload again',
+
+  'presets.issue.object': '{path} must be an object',
+  'presets.issue.missing': '{path} is missing',
+  'presets.issue.invalid': '{path} is invalid: {value}',
+  'presets.issue.string': '{path} must be a string',
+  'presets.issue.moodImages': '{path} must be an array of embedded images',
+
+  'batch.issue.missing': '{path}: {field} is missing',
+  'batch.issue.invalid': '{path}: invalid {field} "{value}"',
+  'batch.issue.noProductNameColumn': 'The header row has no productName column',
+  'batch.issue.row': 'Row {row}'
+};
@@ -0,0 +1,511 @@
+/**
+ * 中文界面文案，同时作为文案键的基准：其他语言必须覆盖这里的全部键
+ */
+export const zh = {
+  'common.unknownError': '未知错误',
+  'common.retry': '重试',
+  'common.close': '关闭',
+
+  'review.title': '资产分析审阅',
+  'review.failedCount': '{count} 项分析失败，不参与合成',
+  'review.removed': '已移除',
+  'review.itemLabel': '参考分析 {index}',
+  'review.queued': ' · 排队中',
+  'review.running': ' · 分析中',
+  'review.failed': '分析失败：{error}。可重试，或手动填写描述',
+  'review.manualPlaceholder': '手动描述该资产的结构、细节与运动规律……',
+  'review.reanalyze': '重新分析',
+  'review.synthesize': '基于审阅结果合成产品基因（{usable}/{total}）',
+
+  'profile.field.structure': '产品结构 (Structure)',
+  'profile.field.details': '产品细节 (Details)',
+  'profile.field.audience': '受众群体 (Audience)',
+  'profile.field.scenarios': '使用场景 (Scenarios)',
+  'profile.field.motion': '运动规律 (Motion)',
+  'profile.lock': '锁定',
+  'profile.unlock': '解锁',
+  'profile.source.images': '图像合成',
+  'profile.source.text': '文字生成',
+  'profile.source.hybrid': '图文混合',
+  'profile.title': '产品基因档案',
+  'profile.resynthesize': '重新合成 (保留锁定字段)',
+
+  'panels.title': '分镜帧 (Frames)',
+  'panels.noShot': '此帧没有对应镜头',
+  'panels.regenerate': '重绘此帧',
+  'panels.startVideo': '以此帧起始',
+
+  'shots.title': '导演脚本 (Script)',
+  'shots.tableMode': '镜头表',
+  'shots.textMode': '脚本文本',
+  'shots.instruction': '全局调性 (Instruction)',
+  'shots.camera': '机位 (Camera)',
+  'shots.lighting': '光线 (Lighting)',
+  'shots.description': '画面描述 (Description)',
+  'shots.regenerate': '重新生成该镜头',
+  'shots.moveUp': '上移',
+  'shots.moveDown': '下移',
+  'shots.duplicate': '复制镜头',
+  'shots.insertBelow': '在下方插入',
+  'shots.delete': '删除镜头',
+  'shots.add': '添加镜头',
+
+  'jobs.title': '渲染任务',
+  'jobs.status.queued': '排队中',
+  'jobs.status.running': '运行中',
+  'jobs.status.succeeded': '已完成',
+  'jobs.status.failed': '失败',
+  'jobs.status.cancelled': '已取消',
+  'jobs.maxConcurrency': '最大并发',
+  'jobs.clearFinished': '清除已结束任务',
+  'jobs.empty': '暂无渲染任务',
+  'jobs.cancel': '取消任务',
+  'jobs.message.queued': '排队中...',
+  'jobs.message.running': '运行中...',
+  'jobs.message.interrupted': '已中断',
+  'jobs.message.awaitingResume': '等待恢复轮询...',
+  'jobs.error.cancelled': '任务已取消',
+  'jobs.error.timeout': '任务超时（超过 {seconds} 秒）',
+  'jobs.error.interruptedByReload': '页面刷新导致任务中断',
+
+  'errors.safetyBlocked': '内容被安全策略拦截（{category}）',
+  'errors.empty': '模型返回了空结果',
+  'errors.emptyCandidates': '模型没有返回任何候选结果',
+  'errors.emptyImage': '模型没有返回图像',
+  'errors.emptyVideo': '视频生成任务返回了空结果',
+  'errors.invalidJson': '模型返回的 JSON 无法解析',
+  'errors.schema': '模型输出不符合要求，自动修复失败：\n{issues}',
+  'errors.rateLimit': 'API 调用频率超限或配额已用尽',
+  'errors.auth': 'API Key 无效或权限不足',
+  'errors.server': '模型服务暂时不可用',
+  'errors.timeout': '模型服务响应超时',
+  'errors.indexedDbUnsupported': '当前浏览器不支持 IndexedDB，无法保存项目',
+  'errors.dbOpen': '无法打开本地数据库',
+  'errors.fileRead': '文件读取失败',
+  'errors.noUsableAnalyses': '没有可用的资产分析结果，请先重试失败的资产或手动填写描述',
+  'errors.imageLoad': '图片加载失败',
+  'errors.canvas': 'Canvas 不可用',
+  'errors.projectNotFound': '项目不存在或已被删除',
+  'errors.printWindow': '无法创建打印窗口',
+  'errors.videoMetadata': '视频元数据读取失败',
+  'errors.recorderUnsupported': '当前浏览器不支持视频录制，无法拼接导出',
+  'errors.clipDownload': '片段下载失败 ({status})',
+  'errors.clipLoad': '片段 {index} 加载失败',
+
+  'video.status.start': '启动 [{engine}] 渲染引擎...',
+  'video.status.extending': '正在进行第 {stage}/{rounds} 阶段延展 (每轮 +7s)...',
+  'video.status.resuming': '恢复第 {stage}/{total} 轮渲染任务...',
+  'video.status.initial': '正在进行初始镜头渲染...',
+  'video.status.mock': '[Mock] 正在录制样例视频...',
+
+  'ingest.imageDecodeFailed': '图片解码失败',
+  'ingest.canvasUnavailable': 'Canvas 不可用',
+  'ingest.imageTooLarge': '图片超过 {mb}MB 上限',
+  'ingest.heicUnsupported': '当前浏览器无法解码 HEIC/HEIF，请在手机相册中导出为 JPEG 后再上传',
+  'ingest.imageFormatUnsupported': '无法解码的图片格式（{mimeType}）',
+  'ingest.videoDecodeFailed': '当前浏览器无法解码该视频，请转为 MP4（H.264）后再上传',
+  'ingest.videoSeekFailed': '视频定位失败',
+  'ingest.videoFormatUnsupported': '不支持的视频格式（{mimeType}），请转换为 MP4 或 MOV',
+  'ingest.videoTooLarge': '视频超过 {mb}MB 内联上限，请裁剪或压缩后再上传',
+  'ingest.videoTooLong': '视频时长超过 {seconds} 秒，请裁剪后再上传',
+  'ingest.unknownType': '无法识别的文件类型（{mimeType}）',
+
+  'models.title': '模型配置',
+  'models.provider': '服务提供方 (Provider)',
+  'models.provider.gemini': 'Gemini / Veo (云端)',
+  'models.provider.mock': 'Mock (离线演示)',
+  'models.field.analysisModel': '资产分析',
+  'models.field.profileModel': '基因合成',
+  'models.field.storyboardModel': '分镜策划',
+  'models.field.refineModel': '导演润色',
+  'models.field.imageModel': '宫格出图',
+  'models.field.videoExtensionModel': '视频延展',
+  'models.reset': '恢复默认',
+  'models.save': '保存配置',
+
+  'library.title': '项目库',
+  'library.import': '导入项目包',
+  'library.search': '搜索项目或产品名称',
+  'library.noMatch': '没有匹配的项目',
+  'library.empty': '暂无已保存的项目',
+  'library.meta': '{sets} 套方案 · {size}',
+  'library.restore': '恢复到工作区',
+  'library.export': '导出项目包',
+  'library.rename': '重命名',
+  'library.delete': '删除',
+  'library.confirmDelete': '确定删除项目“{name}”？此操作不可撤销。',
+  'library.usage': '{count} 个项目 · 约 {size}',
+  'library.browserStorage': '浏览器存储 {used} / {quota}',
+
+  'timeline.title': '镜头序列时间线 · {count} 段 · {duration}s',
+  'timeline.stopPreview': '停止预览',
+  'timeline.playAll': '连续预览',
+  'timeline.exportVideo': '导出拼接视频',
+  'timeline.clip': '#{index} · 镜头 {shot} · {duration}s',
+  'timeline.in': '入点',
+  'timeline.out': '出点',
+
+  'angle.front': '正面',
+  'angle.front.hint': '产品正对镜头，完整置于取景框内，背景尽量简洁',
+  'angle.back': '背面',
+  'angle.back.hint': '旋转 180°，保持与正面相同的距离和高度',
+  'angle.side': '侧面',
+  'angle.side.hint': '旋转 90°，展示厚度与侧面轮廓',
+  'angle.top': '俯视',
+  'angle.top.hint': '镜头垂直向下，产品居中',
+  'angle.detail': '细节微距',
+  'angle.detail.hint': '靠近材质、接口或 Logo，对准圆圈对焦',
+  'angle.in-hand': '手持',
+  'angle.in-hand.hint': '手持产品展示真实尺寸与握持方式',
+
+  'camera.title': '引导拍摄',
+  'camera.permissionDenied': '摄像头权限被拒绝，请在浏览器设置中允许访问摄像头',
+  'camera.openFailed': '无法打开摄像头：{error}',
+  'camera.unsupported': '当前浏览器不支持摄像头拍摄',
+  'camera.photoFailed': '拍照失败',
+  'camera.recordUnsupported': '当前浏览器不支持录制短片',
+  'camera.recording': '录制中 {seconds}s',
+  'camera.takePhoto': '拍照',
+  'camera.recordClip': '录制 {seconds}s 短片',
+  'camera.switchCamera': '切换前后摄像头',
+  'camera.checklist': '拍摄清单',
+  'camera.pending': '待拍',
+  'camera.done': '完成拍摄',
+
+  'presets.title': '风格预设',
+  'presets.import': '导入',
+  'presets.exportAll': '导出全部',
+  'presets.new': '新建预设',
+  'presets.builtInHint': '内置 · 点击复制编辑',
+  'presets.export': '导出',
+  'presets.duplicate': '复制',
+  'presets.delete': '删除',
+  'presets.copySuffix': '{name} 副本',
+  'presets.confirmDelete': '确定删除风格预设“{name}”？引用它的方案将回退到内置场景风格。',
+  'presets.emptyEditor': '选择左侧预设进行编辑，或新建一个品牌风格',
+  'presets.name': '名称',
+  'presets.sceneType': '基础场景',
+  'presets.field.sceneDescription': '场景描述',
+  'presets.field.sceneDescription.placeholder': '如：北欧风客厅，浅木色地板，大落地窗',
+  'presets.field.lighting': '光线词汇',
+  'presets.field.lighting.placeholder': '如：清晨侧逆光、柔和漫射、轻微镜头光晕',
+  'presets.field.palette': '色彩方案',
+  'presets.field.palette.placeholder': '如：奶油白 + 雾霾蓝，品牌色 #1A73E8 点缀',
+  'presets.field.props': '道具',
+  'presets.field.props.placeholder': '如：亚麻桌布、陶瓷杯、绿植',
+  'presets.field.banned': '禁用元素',
+  'presets.field.banned.placeholder': '如：竞品 Logo、真人面部、酒精饮品',
+  'presets.field.negativePrompt': '负面提示词',
+  'presets.field.negativePrompt.placeholder': 'e.g. blurry, distorted logo, extra fingers, watermark',
+  'presets.moodImages': '情绪参考图（最多 {max} 张）',
+  'presets.renderDefaults': '默认渲染设置（选用预设时自动应用）',
+  'presets.keepAspect': '画幅不变',
+  'presets.keepResolution': '分辨率不变',
+  'presets.keepEngine': '引擎不变',
+  'presets.keepDuration': '时长不变',
+  'presets.save': '保存预设',
+  'presets.builtInReadOnly': '内置预设不可修改，请先复制',
+  'presets.invalidJson': '文件不是有效的 JSON',
+  'presets.unknownFile': '无法识别的预设文件',
+  'presets.newerVersion': '预设文件版本 v{version} 高于当前应用支持的 v{supported}',
+  'presets.invalidFile': '预设文件校验失败：\n{issues}',
+  'presets.defaultName': '新风格预设',
+
+  'app.tagline': 'Gemini 3 策划与 Veo 渲染协同流水线',
+  'app.autosaved': '已自动保存 {time}',
+  'app.modelSettings': '模型配置',
+  'app.saveProject': '保存项目',
+  'app.renderJobs': '渲染任务',
+  'app.library': '项目库',
+  'app.videoLibrary': '视频库',
+  'app.cloudAuth': '云鉴权',
+  'app.untitled': '未命名产品',
+
+  'error.title': '异常状态报告',
+  'error.dismiss': '确认并返回',
+  'error.action.openJobs': '打开渲染任务',
+  'error.action.modelSettings': '模型配置',
+  'error.action.selectKey': '重新选择 Key',
+  'error.rateLimit.after': '约 {seconds} 秒后',
+  'error.rateLimit.minute': '等待 1 分钟后',
+  'error.rateLimit': 'API 频率限制或配额已用尽，请{wait}重试。\n视频渲染可切换到 Fast 引擎，或在渲染任务面板中降低并发数。',
+  'error.auth': 'API Key 效验失败或权限不足，请重新选择有效的付费项目 Key。',
+  'error.authProxy': '代理服务器上的 API Key 无效或权限不足，请检查服务端 .env.local 中的 GEMINI_API_KEY 后重启服务。',
+  'error.authEnv': 'API Key 无效或权限不足，请检查 .env.local 中的 GEMINI_API_KEY 后重新启动。',
+  'error.safety': '内容被安全策略拦截：{category}\n请修改分镜脚本或调整要求中可能触发拦截的描述（真实人物、品牌标识、敏感场景等）后重试。',
+  'error.empty': '{message}。\n通常是临时现象，直接重试即可；若持续出现，可在模型配置中更换模型。',
+  'error.invalidJson': '模型返回的结构化数据格式错误，请重试。\n若持续出现，可在模型配置中换用更强的模型。',
+  'error.schema': '模型输出不符合要求，自动修复后仍未通过：\n{issues}{more}\n请重试，或在模型配置中换用更强的模型。',
+  'error.schema.more': '\n…另有 {count} 项问题',
+  'error.timeout': '{message}。\n可缩短目标时长后重新提交，或在渲染任务面板中查看其它任务进度。',
+  'error.server': '模型服务暂时不可用（服务器压力或故障），请稍后重试，或切换“渲染引擎”。',
+  'error.rejectedFiles': '以下文件未能导入：\n{files}',
+  'error.productNameRequired': '请输入产品名称',
+  'error.gridRequired': '请先生成分镜大图。',
+  'error.frameNotReady': '该分镜帧尚未就绪。',
+  'error.noReference': '流水线中没有可用的产品图片或视频关键帧。',
+  'error.sequenceReference': '请先生成分镜大图或上传产品图片。',
+
+  'analysis.interrupted': '分析被中断',
+  'analysis.progress': '正在分析 {done}/{total}',
+
+  'job.grid': '方案 {set} · {layout} 分镜预览',
+  'job.panel': '方案 {set} · 重绘第 {frame} 帧',
+  'job.frameVideo': '方案 {set} · 第 {frame} 帧起始视频',
+  'job.setVideo': '方案 {set} · 完整视频',
+  'job.sequenceClip': '方案 {set} · 镜头 {shot}/{total}',
+
+  'sequence.preparing': '准备中...',
+  'sequence.concatenating': '拼接 {done}/{total}',
+
+  'step1.title': '产品核心资产',
+  'step1.keyframes': '{count} 帧',
+  'step1.processing': '处理中...',
+  'step1.addAsset': '添加资产',
+  'step1.guidedCapture': '引导拍摄',
+  'step1.namePlaceholder': '请输入产品名称，如：智能美妆镜',
+  'step1.briefPlaceholder': '（可选）粘贴规格说明或营销简报：尺寸、材质、功能参数、卖点、目标人群……无样品时可仅凭文字生成产品基因',
+  'step1.scan': '启动 Gemini 资产深度扫描',
+  'step1.fromText': '基于文字资料生成产品基因',
+
+  'step2.title': '渲染引擎配置',
+  'step2.engine': '视觉引擎 (Rendering Engine)',
+  'step2.engineFast': 'Veo Fast (推荐)',
+  'step2.engineStandard': 'Veo Standard (高保真)',
+  'step2.setCount': '策划套数',
+  'step2.style': '场景风格',
+  'step2.managePresets': '管理预设',
+  'step2.shotCount': '每套镜头数',
+  'step2.shotOption': '{count} 镜头 · {layout} 宫格',
+  'step2.gridAspect': '宫格画幅',
+  'step2.generate': '生成高精策划方案',
+
+  'step3.title': '已就绪分镜库',
+  'step3.exportHtml': '导出 HTML',
+  'step3.exportPdf': '导出 PDF',
+  'step3.setBadge': '方案 {set}',
+  'step3.setStyleTitle': '本套方案的风格预设',
+  'step3.styleFollowGlobal': '风格：跟随全局（{name}）',
+  'step3.styleOption': '风格：{name}',
+  'step3.regenerateSet': '重生成本套',
+  'step3.refine': 'Gemini 导演润色',
+  'step3.copyScript': '复制脚本',
+  'step3.steeringPlaceholder': '（可选）重生成调整要求，如：把这个镜头改成微距特写',
+  'step3.refined': 'Gemini 导演已增强渲染指令',
+  'step3.renderGrid': '重新渲染 {layout} 预览',
+  'step3.videoFromGrid': '采用预览渲染 (Gemini 指导)',
+  'step3.videoDirect': '直接渲染',
+  'step3.sequence': '逐镜头序列渲染',
+  'step3.extraPlaceholder': '（可选）追加方案的方向，如：更偏户外运动感',
+  'step3.addSets': '追加不重复方案',
+
+  'outputLanguage.title': '输出语言',
+  'outputLanguage.analysis': '资产分析',
+  'outputLanguage.profile': '产品基因',
+  'outputLanguage.storyboard': '分镜脚本',
+  'outputLanguage.refine': '导演润色',
+  'outputLanguage.zh': '中文',
+  'outputLanguage.en': '英文',
+
+  'locale.label': '界面语言',
+
+  'bundle.invalid': '项目包校验失败：\n{issues}',
+  'bundle.unknownFormat': '无法识别的文件格式，不是有效的项目包',
+  'bundle.newerVersion': '项目包版本 v{version} 高于当前应用支持的 v{supported}，请升级应用',
+  'bundle.missingMigration': '缺少 v{version} 的迁移规则',
+  'bundle.invalidJson': '文件不是有效的 JSON',
+  'bundle.mediaDownload': '媒体下载失败 ({status})',
+
+  'videos.title': '视频库',
+  'videos.filterProject': '当前项目',
+  'videos.filterAll': '全部',
+  'videos.empty': '还没有渲染完成的视频',
+  'videos.setLabel': '方案 {set}',
+  'videos.shotLabel': '镜头 {shot}',
+  'videos.meta': '{engine} · {resolution} · {aspect} · {duration}s · {size}',
+  'videos.prompt': '生成提示词',
+  'videos.download': '下载',
+  'videos.delete': '删除',
+  'videos.confirmDelete': '确定从视频库删除这段视频？已引用它的项目将只能使用原远程地址（可能已过期）。',
+  'videos.usage': '共 {count} 段视频 · {size}',
+  'videos.downloadFailed': '视频下载失败 ({status})',
+
+  'history.open': '版本 {count}',
+  'history.title': '方案 {set} 版本历史',
+  'history.empty': '暂无版本记录',
+  'history.pickHint': '选择“基准”与“对比”版本，右侧逐行对照差异',
+  'history.source.generated': '首次生成',
+  'history.source.regenerated': '整套重写',
+  'history.source.shot': '镜头重写',
+  'history.source.edited': '手动编辑',
+  'history.source.refined': '导演润色',
+  'history.source.reverted': '回退',
+  'history.current': '当前',
+  'history.usedByGrid': '宫格图',
+  'history.usedByVideo': '视频',
+  'history.base': '基准',
+  'history.compare': '对比',
+  'history.revert': '回退到此版本',
+  'history.confirmRevert': '回退到 {version}？当前内容仍保留在版本历史中。',
+  'history.script': '分镜脚本',
+  'history.refined': '导演指令',
+  'history.noChanges': '两个版本内容相同',
+  'provenance.title': '生成来源',
+  'provenance.version': '提示词 {version}',
+  'provenance.versionMissing': '提示词版本已不在历史中',
+  'provenance.showVersion': '查看该版本',
+  'provenance.reference.asset': '参考：产品图片',
+  'provenance.reference.grid': '参考：宫格图',
+  'provenance.reference.panel': '参考：第 {frame} 帧',
+  'provenance.reference.none': '无参考图',
+  'provenance.layout': '宫格 {layout}',
+  'provenance.redrawn': '第 {frames} 帧出图后单独重绘过',
+  'provenance.prompt': '提交的提示词',
+
+  'takes.gridTakes': '宫格候选 {count}',
+  'takes.videoTakes': '视频候选 {count}',
+  'takes.locked': '已锁定通过的结果',
+  'takes.lockedHint': '已有通过的结果，新结果只加入候选，不会替换',
+  'takes.compare': '对比',
+  'takes.compareGridTitle': '方案 {set} 宫格图对比',
+  'takes.compareVideoTitle': '方案 {set} 视频对比',
+  'takes.pickHint': '选择要对比的结果（最多 {max} 个）',
+  'takes.noneSelected': '请选择至少一个结果',
+  'takes.active': '当前',
+  'takes.approve': '通过',
+  'takes.approved': '已通过',
+  'takes.reject': '淘汰',
+  'takes.rejected': '已淘汰',
+  'takes.restart': '回到开头',
+  'takes.rating': '{rating} 星',
+  'takes.delete': '删除此结果',
+  'takes.confirmDelete': '删除此结果？视频库中的文件不受影响。',
+
+  'batch.open': '批量生成',
+  'batch.title': '批量流水线',
+  'batch.sample': '下载清单模板',
+  'batch.pickManifest': '选择清单（CSV / JSON）',
+  'batch.pickAssets': '添加素材文件（已选 {count} 个）',
+  'batch.interval': '产品间隔',
+  'batch.empty': '选择一个产品清单开始。\n每个产品一行：名称、简介、素材文件名（用 ; 分隔）、风格、方案数、镜头数、宫格画幅及视频设置，未填写的列取当前全局设置。',
+  'batch.closeWhileRunning': '关闭后批量任务在后台继续运行',
+  'batch.col.product': '产品',
+  'batch.col.assets': '素材',
+  'batch.col.style': '风格',
+  'batch.col.plan': '计划',
+  'batch.col.status': '状态',
+  'batch.col.outputs': '产出',
+  'batch.plan': '{sets} 套 × {shots} 镜 · 宫格 {grid}',
+  'batch.planVideo': '+ 视频 {resolution} · {aspect} · {duration}s',
+  'batch.status.pending': '等待',
+  'batch.status.running': '进行中',
+  'batch.status.done': '完成',
+  'batch.status.partial': '部分完成',
+  'batch.status.failed': '失败',
+  'batch.status.cancelled': '已取消',
+  'batch.stage.ingest': '读取素材',
+  'batch.stage.analysis': '素材分析',
+  'batch.stage.profile': '产品基因',
+  'batch.stage.storyboards': '分镜策划',
+  'batch.stage.grids': '宫格出图',
+  'batch.stage.videos': '视频渲染',
+  'batch.warnings': '{count} 条警告',
+  'batch.outputs': '宫格 {grids}/{sets} · 视频 {videos}',
+  'batch.openProject': '打开项目',
+  'batch.totals': '共 {products} 个产品 · {sets} 套方案与宫格图 · {videos} 条视频',
+  'batch.missingTotal': '{count} 个素材文件未找到，对应产品将只用已有素材或文字资料',
+  'batch.summary': '完成 {done} · 部分完成 {partial} · 失败 {failed} · 取消 {cancelled}',
+  'batch.reportCsv': '报告 CSV',
+  'batch.reportJson': '报告 JSON',
+  'batch.start': '开始批量运行',
+  'batch.restart': '重新运行',
+  'batch.stop': '停止',
+  'batch.invalidManifest': '清单校验失败：\n{issues}',
+  'batch.emptyManifest': '清单中没有产品',
+  'batch.invalidJson': '清单不是有效的 JSON',
+  'batch.unknownManifest': '无法识别的清单格式：需要产品数组或 { "products": [...] }',
+  'batch.missingAssets': '未找到素材：{files}',
+  'batch.analysisFailed': '{failed}/{total} 个素材分析失败',
+  'batch.gridFailed': '方案 {set} 宫格图失败：{error}',
+  'batch.videoFailed': '方案 {set} 视频失败：{error}',
+  'batch.noGrids': '所有宫格图都未能生成',
+  'batch.job.grid': '{product} · 方案 {set} 宫格图',
+  'batch.job.video': '{product} · 方案 {set} 视频',
+
+  'errors.budget': '已超出{scope}预算：上限 ${limit}，已花费 ${spent}，本次调用估算 ${estimate}',
+  'error.action.usage': '查看用量与预算',
+  'usage.open': '用量',
+  'usage.title': '用量与费用',
+  'usage.sessionTotal': '本次会话的估算花费',
+  'usage.scope.session': '本次会话',
+  'usage.scope.project': '当前项目',
+  'usage.view.session': '本次会话',
+  'usage.view.project': '当前项目',
+  'usage.view.all': '全部',
+  'usage.col.calls': '调用次数',
+  'usage.col.tokens': 'Token 输入 / 输出',
+  'usage.col.images': '图片',
+  'usage.col.videoSeconds': '视频秒数',
+  'usage.col.cost': '估算费用',
+  'usage.byModel': '按模型',
+  'usage.byStep': '按步骤',
+  'usage.byProject': '按项目',
+  'usage.recent': '最近调用',
+  'usage.empty': '暂无调用记录',
+  'usage.noProject': '未归属项目',
+  'usage.deletedProject': '已删除的项目',
+  'usage.imageCount': '{count} 张图',
+  'usage.step.analysis': '素材分析',
+  'usage.step.profile': '产品基因',
+  'usage.step.storyboard': '分镜策划',
+  'usage.step.refine': '导演润色',
+  'usage.step.grid': '宫格图',
+  'usage.step.panel': '单帧重绘',
+  'usage.step.video': '视频首段',
+  'usage.step.video-extension': '视频延展',
+  'usage.budget': '预算',
+  'usage.budget.sessionLimit': '会话上限（$）',
+  'usage.budget.projectLimit': '单项目上限（$）',
+  'usage.budget.confirmAbove': '单步超过此金额时确认（$）',
+  'usage.budget.unlimited': '不限',
+  'usage.budget.mode': '超出上限时',
+  'usage.budget.warn': '提醒后继续',
+  'usage.budget.block': '拦截调用',
+  'usage.budget.save': '保存预算',
+  'usage.estimateNote': '费用按内置价目表与调用返回的用量估算，仅供参考，以账单为准。',
+  'usage.confirmClear': '确定清空全部用量记录吗？',
+  'usage.clear': '清空记录',
+  'usage.estimate': '≈ {cost}',
+  'usage.confirmCost': '这一步预计花费约 {cost}，继续吗？',
+  'usage.warning': '{scope}花费 {spent} 加上本次估算 {estimate} 将超出上限 {limit}，调用已照常发出。',
+  'batch.spent': '实际估算花费 {cost}',
+
+  'bundle.issue.missing': '{path} 缺失',
+  'bundle.issue.string': '{path} 必须为字符串',
+  'bundle.issue.array': '{path} 必须为数组',
+  'bundle.issue.invalid': '{path} 结构无效',
+  'bundle.issue.notEmbedded': '{path} 媒体未内嵌',
+  'bundle.issue.invalidShots': '{path} 含无效镜头',
+
+  'ingest.videoTimeout': '视频在 {seconds} 秒内未能加载，请转为 MP4（H.264）后再上传',
+
+  'doc.setCount': '{count} 套分镜方案',
+  'doc.set': '方案 {index}',
+  'doc.references': '参考资产 (References)',
+
+  'ingest.videoDurationUnknown': '无法读取视频时长，请转为 MP4（H.264）后再上传',
+
+  'presets.issue.object': '{path} 必须是对象',
+  'presets.issue.missing': '{path} 缺失',
+  'presets.issue.invalid': '{path} 无效：{value}',
+  'presets.issue.string': '{path} 必须为字符串',
+  'presets.issue.moodImages': '{path} 必须为内嵌图片数组',
+
+  'batch.issue.missing': '{path}：缺少 {field}',
+  'batch.issue.invalid': '{path}：{field} 无效（{value}）',
+  'batch.issue.noProductNameColumn': '表头缺少 productName 列',
+  'batch.issue.row': '第 {row} 行'
+};
+
+export type MessageKey = keyof typeof zh;
+export type Messages = Record<MessageKey, string>;
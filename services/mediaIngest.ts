@@ -0,0 +1,240 @@
+import { MediaAsset } from "../types";
+import { blobToDataUrl } from "./download";
+import { t } from "./i18n";
+
+/** Gemini 内联请求的总体积上限 */
+const INLINE_REQUEST_BYTES = 20 * 1024 * 1024;
+// 预留给提示词、其它参考图等请求内容
+const REQUEST_OVERHEAD_BYTES = 1024 * 1024;
+
+export const MEDIA_LIMITS = {
+  /** 原始图片上限，超过则直接拒绝（解码大图会占满内存） */
+  maxImageBytes: 40 * 1024 * 1024,
+  /** 图片最长边，超过则等比缩小 */
+  maxImageDimension: 2048,
+  /** 视频以 base64 内联发送（体积增加约 1/3），按编码后的大小受单次请求体积限制，约 14MB */
+  maxVideoBytes: Math.floor((INLINE_REQUEST_BYTES - REQUEST_OVERHEAD_BYTES) * 3 / 4),
+  maxVideoSeconds: 120,
+  keyframeCount: 3,
+  keyframeDimension: 1024
+};
+
+/** 可直接发送给模型、且浏览器能显示的格式，其余图片统一转码 */
+const PASSTHROUGH_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/quicktime', 'video/webm', 'video/mpeg', 'video/3gpp'];
+
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+export interface IngestResult {
+  assets: MediaAsset[];
+  rejected: RejectedFile[];
+}
+
+// 明确拒收的文件（区别于解码等意外错误）
+class IngestRejection extends Error {}
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'heif'];
+
+/**
+ * 按文件头魔数识别真实格式，扩展名和浏览器给出的 file.type 都不可靠
+ */
+export const detectMimeType = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'AVI ') return 'video/x-msvideo';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'video/webm';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+    if (HEIF_BRANDS.includes(brand)) return 'image/heif';
+    if (brand === 'qt  ') return 'video/quicktime';
+    if (brand.startsWith('3g')) return 'video/3gpp';
+    return 'video/mp4';
+  }
+  if (['moov', 'mdat', 'wide', 'free'].includes(ascii(4, 8))) return 'video/quicktime';
+  return file.type || 'application/octet-stream';
+};
+
+export const getDataUrlMimeType = (dataUrl: string, fallback = 'image/png') =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || fallback;
+
+const decodeImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new window.Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error(t('ingest.imageDecodeFailed'))); };
+    img.src = url;
+  });
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number) => {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('ingest.canvasUnavailable'));
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const ingestImage = async (file: File, mimeType: string): Promise<Pick<MediaAsset, 'data' | 'mimeType'>> => {
+  if (file.size > MEDIA_LIMITS.maxImageBytes) {
+    throw new IngestRejection(t('ingest.imageTooLarge', { mb: Math.round(MEDIA_LIMITS.maxImageBytes / 1024 / 1024) }));
+  }
+  let img: HTMLImageElement;
+  try {
+    img = await decodeImage(file);
+  } catch (e) {
+    // 未引入 HEIC 解码库：只有能原生解码 HEIC 的浏览器（Safari）可以上传，其余浏览器明确拒收并提示转 JPEG
+    throw new IngestRejection(mimeType === 'image/heic' || mimeType === 'image/heif'
+      ? t('ingest.heicUnsupported')
+      : t('ingest.imageFormatUnsupported', { mimeType }));
+  }
+  const oversized = Math.max(img.naturalWidth, img.naturalHeight) > MEDIA_LIMITS.maxImageDimension;
+  if (PASSTHROUGH_IMAGE_TYPES.includes(mimeType) && !oversized) {
+    return { data: await blobToDataUrl(new Blob([file], { type: mimeType })), mimeType };
+  }
+  // PNG 保留透明通道，其余格式统一转 JPEG
+  const outputType = mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  const canvas = drawScaled(img, img.naturalWidth, img.naturalHeight, MEDIA_LIMITS.maxImageDimension);
+  return { data: canvas.toDataURL(outputType, 0.9), mimeType: outputType };
+};
+
+// 部分编码（如 HEVC）在不支持的浏览器里既不报错也不触发事件，超时后按无法解码拒收
+const VIDEO_EVENT_TIMEOUT = 15000;
+
+const waitForVideoEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked', failure: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onDone);
+      video.removeEventListener('error', onError);
+    };
+    const onDone = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new IngestRejection(failure)); };
+    const onTimeout = () => { cleanup(); reject(new IngestRejection(t('ingest.videoTimeout', { seconds: VIDEO_EVENT_TIMEOUT / 1000 }))); };
+    const timer = setTimeout(onTimeout, VIDEO_EVENT_TIMEOUT);
+    video.addEventListener(event, onDone);
+    video.addEventListener('error', onError);
+  });
+
+const loadVideo = async (url: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  const loaded = waitForVideoEvent(video, 'loadeddata', t('ingest.videoDecodeFailed'));
+  video.src = url;
+  await loaded;
+  return video;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  const seeked = waitForVideoEvent(video, 'seeked', t('ingest.videoSeekFailed'));
+  video.currentTime = time;
+  return seeked;
+};
+
+/**
+ * 读取视频时长；MediaRecorder 录制的 WebM 在元数据里没有时长，需先跳到末尾让浏览器算出来
+ */
+const readDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (!Number.isFinite(video.duration)) await seekTo(video, Number.MAX_SAFE_INTEGER);
+  if (!Number.isFinite(video.duration) || video.duration <= 0) throw new IngestRejection(t('ingest.videoDurationUnknown'));
+  return video.duration;
+};
+
+const captureKeyframes = async (video: HTMLVideoElement, duration: number, count: number): Promise<string[]> => {
+  const keyframes: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const ratio = count === 1 ? 0.5 : 0.1 + (0.8 * i) / (count - 1);
+    await seekTo(video, duration * ratio);
+    const canvas = drawScaled(video, video.videoWidth, video.videoHeight, MEDIA_LIMITS.keyframeDimension);
+    keyframes.push(canvas.toDataURL('image/jpeg', 0.85));
+  }
+  return keyframes;
+};
+
+/**
+ * 在视频 10%-90% 区间均匀截取若干关键帧（JPEG DataURL），用作视觉参考
+ */
+export const extractKeyframes = async (blob: Blob, count = MEDIA_LIMITS.keyframeCount): Promise<{ keyframes: string[], duration: number }> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const video = await loadVideo(url);
+    const duration = await readDuration(video);
+    return { keyframes: await captureKeyframes(video, duration, count), duration };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const ingestVideo = async (file: File, mimeType: string): Promise<Pick<MediaAsset, 'data' | 'mimeType' | 'keyframes'>> => {
+  if (!SUPPORTED_VIDEO_TYPES.includes(mimeType)) {
+    throw new IngestRejection(t('ingest.videoFormatUnsupported', { mimeType }));
+  }
+  if (file.size > MEDIA_LIMITS.maxVideoBytes) {
+    throw new IngestRejection(t('ingest.videoTooLarge', { mb: Math.round(MEDIA_LIMITS.maxVideoBytes / 1024 / 1024) }));
+  }
+  // 时长检查独立于关键帧：读不到时长直接拒收，关键帧提取失败则只是没有关键帧
+  const url = URL.createObjectURL(file);
+  let keyframes: string[] = [];
+  try {
+    const video = await loadVideo(url);
+    const duration = await readDuration(video);
+    if (duration > MEDIA_LIMITS.maxVideoSeconds) {
+      throw new IngestRejection(t('ingest.videoTooLong', { seconds: MEDIA_LIMITS.maxVideoSeconds }));
+    }
+    try {
+      keyframes = await captureKeyframes(video, duration, MEDIA_LIMITS.keyframeCount);
+    } catch (e) {
+      // 画布不可用等意外错误不影响上传
+      console.warn(`无法从 ${file.name} 提取关键帧`, e);
+    }
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return { data: await blobToDataUrl(new Blob([file], { type: mimeType })), mimeType, keyframes };
+};
+
+/**
+ * 上传入口：识别格式、转码/缩放图片、限制体积、提取视频关键帧。
+ * 单个文件失败不影响其它文件，失败原因汇总在 rejected 中
+ */
+export const ingestFiles = async (files: File[]): Promise<IngestResult> => {
+  const assets: MediaAsset[] = [];
+  const rejected: RejectedFile[] = [];
+  for (const file of files) {
+    try {
+      const mimeType = await detectMimeType(file);
+      const base = { id: Math.random().toString(36).substr(2, 9), name: file.name };
+      if (mimeType.startsWith('image/')) {
+        assets.push({ ...base, type: 'image', ...(await ingestImage(file, mimeType)) });
+      } else if (mimeType.startsWith('video/')) {
+        assets.push({ ...base, type: 'video', ...(await ingestVideo(file, mimeType)) });
+      } else {
+        rejected.push({ name: file.name, reason: t('ingest.unknownType', { mimeType }) });
+      }
+    } catch (e: any) {
+      rejected.push({ name: file.name, reason: e?.message || String(e) });
+    }
+  }
+  return { assets, rejected };
+};
+
+/**
+ * 选取视觉参考：优先产品图片，没有图片时退回到视频关键帧
+ */
+export const getReferenceImage = (assets: MediaAsset[]): string | undefined =>
+  assets.find(a => a.type === 'image')?.data || assets.find(a => a.keyframes?.length)?.keyframes?.[0];
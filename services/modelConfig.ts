@@ -0,0 +1,76 @@
+export type ProviderId = 'gemini' | 'mock';
+
+/**
+ * 每个流水线步骤使用的模型。视频主引擎由界面上的 VideoEngine 选择，
+ * 这里只配置延展续写所用的模型。
+ */
+export interface ModelConfig {
+  provider: ProviderId;
+  analysisModel: string;
+  profileModel: string;
+  storyboardModel: string;
+  refineModel: string;
+  imageModel: string;
+  videoExtensionModel: string;
+}
+
+const STORAGE_KEY = 'model_config';
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  provider: 'gemini',
+  analysisModel: 'gemini-3-flash-preview',
+  profileModel: 'gemini-3-flash-preview',
+  storyboardModel: 'gemini-3-pro-preview',
+  refineModel: 'gemini-3-pro-preview',
+  imageModel: 'gemini-2.5-flash-image',
+  videoExtensionModel: 'veo-3.1-generate-preview'
+};
+
+/**
+ * 构建期通过 .env.local 注入的配置（见 vite.config.ts），未设置的项为空字符串
+ */
+const readEnvConfig = (): Partial<ModelConfig> => {
+  const env: Partial<Record<keyof ModelConfig, string | undefined>> = {
+    provider: process.env.MODEL_PROVIDER,
+    analysisModel: process.env.MODEL_ANALYSIS,
+    profileModel: process.env.MODEL_PROFILE,
+    storyboardModel: process.env.MODEL_STORYBOARD,
+    refineModel: process.env.MODEL_REFINE,
+    imageModel: process.env.MODEL_IMAGE,
+    videoExtensionModel: process.env.MODEL_VIDEO_EXTENSION
+  };
+  const result: Partial<ModelConfig> = {};
+  (Object.keys(env) as (keyof ModelConfig)[]).forEach(key => {
+    const value = env[key];
+    if (value) (result as Record<string, string>)[key] = value;
+  });
+  return result;
+};
+
+const readStoredConfig = (): Partial<ModelConfig> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return {};
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+/**
+ * 优先级：localStorage 覆盖 > 环境变量 > 默认值
+ */
+export const getModelConfig = (): ModelConfig => ({
+  ...DEFAULT_MODEL_CONFIG,
+  ...readEnvConfig(),
+  ...readStoredConfig()
+});
+
+export const saveModelConfig = (overrides: Partial<ModelConfig>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStoredConfig(), ...overrides }));
+};
+
+export const resetModelConfig = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
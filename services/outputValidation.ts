@@ -0,0 +1,64 @@
+import { ProductAnalysis, ProductPrompt, ShotDetail } from "../types";
+import { PROFILE_FIELDS } from "./profile";
+
+/** 未指定镜头数时（含旧项目）每套分镜的镜头数，对应 3x3 宫格 */
+export const DEFAULT_SHOT_COUNT = 9;
+
+const isFilled = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * 校验模型输出的产品基因档案，返回问题列表（为空表示通过）
+ */
+export const validateProfile = (data: any): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return ["输出必须是包含 structure/details/audience/scenarios/motion 的 JSON 对象"];
+  return PROFILE_FIELDS
+    .filter(field => !isFilled(data[field]))
+    .map(field => `字段 ${field} 缺失或为空字符串`);
+};
+
+export const validateShot = (data: any, path = '镜头'): string[] => {
+  if (!data || typeof data !== 'object') return [`${path} 必须是对象`];
+  return (['cameraAngle', 'lighting', 'description'] as (keyof ShotDetail)[])
+    .filter(field => !isFilled(data[field]))
+    .map(field => `${path}.${field} 缺失或为空字符串`);
+};
+
+export const validatePrompt = (data: any, shotCount = DEFAULT_SHOT_COUNT, path = '方案'): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return [`${path} 必须是包含 instruction 与 shots 的对象`];
+  const issues: string[] = [];
+  if (!isFilled(data.instruction)) issues.push(`${path}.instruction 缺失或为空字符串`);
+  if (!Array.isArray(data.shots)) return [...issues, `${path}.shots 必须是数组`];
+  if (data.shots.length !== shotCount) issues.push(`${path}.shots 应包含 ${shotCount} 个镜头，实际为 ${data.shots.length} 个`);
+  data.shots.forEach((shot: any, i: number) => issues.push(...validateShot(shot, `${path}.shots[${i}]`)));
+  return issues;
+};
+
+export const validatePrompts = (data: any, quantity: number, shotCount = DEFAULT_SHOT_COUNT): string[] => {
+  if (!Array.isArray(data)) return ["输出必须是分镜方案数组"];
+  const issues: string[] = [];
+  if (data.length !== quantity) issues.push(`应输出 ${quantity} 套方案，实际为 ${data.length} 套`);
+  data.forEach((prompt: any, i: number) => issues.push(...validatePrompt(prompt, shotCount, `方案[${i}]`)));
+  return issues;
+};
+
+/**
+ * 去掉字符串两端空白，保证进入界面的数据干净
+ */
+export const normalizeProfile = (data: any): ProductAnalysis['globalProfile'] => ({
+  structure: String(data.structure).trim(),
+  details: String(data.details).trim(),
+  audience: String(data.audience).trim(),
+  scenarios: String(data.scenarios).trim(),
+  motion: String(data.motion).trim()
+});
+
+export const normalizeShot = (data: any): ShotDetail => ({
+  cameraAngle: String(data.cameraAngle).trim(),
+  lighting: String(data.lighting).trim(),
+  description: String(data.description).trim()
+});
+
+export const normalizePrompt = (data: any): ProductPrompt => ({
+  instruction: String(data.instruction).trim(),
+  shots: data.shots.map(normalizeShot)
+});
@@ -0,0 +1,27 @@
+import { ProductAnalysis, ProfileField } from "../types";
+
+export const PROFILE_FIELDS: ProfileField[] = ['structure', 'details', 'audience', 'scenarios', 'motion'];
+
+export const EMPTY_PROFILE: ProductAnalysis['globalProfile'] = {
+  structure: '',
+  details: '',
+  audience: '',
+  scenarios: '',
+  motion: ''
+};
+
+export const isProfileReady = (profile: ProductAnalysis['globalProfile']): boolean =>
+  PROFILE_FIELDS.some(field => (profile[field] || '').trim().length > 0);
+
+/**
+ * 用新合成的基因覆盖当前档案，但保留被锁定的字段
+ */
+export const mergeLockedFields = (
+  current: ProductAnalysis['globalProfile'],
+  next: ProductAnalysis['globalProfile'],
+  lockedFields: ProfileField[] = []
+): ProductAnalysis['globalProfile'] => {
+  const merged = { ...next };
+  lockedFields.forEach(field => { merged[field] = current[field]; });
+  return merged;
+};
@@ -0,0 +1,241 @@
+import { ProjectRecord, ProjectSession, RenderTake, TimelineClip } from "../types";
+import { DEFAULT_RENDER_SETTINGS, createProjectId } from "./projectStore";
+import { blobToDataUrl, downloadBlob, sanitizeFilename } from "./download";
+import { getReferenceImage } from "./mediaIngest";
+import { t } from "./i18n";
+import { resolveSessionVideos } from "./videoLibrary";
+
+export const BUNDLE_FORMAT = 'storyboard-pro-bundle';
+/**
+ * 会话结构每变化一次加一：2 风格预设，3 镜头数与宫格画幅，4 分阶段输出语言，5 视频库引用，6 版本历史与来源，7 多次结果
+ */
+export const BUNDLE_SCHEMA_VERSION = 7;
+
+/**
+ * 可移植项目包：单个 JSON 文件，所有媒体（资产、宫格图、视频）均以 DataURL 内嵌
+ */
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  project: {
+    name: string;
+    createdAt: number;
+    session: ProjectSession;
+  };
+}
+
+export class BundleValidationError extends Error {
+  issues: string[];
+  constructor(issues: string[]) {
+    super(t('bundle.invalid', { issues: issues.join('\n') }));
+    this.name = 'BundleValidationError';
+    this.issues = issues;
+  }
+}
+
+type Migration = (bundle: any) => any;
+
+// 只补齐缺失字段：早期应用导出的包虽然都标为 v1，但可能已带有后续版本的字段
+const upgradeSession = (to: number, update: (session: any) => any): Migration => bundle => ({
+  ...bundle,
+  schemaVersion: to,
+  project: { ...bundle.project, session: update(bundle.project?.session || {}) }
+});
+
+/**
+ * 迁移表：key 为源版本号，函数把该版本升级到下一版本。
+ * 版本 0 指旧版 localStorage 历史记录（HistoryRecord）的单条 JSON。
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  0: (legacy: any) => ({
+    format: BUNDLE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: Date.now(),
+    project: {
+      name: legacy.productName || t('app.untitled'),
+      createdAt: legacy.timestamp || Date.now(),
+      session: {
+        productName: legacy.productName || '',
+        productBrief: '',
+        assets: legacy.referenceImage ? [{ id: `${legacy.id || 'legacy'}-ref`, data: legacy.referenceImage, type: 'image' }] : [],
+        analysis: legacy.analysis || null,
+        prompts: legacy.prompts || [],
+        refinedPrompts: {},
+        gridImages: {},
+        videoUrls: {},
+        settings: { ...DEFAULT_RENDER_SETTINGS }
+      }
+    }
+  }),
+  1: upgradeSession(2, session => ({ ...session, setStyles: session.setStyles || {}, stylePresets: session.stylePresets || [] })),
+  // 引入可配置镜头数之前固定为 3x3、16:9
+  2: upgradeSession(3, session => ({ ...session, settings: { shotCount: 9, gridAspectRatio: '16:9', ...session.settings } })),
+  // 引入分阶段输出语言之前，分析与建档固定中文，导演指令固定英文
+  3: upgradeSession(4, session => ({
+    ...session,
+    settings: { ...session.settings, outputLanguages: session.settings?.outputLanguages || { analysis: 'zh', profile: 'zh', storyboard: session.settings?.language || 'zh', refine: 'en' } }
+  })),
+  4: upgradeSession(5, session => ({ ...session, videoIds: session.videoIds || {} })),
+  5: upgradeSession(6, session => ({ ...session, promptHistory: session.promptHistory || {}, gridProvenance: session.gridProvenance || {}, videoProvenance: session.videoProvenance || {} })),
+  // takes 缺省时由打开项目时按现有宫格图与视频补齐
+  6: upgradeSession(7, session => session)
+};
+
+const detectVersion = (raw: any): number => {
+  if (raw?.format === BUNDLE_FORMAT) return Number(raw.schemaVersion);
+  if (raw && Array.isArray(raw.prompts) && raw.analysis) return 0;
+  return NaN;
+};
+
+const migrateBundle = (raw: any): any => {
+  let version = detectVersion(raw);
+  if (Number.isNaN(version)) throw new BundleValidationError([t('bundle.unknownFormat')]);
+  if (version > BUNDLE_SCHEMA_VERSION) throw new BundleValidationError([t('bundle.newerVersion', { version, supported: BUNDLE_SCHEMA_VERSION })]);
+  let bundle = raw;
+  while (version < BUNDLE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BundleValidationError([t('bundle.missingMigration', { version })]);
+    bundle = migrate(bundle);
+    version = bundle.schemaVersion;
+  }
+  return bundle;
+};
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isRecordOf = (v: unknown, check: (item: unknown) => boolean) =>
+  !!v && typeof v === 'object' && !Array.isArray(v) && Object.values(v as object).every(check);
+
+/**
+ * 校验当前版本项目包的结构，返回所有问题而不是遇到第一个就停止
+ */
+export const validateBundle = (bundle: any): string[] => {
+  const issues: string[] = [];
+  const issue = (key: 'missing' | 'string' | 'array' | 'invalid' | 'notEmbedded' | 'invalidShots', path: string) => issues.push(t(`bundle.issue.${key}`, { path }));
+  const session = bundle?.project?.session;
+  if (!isString(bundle?.project?.name)) issue('missing', 'project.name');
+  if (!session || typeof session !== 'object') {
+    issue('missing', 'project.session');
+    return issues;
+  }
+
+  if (!isString(session.productName)) issue('string', 'session.productName');
+  if (!Array.isArray(session.assets)) {
+    issue('array', 'session.assets');
+  } else {
+    session.assets.forEach((a: any, i: number) => {
+      if (!isString(a?.id) || !isString(a?.data) || (a?.type !== 'image' && a?.type !== 'video')) issue('invalid', `session.assets[${i}]`);
+      else if (!a.data.startsWith('data:')) issue('notEmbedded', `session.assets[${i}]`);
+    });
+  }
+  if (session.analysis !== null) {
+    const profile = session.analysis?.globalProfile;
+    if (!profile || !['structure', 'details', 'audience', 'scenarios', 'motion'].every(k => isString(profile[k]))) issue('invalid', 'session.analysis.globalProfile');
+    if (!Array.isArray(session.analysis?.individualAnalyses)) issue('array', 'session.analysis.individualAnalyses');
+  }
+  if (!Array.isArray(session.prompts)) {
+    issue('array', 'session.prompts');
+  } else {
+    session.prompts.forEach((p: any, i: number) => {
+      if (!isString(p?.instruction) || !Array.isArray(p?.shots)) issue('invalid', `session.prompts[${i}]`);
+      else if (!p.shots.every((s: any) => isString(s?.cameraAngle) && isString(s?.lighting) && isString(s?.description))) issue('invalidShots', `session.prompts[${i}].shots`);
+    });
+  }
+  if (!isRecordOf(session.refinedPrompts, isString)) issue('invalid', 'session.refinedPrompts');
+  if (session.promptHistory !== undefined && !isRecordOf(session.promptHistory, versions => Array.isArray(versions) && versions.every((v: any) => isString(v?.id) && isString(v?.prompt?.instruction) && Array.isArray(v?.prompt?.shots)))) issue('invalid', 'session.promptHistory');
+  if (!isRecordOf(session.gridImages, isString)) issue('invalid', 'session.gridImages');
+  if (!isRecordOf(session.videoUrls, isString)) issue('invalid', 'session.videoUrls');
+  if (session.sequences !== undefined && !isRecordOf(session.sequences, clips => Array.isArray(clips) && clips.every((c: any) => isString(c?.url) && typeof c?.trimStart === 'number' && typeof c?.trimEnd === 'number'))) issue('invalid', 'session.sequences');
+  if (session.takes !== undefined && !isRecordOf(session.takes, takes => Array.isArray(takes) && takes.every((take: any) => isString(take?.id) && isString(take?.url) && (take?.kind === 'grid' || take?.kind === 'video')))) issue('invalid', 'session.takes');
+  if (!session.settings || typeof session.settings !== 'object') issue('missing', 'session.settings');
+  return issues;
+};
+
+/**
+ * 解析、迁移并校验导入的项目包，返回可直接写入项目库的新记录
+ */
+export const parseProjectBundle = (text: string): ProjectRecord => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new BundleValidationError([t('bundle.invalidJson')]);
+  }
+  const bundle = migrateBundle(raw);
+  const issues = validateBundle(bundle);
+  if (issues.length > 0) throw new BundleValidationError(issues);
+
+  const source: ProjectSession = bundle.project.session;
+  // 视频库条目 ID 只在导出方的浏览器里有效，媒体本身已内嵌在地址中
+  const session: ProjectSession = {
+    ...source,
+    productBrief: source.productBrief || '',
+    videoIds: {},
+    sequences: source.sequences && Object.fromEntries(Object.entries(source.sequences).map(([key, clips]) => [key, clips.map(({ videoId, ...clip }) => clip)])),
+    takes: source.takes && Object.fromEntries(Object.entries(source.takes).map(([key, list]) => [key, list.map(({ videoId, ...take }) => take)])),
+    settings: { ...DEFAULT_RENDER_SETTINGS, ...source.settings }
+  };
+  const now = Date.now();
+  return {
+    id: createProjectId(),
+    name: bundle.project.name,
+    createdAt: bundle.project.createdAt || now,
+    updatedAt: now,
+    thumbnail: getReferenceImage(session.assets) || '',
+    session
+  };
+};
+
+/**
+ * 远程或 Blob URL 的媒体下载后内嵌为 DataURL；已是 DataURL 的保持不变
+ */
+const embedMedia = async (url: string): Promise<string> => {
+  if (url.startsWith('data:')) return url;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(t('bundle.mediaDownload', { status: response.status }));
+  return blobToDataUrl(await response.blob());
+};
+
+const embedRecord = async (media: Record<number, string>): Promise<Record<number, string>> => {
+  const entries = await Promise.all(Object.entries(media).map(async ([key, url]) => [key, await embedMedia(url)] as const));
+  return Object.fromEntries(entries);
+};
+
+const embedSequences = async (sequences: Record<number, TimelineClip[]> = {}): Promise<Record<number, TimelineClip[]>> => {
+  const entries = await Promise.all(Object.entries(sequences).map(async ([key, clips]) =>
+    [key, await Promise.all(clips.map(async clip => ({ ...clip, url: await embedMedia(clip.url) })))] as const));
+  return Object.fromEntries(entries);
+};
+
+const embedTakes = async (takes: Record<number, RenderTake[]> = {}): Promise<Record<number, RenderTake[]>> => {
+  const entries = await Promise.all(Object.entries(takes).map(async ([key, list]) =>
+    [key, await Promise.all(list.map(async take => ({ ...take, url: await embedMedia(take.url) })))] as const));
+  return Object.fromEntries(entries);
+};
+
+export const buildProjectBundle = async (record: ProjectRecord): Promise<ProjectBundle> => {
+  // 保存的视频地址可能已过期，优先从本地视频库读取
+  const session = await resolveSessionVideos(record.session);
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      name: record.name,
+      createdAt: record.createdAt,
+      session: {
+        ...session,
+        gridImages: await embedRecord(session.gridImages),
+        videoUrls: await embedRecord(session.videoUrls),
+        sequences: await embedSequences(session.sequences),
+        takes: await embedTakes(session.takes)
+      }
+    }
+  };
+};
+
+export const exportProjectBundle = async (record: ProjectRecord): Promise<void> => {
+  const bundle = await buildProjectBundle(record);
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  downloadBlob(blob, `${sanitizeFilename(record.name)}.storyboard.json`);
+};
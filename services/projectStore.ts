@@ -0,0 +1,115 @@
+import { HistoryRecord, ProjectRecord, ProjectSession, RenderSettings } from "../types";
+import { STORES, getAll, getOne, putOne, deleteOne } from "./db";
+import { t } from "./i18n";
+
+const LEGACY_HISTORY_KEY = 'storyboard_history';
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+  promptCount: 3,
+  language: 'zh',
+  sceneType: 'Studio',
+  videoResolution: '1080p',
+  videoAspectRatio: '9:16',
+  videoEngine: 'veo-3.1-fast-generate-preview',
+  targetDuration: 5,
+  shotCount: 9,
+  gridAspectRatio: '16:9'
+};
+
+export interface StorageUsage {
+  projectCount: number;
+  projectBytes: number;
+  usage?: number;
+  quota?: number;
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+export const createProjectId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * 按最近更新时间倒序列出项目，query 匹配项目名或产品名
+ */
+export const listProjects = async (query = ''): Promise<ProjectRecord[]> => {
+  const records = await getAll<ProjectRecord>(STORES.projects);
+  const keyword = query.trim().toLowerCase();
+  return records
+    .filter(r => !keyword || r.name.toLowerCase().includes(keyword) || r.session.productName.toLowerCase().includes(keyword))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string) => getOne<ProjectRecord>(STORES.projects, id);
+
+export const saveProject = (record: ProjectRecord) => putOne(STORES.projects, record);
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  const record = await getProject(id);
+  if (!record) throw new Error(t('errors.projectNotFound'));
+  await saveProject({ ...record, name, updatedAt: Date.now() });
+};
+
+export const deleteProject = (id: string) => deleteOne(STORES.projects, id);
+
+/**
+ * 估算单个项目的体积（媒体以 DataURL 存储，按字符数近似字节数）
+ */
+export const estimateProjectBytes = (record: ProjectRecord): number => JSON.stringify(record).length;
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const records = await getAll<ProjectRecord>(STORES.projects);
+  const usage: StorageUsage = {
+    projectCount: records.length,
+    projectBytes: records.reduce((sum, r) => sum + estimateProjectBytes(r), 0)
+  };
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  return usage;
+};
+
+const fromLegacyRecord = (legacy: HistoryRecord): ProjectRecord => {
+  const session: ProjectSession = {
+    productName: legacy.productName,
+    productBrief: '',
+    assets: legacy.referenceImage ? [{ id: `${legacy.id}-ref`, data: legacy.referenceImage, type: 'image' }] : [],
+    analysis: legacy.analysis,
+    prompts: legacy.prompts,
+    refinedPrompts: {},
+    gridImages: {},
+    videoUrls: {},
+    settings: { ...DEFAULT_RENDER_SETTINGS, promptCount: legacy.prompts.length || DEFAULT_RENDER_SETTINGS.promptCount }
+  };
+  return {
+    id: legacy.id,
+    name: legacy.productName,
+    createdAt: legacy.timestamp,
+    updatedAt: legacy.timestamp,
+    thumbnail: legacy.referenceImage,
+    session
+  };
+};
+
+/**
+ * 将旧版 localStorage 历史记录迁移到 IndexedDB，成功后清除旧数据，返回迁移条数
+ */
+export const migrateLegacyHistory = async (): Promise<number> => {
+  const stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!stored) return 0;
+  let legacy: HistoryRecord[] = [];
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) legacy = parsed as HistoryRecord[];
+  } catch (e) {}
+  for (const record of legacy) {
+    if (!(await getProject(record.id))) await saveProject(fromLegacyRecord(record));
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return legacy.length;
+};
@@ -0,0 +1,40 @@
+import { ProductPrompt, PromptVersion, PromptVersionSource } from "../types";
+import { formatPromptForEditing } from "./scriptFormat";
+
+// 每套方案最多保留的版本数，超出时丢弃最早的版本
+export const MAX_VERSIONS_PER_SET = 50;
+
+export const createVersionId = () => `version-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createPromptVersion = (source: PromptVersionSource, prompt: ProductPrompt, refined?: string): PromptVersion => ({
+  id: createVersionId(),
+  source,
+  prompt,
+  refined: refined || undefined,
+  createdAt: Date.now()
+});
+
+/**
+ * 脚本文本与导演指令都相同即视为同一版本，忽略镜头 ID 等内部字段
+ */
+export const isSameVersionContent = (version: PromptVersion, prompt: ProductPrompt, refined?: string) =>
+  formatPromptForEditing(version.prompt) === formatPromptForEditing(prompt) && (version.refined || '') === (refined || '');
+
+export const getLatestVersion = (versions: PromptVersion[] = []): PromptVersion | undefined => versions[versions.length - 1];
+
+/**
+ * 追加一个版本；内容与最新版本相同时原样返回，不产生重复条目
+ */
+export const appendPromptVersion = (versions: PromptVersion[] = [], version: PromptVersion): PromptVersion[] => {
+  const latest = getLatestVersion(versions);
+  if (latest && isSameVersionContent(latest, version.prompt, version.refined)) return versions;
+  return [...versions, version].slice(-MAX_VERSIONS_PER_SET);
+};
+
+/**
+ * 版本号按时间顺序从 v1 起编号；被裁掉的早期版本不占号
+ */
+export const getVersionLabel = (versions: PromptVersion[] = [], id?: string): string => {
+  const index = versions.findIndex(v => v.id === id);
+  return index === -1 ? '' : `v${index + 1}`;
+};
@@ -0,0 +1,476 @@
+import { GoogleGenAI, Type, GenerateContentResponse, GenerateVideosOperation, FinishReason } from "@google/genai";
+import { ProductAnalysis, IndividualAnalysis, ProductPrompt, MediaAsset, VideoRenderConfig, VideoOperationState, StylePreset, OutputLanguage, UsageStep } from "../../types";
+import { ModelConfig } from "../modelConfig";
+import { withRetry, sleep } from "../retry";
+import { geminiRateLimiter } from "../rateLimiter";
+import { getDataUrlMimeType } from "../mediaIngest";
+import { getAngleSpec } from "../captureAngles";
+import { SafetyBlockedError, EmptyResultError, InvalidJsonError, SchemaValidationError, toServiceError } from "../errors";
+import { DEFAULT_SHOT_COUNT, validateProfile, validateShot, validatePrompt, validatePrompts, normalizeProfile, normalizeShot, normalizePrompt } from "../outputValidation";
+import { ModelProvider, StoryboardContext, PanelRenderRequest, ImageRequestOptions, RequestOptions, VideoJobOptions } from "./types";
+import { describeStyle, styleDirectives, withNegativePrompt } from "../stylePresets";
+import { getGridLayout } from "../gridImage";
+import { t } from "../i18n";
+import { getClientOptions, toPlayableVideoUrl, ensureSelectedKey } from "../apiAccess";
+import { checkBudget, recordUsage, estimateCost, estimateTokens, estimateStoryboardTokens, estimateImageCost, estimateVideoCost, getExtensionRounds, IMAGE_INPUT_TOKENS, VIDEO_INPUT_TOKENS, VEO_INITIAL_SECONDS, VEO_EXTENSION_SECONDS } from "../usage";
+
+const POLL_INTERVAL = 10000;
+const MAX_REPAIR_ATTEMPTS = 2;
+// 各类文字请求预计的输出 token 数，用于调用前的预算检查
+const REFINE_OUTPUT_TOKENS = 600;
+const ANALYSIS_OUTPUT_TOKENS = 300;
+const PROFILE_OUTPUT_TOKENS = 800;
+
+const PROFILE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    structure: { type: Type.STRING },
+    details: { type: Type.STRING },
+    audience: { type: Type.STRING },
+    scenarios: { type: Type.STRING },
+    motion: { type: Type.STRING }
+  },
+  required: ["structure", "details", "audience", "scenarios", "motion"]
+};
+
+const SHOT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    cameraAngle: { type: Type.STRING },
+    lighting: { type: Type.STRING },
+    description: { type: Type.STRING }
+  },
+  required: ["cameraAngle", "lighting", "description"]
+};
+
+/** 镜头数写进 schema，让模型在结构层面就输出指定数量的镜头 */
+const promptSchema = (shotCount: number) => ({
+  type: Type.OBJECT,
+  properties: {
+    instruction: { type: Type.STRING },
+    shots: { type: Type.ARRAY, items: SHOT_SCHEMA, minItems: String(shotCount), maxItems: String(shotCount) }
+  },
+  required: ["instruction", "shots"]
+});
+
+// 这些 finishReason 表示输出被策略拦截，而不是正常结束
+const BLOCKING_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST,
+  FinishReason.SPII, FinishReason.IMAGE_SAFETY, FinishReason.RECITATION
+];
+
+/** 所有请求共用限流器与重试策略 */
+const call = <T>(fn: () => Promise<T>, signal?: AbortSignal) =>
+  withRetry(fn, { signal, limiter: geminiRateLimiter });
+
+interface Meter {
+  step: UsageStep;
+  model: string;
+  /** 调用前估算的费用（美元） */
+  estimate: number;
+  projectId?: string | null;
+}
+
+/**
+ * 计费的 generateContent：发出前检查预算，返回后按 usageMetadata 记账；
+ * 被安全策略拦截的响应同样计费，因此在读取结果前记录
+ */
+const metered = async (meter: Meter, fn: () => Promise<GenerateContentResponse>, signal?: AbortSignal) => {
+  await checkBudget(meter.estimate, meter.projectId);
+  const response = await call(fn, signal);
+  const usage = response.usageMetadata;
+  recordUsage(meter.step, meter.model, {
+    inputTokens: usage?.promptTokenCount || 0,
+    outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+    images: response.candidates?.[0]?.content?.parts?.filter(p => p.inlineData).length || 0
+  }, meter.projectId);
+  return response;
+};
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+  const candidate = response.candidates?.[0];
+  if (!candidate) throw new EmptyResultError(t('errors.emptyCandidates'));
+  if (candidate.finishReason && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    const rating = candidate.safetyRatings?.find(r => r.blocked);
+    throw new SafetyBlockedError(rating?.category || candidate.finishReason);
+  }
+};
+
+const readText = (response: GenerateContentResponse) => {
+  assertNotBlocked(response);
+  const text = response.text?.trim();
+  if (!text) throw new EmptyResultError();
+  return text;
+};
+
+const readJson = <T>(response: GenerateContentResponse): T => {
+  const text = readText(response);
+  try {
+    return JSON.parse(text) as T;
+  } catch (e) {
+    throw new InvalidJsonError(text, e);
+  }
+};
+
+interface StructuredRequest {
+  step: UsageStep;
+  model: string;
+  prompt: string;
+  schema: object;
+  systemInstruction?: string;
+  /** 预计输出 token 数，用于预算检查 */
+  outputTokens: number;
+}
+
+/**
+ * 请求结构化 JSON 并做运行时校验；不合格时把具体问题连同原输出回传给模型修复，
+ * 多次修复仍失败则抛出带问题清单的 SchemaValidationError
+ */
+const generateValidated = async <T>(
+  ai: GoogleGenAI,
+  request: StructuredRequest,
+  validate: (data: any) => string[],
+  normalize: (data: any) => T,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const config = {
+    systemInstruction: request.systemInstruction,
+    responseMimeType: "application/json",
+    responseSchema: request.schema,
+    abortSignal: options.signal
+  };
+  let contents = request.prompt;
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    // 每次修复都是一次完整调用，分别计费
+    const estimate = estimateCost(request.model, { inputTokens: estimateTokens(contents + (request.systemInstruction || '')), outputTokens: request.outputTokens });
+    const meter: Meter = { step: request.step, model: request.model, estimate, projectId: options.projectId };
+    const response = await metered(meter, () => ai.models.generateContent({ model: request.model, contents, config }), options.signal);
+    const raw = readText(response);
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+      issues = validate(data);
+    } catch (e) {
+      issues = ["JSON 格式错误或被截断，无法解析"];
+    }
+    if (issues.length === 0) return normalize(data);
+    console.warn(`模型输出校验失败（第 ${attempt + 1} 次）`, issues);
+    contents = `${request.prompt}
+
+  你上一次的输出不符合要求：
+  ${raw.slice(0, 8000)}
+
+  存在以下问题：
+  ${issues.map(issue => `- ${issue}`).join('\n  ')}
+
+  请修正以上全部问题，重新输出完整的 JSON，不要省略任何内容。`;
+  }
+  throw new SchemaValidationError(issues);
+};
+
+const readImage = (response: GenerateContentResponse) => {
+  assertNotBlocked(response);
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData?.data) throw new EmptyResultError(t('errors.emptyImage'));
+  return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+};
+
+const buildStoryboardSystemInstruction = (profile: ProductAnalysis['globalProfile'], style: StylePreset) =>
+  `你是一个顶级商业分镜策划师。擅长在${style.sceneType}场景下生成电影级分镜。遵循：${profile.structure}, ${profile.details}, ${profile.motion}。
+  品牌风格（所有镜头必须遵守）：${describeStyle(style)}`;
+
+// 情绪参考图放在产品参考之后，只用于把握氛围
+const moodImageParts = (style?: StylePreset) => (style?.moodImages || []).slice(0, 3).map(img => toInlineData(img));
+
+const toInlineData = (dataUrl: string, fallbackMimeType?: string) => ({
+  inlineData: {
+    data: dataUrl.split(',')[1],
+    mimeType: getDataUrlMimeType(dataUrl, fallbackMimeType)
+  }
+});
+
+const LANGUAGE_NAMES: Record<OutputLanguage, string> = { zh: '中文', en: '英文（English）' };
+
+/** 输出语言要求；JSON 字段名保持英文不变 */
+const languageRule = (language: OutputLanguage = 'zh') => `所有文字内容必须使用${LANGUAGE_NAMES[language]}输出（JSON 字段名保持不变）。`;
+
+const formatNote = (note?: string) => note?.trim() ? `\n  调整要求：${note.trim()}` : '';
+
+const summarizeSets = (prompts: ProductPrompt[], excludeIdx = -1) => prompts
+  .map((p, i) => i === excludeIdx ? '' : `方案 ${i + 1}：${p.instruction}`)
+  .filter(Boolean)
+  .join('\n');
+
+/**
+ * Gemini / Veo 实现，模型名全部来自 ModelConfig
+ */
+export const createGeminiProvider = (config: ModelConfig): ModelProvider => {
+  const client = () => new GoogleGenAI(getClientOptions());
+
+  return {
+    id: 'gemini',
+
+    ensureApiKey: ensureSelectedKey,
+
+    /**
+     * 使用 Gemini 3 Pro 润色分镜脚本，生成专为 Veo 优化的“导演指令”
+     */
+    async refineVideoPrompt(script, profile, productName, style?: StylePreset, language: OutputLanguage = 'en', options: RequestOptions = {}) {
+      const ai = client();
+      const prompt = `你是一名世界级的商业视频导演。请将以下【分镜脚本】和【产品基因】转化成一段专为 Veo 3.1 视频生成模型设计的“高保真导演指令”。
+  
+  产品：${productName}
+  结构特征：${profile.structure}
+  材质细节：${profile.details}
+  分镜脚本：${script}${style ? `\n  品牌风格：${describeStyle(style)}${style.negativePrompt.trim() ? `\n  需避免：${style.negativePrompt.trim()}` : ''}` : ''}
+
+  要求：
+  1. 描述必须包含：光影动态（如：God rays, soft bokeh）、材质表现（如：Metalic sheen, micro-texture）、镜头平滑运动（如：Cinematic dolly zoom, macro pan）。
+  2. 强调“结构一致性”：确保每一秒钟产品的物理形态都绝对稳定。
+  3. 指令必须用【${LANGUAGE_NAMES[language]}】输出${language === 'en' ? '，以获得最佳模型理解度' : ''}。
+  4. 只输出指令文本，不需要任何解释。`;
+
+      const estimate = estimateCost(config.refineModel, { inputTokens: estimateTokens(prompt), outputTokens: REFINE_OUTPUT_TOKENS });
+      const response = await metered({ step: 'refine', model: config.refineModel, estimate, projectId: options.projectId }, () => ai.models.generateContent({
+        model: config.refineModel,
+        contents: prompt,
+        config: { abortSignal: options.signal }
+      }), options.signal);
+
+      assertNotBlocked(response);
+      return response.text?.trim() || script;
+    },
+
+    async analyzeAsset(item: MediaAsset, productName: string, language?: OutputLanguage, options: RequestOptions = {}) {
+      const ai = client();
+      const isVideo = item.type === 'video';
+      const mediaPart = {
+        inlineData: {
+          data: item.data.split(',')[1],
+          mimeType: item.mimeType || getDataUrlMimeType(item.data, isVideo ? 'video/mp4' : 'image/jpeg')
+        }
+      };
+      const angle = getAngleSpec(item.angle);
+      const angleNote = angle ? `该素材是从【${angle.label}】角度拍摄的（${angle.hint}），请结合该视角描述可见部分，不要臆测不可见的面。` : '';
+      const prompt = `分析产品“${productName}”的参考${isVideo ? '视频' : '图'}结构、细节、运动规律等。${angleNote}${languageRule(language)}输出JSON: { "description": "..." }`;
+      const estimate = estimateCost(config.analysisModel, { inputTokens: estimateTokens(prompt) + (isVideo ? VIDEO_INPUT_TOKENS : IMAGE_INPUT_TOKENS), outputTokens: ANALYSIS_OUTPUT_TOKENS });
+      const response = await metered({ step: 'analysis', model: config.analysisModel, estimate, projectId: options.projectId }, () => ai.models.generateContent({
+        model: config.analysisModel,
+        contents: { parts: [mediaPart, { text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: { description: { type: Type.STRING } },
+            required: ["description"]
+          },
+          abortSignal: options.signal
+        }
+      }), options.signal);
+      const parsed = readJson<{ description?: string }>(response);
+      return String(parsed.description || "无法识别");
+    },
+
+    async synthesizeProfile(individualAnalyses: IndividualAnalysis[], productName: string, brief?: string, language?: OutputLanguage, options?: RequestOptions) {
+      const ai = client();
+      const context = individualAnalyses.map((a, i) => `参考分析 ${i+1}: ${a.description}`).join('\n');
+      const prompt = brief?.trim()
+        ? `基于以下对产品“${productName}”的【文字资料】与【参考图像分析】，提炼核心产品基因(Structure, Details, Audience, Scenarios, Motion)。${languageRule(language)}输出JSON。
+  规则：
+  1. 尺寸、材质成分、功能参数、目标人群等规格信息以【文字资料】为准，图像分析与之冲突时忽略图像。
+  2. 外观造型、颜色、表面质感、结构细节以【参考图像分析】为准，文字资料未提及的外观不要臆造。
+  文字资料：${brief}
+  参考图像分析：${context}`
+        : `基于以下对产品“${productName}”的参考分析，提炼核心产品基因(Structure, Details, Audience, Scenarios, Motion)。${languageRule(language)}输出JSON。 上下文：${context}`;
+      return generateValidated(ai, { step: 'profile', model: config.profileModel, prompt, schema: PROFILE_SCHEMA, outputTokens: PROFILE_OUTPUT_TOKENS }, validateProfile, normalizeProfile, options);
+    },
+
+    async generateProfileFromText(productName: string, brief?: string, language?: OutputLanguage, options?: RequestOptions) {
+      const ai = client();
+      const prompt = brief?.trim()
+        ? `基于产品名称“${productName}”及以下规格说明/营销简报，提供详细的产品基因档案(Structure, Details, Audience, Scenarios, Motion)。资料中明确的信息必须如实保留，资料未覆盖的部分按同类产品的合理常识补全。${languageRule(language)}输出JSON。
+  资料：${brief}`
+        : `基于产品名称“${productName}”提供详细的产品基因档案(Structure, Details, Audience, Scenarios, Motion)。${languageRule(language)}输出JSON。`;
+      return generateValidated(ai, { step: 'profile', model: config.profileModel, prompt, schema: PROFILE_SCHEMA, outputTokens: PROFILE_OUTPUT_TOKENS }, validateProfile, normalizeProfile, options);
+    },
+
+    async generateStoryboards(profile, productName, quantity, language, style: StylePreset, shotCount = DEFAULT_SHOT_COUNT, options?: RequestOptions) {
+      const ai = client();
+      const systemInstruction = buildStoryboardSystemInstruction(profile, style);
+      const prompt = `任务：为“${productName}”策划 ${quantity} 套分镜。每套包含1个全局指令和${shotCount}个镜头。${languageRule(language)}`;
+      return generateValidated(
+        ai,
+        { step: 'storyboard', model: config.storyboardModel, prompt, schema: { type: Type.ARRAY, items: promptSchema(shotCount) }, systemInstruction, outputTokens: estimateStoryboardTokens(quantity, shotCount) },
+        data => validatePrompts(data, quantity, shotCount),
+        (data: any[]) => data.map(normalizePrompt),
+        options
+      );
+    },
+
+    async regenerateShot(context: StoryboardContext, setPrompt: ProductPrompt, shotIdx: number, note?: string, options?: RequestOptions) {
+      const ai = client();
+      const neighbour = (idx: number) => {
+        const shot = setPrompt.shots[idx];
+        return shot ? `[${shot.cameraAngle} | ${shot.lighting}] ${shot.description}` : '（无）';
+      };
+      const current = setPrompt.shots[shotIdx];
+      const prompt = `任务：为“${context.productName}”的分镜方案重写第 ${shotIdx + 1} 个镜头（共 ${setPrompt.shots.length} 个）。${languageRule(context.language)}
+  全局指令：${setPrompt.instruction}
+  上一个镜头：${neighbour(shotIdx - 1)}
+  当前镜头（需替换）：${current ? `[${current.cameraAngle} | ${current.lighting}] ${current.description}` : '（空）'}
+  下一个镜头：${neighbour(shotIdx + 1)}
+  要求：与前后镜头在机位、光线和叙事上自然衔接，不要与相邻镜头重复。${formatNote(note)}`;
+      return generateValidated(
+        ai,
+        { step: 'storyboard', model: config.storyboardModel, prompt, schema: SHOT_SCHEMA, systemInstruction: buildStoryboardSystemInstruction(context.profile, context.style), outputTokens: estimateStoryboardTokens(1, 0) },
+        data => validateShot(data),
+        normalizeShot,
+        options
+      );
+    },
+
+    async regenerateSet(context: StoryboardContext, prompts: ProductPrompt[], setIdx: number, note?: string, options?: RequestOptions) {
+      const ai = client();
+      const shotCount = prompts[setIdx]?.shots.length || context.shotCount;
+      const others = summarizeSets(prompts, setIdx);
+      const prompt = `任务：为“${context.productName}”重新策划 1 套分镜，替换原方案 ${setIdx + 1}。包含1个全局指令和${shotCount}个镜头。${languageRule(context.language)}
+  原方案全局指令：${prompts[setIdx]?.instruction || '（无）'}
+  其他已有方案（新方案需在创意上与之区分）：${others || '（无）'}${formatNote(note)}`;
+      return generateValidated(
+        ai,
+        { step: 'storyboard', model: config.storyboardModel, prompt, schema: promptSchema(shotCount), systemInstruction: buildStoryboardSystemInstruction(context.profile, context.style), outputTokens: estimateStoryboardTokens(1, shotCount) },
+        data => validatePrompt(data, shotCount),
+        normalizePrompt,
+        options
+      );
+    },
+
+    async generateAdditionalSets(context: StoryboardContext, prompts: ProductPrompt[], count: number, note?: string, options?: RequestOptions) {
+      const ai = client();
+      const prompt = `任务：为“${context.productName}”追加策划 ${count} 套分镜。每套包含1个全局指令和${context.shotCount}个镜头。${languageRule(context.language)}
+  已有方案（新方案不得重复其创意、机位组合与叙事结构）：${summarizeSets(prompts) || '（无）'}${formatNote(note)}`;
+      return generateValidated(
+        ai,
+        { step: 'storyboard', model: config.storyboardModel, prompt, schema: { type: Type.ARRAY, items: promptSchema(context.shotCount) }, systemInstruction: buildStoryboardSystemInstruction(context.profile, context.style), outputTokens: estimateStoryboardTokens(count, context.shotCount) },
+        data => validatePrompts(data, count, context.shotCount),
+        (data: any[]) => data.map(normalizePrompt),
+        options
+      );
+    },
+
+    async generateGridImage(prompt: string, referenceImageBase64?: string, options: ImageRequestOptions = {}) {
+      const ai = client();
+      const contentsParts: any[] = [];
+      if (referenceImageBase64) {
+        contentsParts.push(toInlineData(referenceImageBase64));
+      }
+      const { style, layout = getGridLayout(DEFAULT_SHOT_COUNT) } = options;
+      contentsParts.push(...moodImageParts(style));
+      const basePrompt = `Create a professional ${layout.rows}x${layout.cols} storyboard grid image (${layout.rows} rows, ${layout.cols} columns, ${layout.rows * layout.cols} equal panels in reading order). PROMPT: ${prompt}. Cinematic lighting. Consistent product based on reference.`;
+      contentsParts.push({
+        text: style
+          ? withNegativePrompt(`${basePrompt} STYLE: ${styleDirectives(style)}${style.moodImages.length ? ' The trailing images are mood references for atmosphere and colour only.' : ''}`, style)
+          : basePrompt
+      });
+      const meter: Meter = { step: 'grid', model: config.imageModel, estimate: estimateImageCost(contentsParts.length - 1, config.imageModel), projectId: options.projectId };
+      const response = await metered(meter, () => ai.models.generateContent({
+        model: config.imageModel,
+        contents: { parts: contentsParts },
+        config: { imageConfig: { aspectRatio: layout.aspectRatio }, abortSignal: options.signal }
+      }), options.signal);
+      return readImage(response);
+    },
+
+    async generatePanelImage(request: PanelRenderRequest, options: RequestOptions = {}) {
+      const ai = client();
+      const contentsParts: any[] = [];
+      if (request.referenceImageBase64) contentsParts.push(toInlineData(request.referenceImageBase64));
+      request.neighbourPanels.forEach(panel => contentsParts.push(toInlineData(panel)));
+      contentsParts.push(...moodImageParts(request.style));
+      const { shot, style } = request;
+      const text = `Create a single cinematic storyboard frame (shot ${request.shotIdx + 1}). ${request.referenceImageBase64 ? 'The first image is the product reference; ' : ''}${request.neighbourPanels.length ? 'the next images are neighbouring frames of the same storyboard — match their product design, colour grade and lighting style exactly.' : ''}${style?.moodImages.length ? ' The trailing images are mood references for atmosphere only.' : ''}
+  Global direction: ${request.instruction}
+  Camera: ${shot.cameraAngle}. Lighting: ${shot.lighting}.
+  Scene: ${shot.description}${request.note?.trim() ? `\n  Adjustment: ${request.note.trim()}` : ''}${style ? `\n  Style: ${styleDirectives(style)}` : ''}
+  Output one frame only, no grid, no text overlay.`;
+      contentsParts.push({ text: style ? withNegativePrompt(text, style) : text });
+      const meter: Meter = { step: 'panel', model: config.imageModel, estimate: estimateImageCost(contentsParts.length - 1, config.imageModel), projectId: options.projectId };
+      const response = await metered(meter, () => ai.models.generateContent({
+        model: config.imageModel,
+        contents: { parts: contentsParts },
+        config: { imageConfig: { aspectRatio: request.aspectRatio || "16:9" }, abortSignal: options.signal }
+      }), options.signal);
+      return readImage(response);
+    },
+
+    async generateVideo(prompt: string, referenceImageBase64: string, renderConfig: VideoRenderConfig, onStatusChange?: (msg: string) => void, options: VideoJobOptions = {}) {
+      const ai = client();
+      const { signal, onOperation, resume, projectId } = options;
+      const rounds = getExtensionRounds(renderConfig.targetDuration);
+      const totalStages = 1 + rounds;
+
+      // 提交第 stage 轮任务：0 为以参考图起始的初始渲染，其余为基于上一段视频的延展
+      const submitStage = (stage: number, previousVideo?: VideoOperationState['previousVideo']) => {
+        if (stage === 0) {
+          const imageData = referenceImageBase64.includes(',') ? referenceImageBase64.split(',')[1] : referenceImageBase64;
+          const imageMimeType = referenceImageBase64.startsWith('data:') ? getDataUrlMimeType(referenceImageBase64) : 'image/jpeg';
+          onStatusChange?.(t('video.status.start', { engine: renderConfig.engine.includes('fast') ? 'Fast' : 'Pro' }));
+          return call(() => ai.models.generateVideos({
+            model: renderConfig.engine,
+            prompt: `Industrial high-end commercial video. 100% Product Consistency. ${prompt}`,
+            image: { imageBytes: imageData, mimeType: imageMimeType },
+            config: { numberOfVideos: 1, resolution: renderConfig.resolution, aspectRatio: renderConfig.aspectRatio, negativePrompt: renderConfig.negativePrompt || undefined, abortSignal: signal }
+          }), signal);
+        }
+        onStatusChange?.(t('video.status.extending', { stage, rounds }));
+        return call(() => ai.models.generateVideos({
+          model: config.videoExtensionModel,
+          prompt: `Continue the scene smoothly while maintaining product structural consistency. ${prompt}`,
+          video: previousVideo,
+          config: { numberOfVideos: 1, resolution: '720p', aspectRatio: renderConfig.aspectRatio, negativePrompt: renderConfig.negativePrompt || undefined, abortSignal: signal }
+        }), signal);
+      };
+
+      let stage = resume?.stage ?? 0;
+      let previousVideo = resume?.previousVideo;
+      let operation: GenerateVideosOperation | undefined;
+      // 整条视频（含全部延展轮次）在提交首段前一次性检查预算，避免渲染到一半被拦下；恢复的任务已在刷新前检查过
+      if (!resume) await checkBudget(estimateVideoCost(renderConfig, config.videoExtensionModel), projectId);
+      if (resume) {
+        operation = new GenerateVideosOperation();
+        operation.name = resume.operationName;
+        onStatusChange?.(t('video.status.resuming', { stage: stage + 1, total: totalStages }));
+      }
+
+      for (; stage < totalStages; stage++) {
+        if (!operation) operation = await submitStage(stage, previousVideo);
+        if (operation.name) onOperation?.({ operationName: operation.name, stage, totalStages, previousVideo });
+        while (!operation.done) {
+          onStatusChange?.(stage === 0 ? t('video.status.initial') : t('video.status.extending', { stage, rounds }));
+          await sleep(POLL_INTERVAL, signal);
+          const pending: GenerateVideosOperation = operation;
+          operation = await call(() => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } }), signal);
+        }
+        if (operation.error) throw toServiceError(new Error(`Video generation failed: ${JSON.stringify(operation.error)}`));
+        const filtered = operation.response?.raiMediaFilteredReasons;
+        if (operation.response?.raiMediaFilteredCount || filtered?.length) {
+          throw new SafetyBlockedError(filtered?.join('; ') || 'RAI_MEDIA_FILTERED');
+        }
+        previousVideo = operation.response?.generatedVideos?.[0]?.video;
+        operation = undefined;
+        recordUsage(
+          stage === 0 ? 'video' : 'video-extension',
+          stage === 0 ? renderConfig.engine : config.videoExtensionModel,
+          { videoSeconds: stage === 0 ? VEO_INITIAL_SECONDS : VEO_EXTENSION_SECONDS },
+          projectId
+        );
+      }
+
+      if (!previousVideo?.uri) throw new EmptyResultError(t('errors.emptyVideo'));
+      return toPlayableVideoUrl(previousVideo.uri);
+    }
+  };
+};
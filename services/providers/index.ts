@@ -0,0 +1,20 @@
+import { getModelConfig, ProviderId } from "../modelConfig";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { ModelProvider, ProviderFactory } from "./types";
+
+export type { ModelProvider } from "./types";
+
+const FACTORIES: Record<ProviderId, ProviderFactory> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider
+};
+
+/**
+ * 每次调用时按最新配置创建 Provider，切换配置后无需刷新页面
+ */
+export const getProvider = (): ModelProvider => {
+  const config = getModelConfig();
+  const factory = FACTORIES[config.provider] || FACTORIES.gemini;
+  return factory(config);
+};
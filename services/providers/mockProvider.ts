@@ -0,0 +1,250 @@
+import { ProductAnalysis, IndividualAnalysis, ProductPrompt, ShotDetail, MediaAsset, VideoRenderConfig, StylePreset, GridLayout, OutputLanguage } from "../../types";
+import { ModelConfig } from "../modelConfig";
+import { sleep } from "../retry";
+import { getAngleSpec } from "../captureAngles";
+import { getGridLayout } from "../gridImage";
+import { DEFAULT_SHOT_COUNT } from "../outputValidation";
+import { t } from "../i18n";
+import { ModelProvider, StoryboardContext, PanelRenderRequest, ImageRequestOptions, RequestOptions, VideoJobOptions } from "./types";
+
+const MOCK_LATENCY = 400;
+const MOCK_CLIP_SECONDS = 3;
+const MOCK_IMAGE_EDGE = 1280;
+
+const CAMERA_ANGLES = ['Wide establishing', 'Macro close-up', 'Low angle hero', 'Top-down flat lay', 'Three-quarter orbit', 'Over-the-shoulder', 'Dolly in', 'Side profile', 'Pull-back reveal'];
+const LIGHTINGS = ['Soft key + rim', 'Hard side light', 'Golden hour', 'High-key white', 'Neon accent', 'Window daylight', 'Low-key spotlight', 'Backlit glow', 'Diffused overhead'];
+const PALETTE = ['#4f46e5', '#059669', '#d97706', '#dc2626', '#0891b2', '#7c3aed'];
+
+const delay = (signal?: AbortSignal) => sleep(MOCK_LATENCY, signal);
+
+/**
+ * 稳定的字符串哈希，保证相同输入得到相同的占位结果
+ */
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const buildProfile = (productName: string, brief?: string, language: OutputLanguage = 'zh'): ProductAnalysis['globalProfile'] => language === 'en' ? {
+  structure: `${productName}: rounded rectangular body, main interaction area on the front, brand mark on the back, overall ratio about 3:2.${brief?.trim() ? ` Based on spec: ${brief.trim().slice(0, 80)}` : ''}`,
+  details: `Matte frosted shell with chamfered metal trim, subtle highlights along seams, visible micro-texture.`,
+  audience: `Urban professionals and tech enthusiasts aged 25-40 who value quality and design.`,
+  scenarios: `Home desk, daily commute and office meetings.`,
+  motion: `Slow rotation to reveal the silhouette, crisp button rebound, screen wakes with a soft gradient.`
+} : {
+  structure: `${productName}：圆角矩形主体，正面为主要交互区，背面带品牌标识，整体比例约 3:2。${brief?.trim() ? `规格依据：${brief.trim().slice(0, 80)}` : ''}`,
+  details: `哑光磨砂外壳，金属倒角包边，接缝处有细微高光，表面可见微纹理。`,
+  audience: `25-40 岁注重品质与设计感的城市白领与科技爱好者。`,
+  scenarios: `居家桌面、通勤随身、办公会议等日常高频场景。`,
+  motion: `缓慢旋转展示轮廓，按键按压有清晰回弹，屏幕点亮伴随柔和渐变。`
+};
+
+const formatMockNote = (note?: string) => note?.trim() ? ` (${note.trim()})` : '';
+
+const buildShot = (setIdx: number, shotIdx: number, productName: string, note?: string, language: OutputLanguage = 'zh'): ShotDetail => ({
+  cameraAngle: CAMERA_ANGLES[(setIdx + shotIdx) % CAMERA_ANGLES.length],
+  lighting: LIGHTINGS[(setIdx * 2 + shotIdx) % LIGHTINGS.length],
+  description: language === 'en'
+    ? `[Mock] Set ${setIdx + 1} shot ${shotIdx + 1}: ${productName} centred in frame, slow push-in to reveal details.${formatMockNote(note)}`
+    : `[Mock] 方案 ${setIdx + 1} 镜头 ${shotIdx + 1}：${productName} 在画面中心，镜头缓慢推进展示细节。${note?.trim() ? `（${note.trim()}）` : ''}`
+});
+
+const buildSet = (setIdx: number, productName: string, style: StylePreset, shotCount = DEFAULT_SHOT_COUNT, note?: string, language: OutputLanguage = 'zh'): ProductPrompt => ({
+  instruction: language === 'en'
+    ? `[Mock] ${style.name} style, set ${setIdx + 1}: consistent grade, emphasising the structure and texture of ${productName}.${formatMockNote(note)}`
+    : `[Mock] ${style.name} 风格，方案 ${setIdx + 1}：统一色调，突出 ${productName} 的结构与质感。${note?.trim() ? `（${note.trim()}）` : ''}`,
+  shots: Array.from({ length: shotCount }, (_, shotIdx) => buildShot(setIdx, shotIdx, productName, note, language))
+});
+
+/** 按比例字符串（如 9:16）计算画布尺寸，长边固定 */
+const canvasSize = (aspectRatio: string, longEdge: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+/**
+ * 在画布上按布局绘制带编号的占位宫格，返回 PNG DataURL
+ */
+const renderPlaceholderGrid = (label: string, layout: GridLayout): string => {
+  const { width, height } = canvasSize(layout.aspectRatio, MOCK_IMAGE_EDGE);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  const color = PALETTE[hashString(label) % PALETTE.length];
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, width, height);
+  const cellW = width / layout.cols;
+  const cellH = height / layout.rows;
+  for (let i = 0; i < layout.rows * layout.cols; i++) {
+    const x = (i % layout.cols) * cellW;
+    const y = Math.floor(i / layout.cols) * cellH;
+    ctx.fillStyle = i % 2 === 0 ? color : '#1e293b';
+    ctx.fillRect(x + 6, y + 6, cellW - 12, cellH - 12);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 48px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(i + 1), x + cellW / 2, y + cellH / 2);
+  }
+  ctx.font = 'bold 20px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(`MOCK · ${label.slice(0, 60)}`, 16, height - 16);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * 单帧占位图，颜色随重绘说明变化，便于肉眼区分新旧帧
+ */
+const renderPlaceholderFrame = (label: string, shotIdx: number, aspectRatio = '16:9'): string => {
+  const { width, height } = canvasSize(aspectRatio, 640);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.fillStyle = PALETTE[hashString(label) % PALETTE.length];
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 96px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(shotIdx + 1), canvas.width / 2, canvas.height / 2);
+  ctx.font = 'bold 16px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillText(`MOCK FRAME · ${label.slice(0, 50)}`, 12, canvas.height - 14);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * 用 MediaRecorder 录制一段纯色渐变动画作为样例视频，返回 Blob URL
+ */
+const renderPlaceholderClip = (label: string, renderConfig: VideoRenderConfig, signal?: AbortSignal): Promise<string> => {
+  const portrait = renderConfig.aspectRatio === '9:16';
+  const canvas = document.createElement('canvas');
+  canvas.width = portrait ? 360 : 640;
+  canvas.height = portrait ? 640 : 360;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || typeof MediaRecorder === 'undefined') return Promise.reject(new Error("Mock video rendering is not supported in this browser"));
+
+  const mimeType = MediaRecorder.isTypeSupported('video/mp4') ? 'video/mp4' : 'video/webm';
+  const stream = canvas.captureStream(24);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  const color = PALETTE[hashString(label) % PALETTE.length];
+  const start = performance.now();
+  let frame = 0;
+
+  const draw = () => {
+    const t = (performance.now() - start) / 1000;
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = color;
+    const size = Math.min(canvas.width, canvas.height) * 0.4;
+    ctx.save();
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.rotate(t * 0.8);
+    ctx.fillRect(-size / 2, -size / 2, size, size);
+    ctx.restore();
+    ctx.fillStyle = '#ffffff';
+    ctx.font = 'bold 16px sans-serif';
+    ctx.fillText(`MOCK ${renderConfig.resolution} ${renderConfig.aspectRatio}`, 12, canvas.height - 12);
+    if (t < MOCK_CLIP_SECONDS) frame = requestAnimationFrame(draw);
+  };
+
+  return new Promise((resolve, reject) => {
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+    recorder.onstop = () => resolve(URL.createObjectURL(new Blob(chunks, { type: mimeType })));
+    recorder.onerror = () => reject(new Error("Mock video recording failed"));
+    recorder.start();
+    draw();
+    sleep(MOCK_CLIP_SECONDS * 1000, signal)
+      .catch(reason => {
+        recorder.onstop = null;
+        reject(reason);
+      })
+      .finally(() => {
+        cancelAnimationFrame(frame);
+        recorder.stop();
+      });
+  });
+};
+
+/**
+ * 本地离线 Mock 实现：不访问网络、不消耗配额，输出确定性的样例数据
+ */
+export const createMockProvider = (_config: ModelConfig): ModelProvider => ({
+  id: 'mock',
+
+  async ensureApiKey() {},
+
+  async refineVideoPrompt(script, profile, productName, _style, language = 'en') {
+    await delay();
+    if (language === 'zh') return `[Mock 导演] ${productName} 电影感商业短片。结构：${profile.structure} 平滑推轨、柔和焦外、产品形态稳定。\n\n${script}`;
+    return `[Mock Director] Cinematic commercial for ${productName}. Structure: ${profile.structure} Smooth dolly moves, soft bokeh, stable product geometry.\n\n${script}`;
+  },
+
+  async analyzeAsset(item: MediaAsset, productName: string, language?: OutputLanguage) {
+    await delay();
+    const angle = getAngleSpec(item.angle);
+    if (language === 'en') {
+      return `[Mock] ${productName} reference ${item.type} #${hashString(item.id) % 1000}${angle ? ` (${item.angle})` : ''}: subject centred, clean silhouette, matte shell with metal trim.`;
+    }
+    const kind = item.type === 'video' ? '视频' : '图片';
+    return `[Mock] ${productName} 参考${kind} #${hashString(item.id) % 1000}${angle ? `（${angle.label}）` : ''}：主体居中，轮廓清晰，材质为哑光外壳配金属包边。`;
+  },
+
+  async synthesizeProfile(_individualAnalyses: IndividualAnalysis[], productName: string, brief?: string, language?: OutputLanguage) {
+    await delay();
+    return buildProfile(productName, brief, language);
+  },
+
+  async generateProfileFromText(productName: string, brief?: string, language?: OutputLanguage) {
+    await delay();
+    return buildProfile(productName, brief, language);
+  },
+
+  async generateStoryboards(_profile, productName, quantity, language, style, shotCount) {
+    await delay();
+    return Array.from({ length: quantity }, (_, setIdx) => buildSet(setIdx, productName, style, shotCount, undefined, language));
+  },
+
+  async regenerateShot(context: StoryboardContext, setPrompt: ProductPrompt, shotIdx: number, note?: string) {
+    await delay();
+    // 用方案长度做偏移，保证重生成的镜头与原镜头不同
+    return buildShot(setPrompt.shots.length, shotIdx + 1, context.productName, note, context.language);
+  },
+
+  async regenerateSet(context: StoryboardContext, prompts: ProductPrompt[], setIdx: number, note?: string) {
+    await delay();
+    return buildSet(setIdx + prompts.length, context.productName, context.style, prompts[setIdx]?.shots.length || context.shotCount, note, context.language);
+  },
+
+  async generateAdditionalSets(context: StoryboardContext, prompts: ProductPrompt[], count: number, note?: string) {
+    await delay();
+    return Array.from({ length: count }, (_, i) => buildSet(prompts.length + i, context.productName, context.style, context.shotCount, note, context.language));
+  },
+
+  async generateGridImage(prompt: string, _referenceImageBase64?: string, options: ImageRequestOptions = {}) {
+    await delay(options.signal);
+    return renderPlaceholderGrid(prompt, options.layout || getGridLayout(DEFAULT_SHOT_COUNT));
+  },
+
+  async generatePanelImage(request: PanelRenderRequest, options: RequestOptions = {}) {
+    await delay(options.signal);
+    return renderPlaceholderFrame(`${request.shot.description}${request.note || ''}`, request.shotIdx, request.aspectRatio);
+  },
+
+  async generateVideo(prompt: string, _referenceImageBase64: string, renderConfig: VideoRenderConfig, onStatusChange?: (msg: string) => void, options: VideoJobOptions = {}) {
+    // Mock 没有远端任务可恢复，恢复时直接重新录制
+    onStatusChange?.(t('video.status.mock'));
+    return renderPlaceholderClip(prompt, renderConfig, options.signal);
+  }
+});
@@ -0,0 +1,88 @@
+import { ProductAnalysis, IndividualAnalysis, ProductPrompt, ShotDetail, MediaAsset, VideoRenderConfig, VideoOperationState, StylePreset, GridLayout, OutputLanguage } from "../../types";
+import { ModelConfig, ProviderId } from "../modelConfig";
+
+/**
+ * 局部重生成分镜时共用的上下文
+ */
+export interface StoryboardContext {
+  profile: ProductAnalysis['globalProfile'];
+  productName: string;
+  language: OutputLanguage;
+  style: StylePreset;
+  /** 新方案的镜头数；重写已有方案时沿用其原镜头数 */
+  shotCount: number;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** 用量计入的项目，缺省为当前打开的项目 */
+  projectId?: string | null;
+}
+
+export interface ImageRequestOptions extends RequestOptions {
+  /** 风格预设：附加风格指令、负面提示词与情绪参考图 */
+  style?: StylePreset;
+  /** 宫格行列与画幅，缺省为 3x3 / 16:9 */
+  layout?: GridLayout;
+}
+
+export interface VideoJobOptions extends RequestOptions {
+  /** 每提交一轮 Veo 任务时回调，用于持久化以便刷新后恢复轮询 */
+  onOperation?: (state: VideoOperationState) => void;
+  /** 从已持久化的 operation 恢复，而不是重新提交 */
+  resume?: VideoOperationState;
+}
+
+export interface PanelRenderRequest {
+  shot: ShotDetail;
+  shotIdx: number;
+  instruction: string;
+  neighbourPanels: string[];
+  referenceImageBase64?: string;
+  note?: string;
+  style?: StylePreset;
+  /** 单帧出图比例，与宫格中分镜格的形状一致 */
+  aspectRatio?: string;
+}
+
+/**
+ * 模型服务提供方接口：覆盖分析、基因合成、分镜策划、宫格出图、导演润色与视频渲染
+ */
+export interface ModelProvider {
+  readonly id: ProviderId;
+  /** 渲染前确认已具备可用的鉴权（如 AI Studio 付费 Key） */
+  ensureApiKey(): Promise<void>;
+  analyzeAsset(item: MediaAsset, productName: string, language?: OutputLanguage, options?: RequestOptions): Promise<string>;
+  /** brief 非空时为混合模式：文字资料决定规格参数，图像分析决定外观 */
+  synthesizeProfile(individualAnalyses: IndividualAnalysis[], productName: string, brief?: string, language?: OutputLanguage, options?: RequestOptions): Promise<ProductAnalysis['globalProfile']>;
+  generateProfileFromText(productName: string, brief?: string, language?: OutputLanguage, options?: RequestOptions): Promise<ProductAnalysis['globalProfile']>;
+  generateStoryboards(
+    profile: ProductAnalysis['globalProfile'],
+    productName: string,
+    quantity: number,
+    language: OutputLanguage,
+    style: StylePreset,
+    shotCount?: number,
+    options?: RequestOptions
+  ): Promise<ProductPrompt[]>;
+  /** 参考相邻镜头与全局指令，只重写第 shotIdx 个镜头 */
+  regenerateShot(context: StoryboardContext, prompt: ProductPrompt, shotIdx: number, note?: string, options?: RequestOptions): Promise<ShotDetail>;
+  /** 重写第 setIdx 套方案，其他方案作为“避免重复”的参照 */
+  regenerateSet(context: StoryboardContext, prompts: ProductPrompt[], setIdx: number, note?: string, options?: RequestOptions): Promise<ProductPrompt>;
+  /** 追加 count 套与已有方案不重复的新方案 */
+  generateAdditionalSets(context: StoryboardContext, prompts: ProductPrompt[], count: number, note?: string, options?: RequestOptions): Promise<ProductPrompt[]>;
+  generateGridImage(prompt: string, referenceImageBase64?: string, options?: ImageRequestOptions): Promise<string>;
+  /** 单独重绘宫格中的一帧，参考产品图与相邻帧保持一致性 */
+  generatePanelImage(request: PanelRenderRequest, options?: RequestOptions): Promise<string>;
+  /** 导演指令的输出语言缺省为英文 */
+  refineVideoPrompt(script: string, profile: ProductAnalysis['globalProfile'], productName: string, style?: StylePreset, language?: OutputLanguage, options?: RequestOptions): Promise<string>;
+  generateVideo(
+    prompt: string,
+    referenceImageBase64: string,
+    config: VideoRenderConfig,
+    onStatusChange?: (msg: string) => void,
+    options?: VideoJobOptions
+  ): Promise<string>;
+}
+
+export type ProviderFactory = (config: ModelConfig) => ModelProvider;
@@ -0,0 +1,54 @@
+import { sleep } from "./retry";
+
+export interface RateLimiterOptions {
+  /** 桶容量，即允许的瞬时突发请求数 */
+  capacity: number;
+  /** 每秒补充的令牌数 */
+  refillPerSecond: number;
+}
+
+export interface RateLimiter {
+  acquire: (signal?: AbortSignal) => Promise<void>;
+  /** 服务端返回 retry-after 时暂停发放令牌 */
+  pauseFor: (ms: number) => void;
+}
+
+/**
+ * 令牌桶限流器：请求先取令牌再发出，令牌不足或处于暂停期时排队等待
+ */
+export const createRateLimiter = ({ capacity, refillPerSecond }: RateLimiterOptions): RateLimiter => {
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * refillPerSecond);
+    lastRefill = now;
+  };
+
+  return {
+    async acquire(signal?: AbortSignal) {
+      for (;;) {
+        const now = Date.now();
+        if (pausedUntil > now) {
+          await sleep(pausedUntil - now, signal);
+          continue;
+        }
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil(((1 - tokens) / refillPerSecond) * 1000), signal);
+      }
+    },
+
+    pauseFor(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    }
+  };
+};
+
+/** 所有 Gemini / Veo 请求共用的限流器 */
+export const geminiRateLimiter = createRateLimiter({ capacity: 5, refillPerSecond: 1 });
@@ -0,0 +1,215 @@
+import { RenderJob, RenderJobKind, RenderJobTarget } from "../types";
+import { TimeoutError } from "./errors";
+import { t } from "./i18n";
+import { stripApiKey } from "./apiAccess";
+
+const JOBS_STORAGE_KEY = 'render_jobs';
+const CONCURRENCY_STORAGE_KEY = 'render_concurrency';
+const MAX_KEPT_JOBS = 50;
+const DEFAULT_CONCURRENCY = 2;
+
+export const DEFAULT_TIMEOUTS: Record<RenderJobKind, number> = {
+  image: 3 * 60 * 1000,
+  video: 30 * 60 * 1000
+};
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super(t('jobs.error.cancelled'));
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobTimeoutError extends TimeoutError {
+  constructor(timeoutMs: number) {
+    super(t('jobs.error.timeout', { seconds: Math.round(timeoutMs / 1000) }));
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  setMessage: (message: string) => void;
+  setResume: (resume: RenderJob['resume']) => void;
+}
+
+export type JobRunner = (ctx: JobContext) => Promise<string>;
+
+export interface EnqueueOptions {
+  kind: RenderJobKind;
+  label: string;
+  target: RenderJobTarget;
+  run: JobRunner;
+  timeoutMs?: number;
+}
+
+interface ActiveEntry {
+  run: JobRunner;
+  timeoutMs: number;
+  controller: AbortController;
+  resolve: (value: string) => void;
+  reject: (reason: unknown) => void;
+}
+
+const readPersistedJobs = (): RenderJob[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(JOBS_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+let jobs: RenderJob[] = readPersistedJobs();
+let maxConcurrency = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || DEFAULT_CONCURRENCY;
+const entries = new Map<string, ActiveEntry>();
+const listeners = new Set<() => void>();
+
+// 图片结果是体积很大的 DataURL，只持久化视频结果（远端 URI），且不带 API Key
+const persist = () => {
+  const slim = jobs.map(job => ({ ...job, result: job.kind === 'image' || !job.result ? undefined : stripApiKey(job.result) }));
+  try {
+    localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(slim));
+  } catch (e) {
+    console.warn('渲染任务列表持久化失败', e);
+  }
+};
+
+const emit = () => {
+  persist();
+  listeners.forEach(listener => listener());
+};
+
+const updateJob = (id: string, patch: Partial<RenderJob>) => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  emit();
+};
+
+const runningCount = () => jobs.filter(job => job.status === 'running').length;
+
+const pump = () => {
+  // 队列按创建时间先进先出
+  const queued = jobs.filter(job => job.status === 'queued' && entries.has(job.id)).sort((a, b) => a.createdAt - b.createdAt);
+  for (const job of queued) {
+    if (runningCount() >= maxConcurrency) return;
+    start(job.id);
+  }
+};
+
+const start = (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  updateJob(id, { status: 'running', startedAt: Date.now(), message: t('jobs.message.running') });
+
+  const timer = setTimeout(() => entry.controller.abort(new JobTimeoutError(entry.timeoutMs)), entry.timeoutMs);
+  const ctx: JobContext = {
+    signal: entry.controller.signal,
+    setMessage: message => updateJob(id, { message }),
+    setResume: resume => updateJob(id, { resume })
+  };
+
+  entry.run(ctx)
+    .then(result => {
+      updateJob(id, { status: 'succeeded', result, message: t('jobs.status.succeeded'), finishedAt: Date.now(), resume: undefined });
+      entry.resolve(result);
+    })
+    .catch(err => {
+      const reason = entry.controller.signal.aborted ? entry.controller.signal.reason : err;
+      const cancelled = reason instanceof JobCancelledError;
+      updateJob(id, {
+        status: cancelled ? 'cancelled' : 'failed',
+        error: cancelled ? undefined : (reason?.message || String(reason)),
+        message: cancelled ? t('jobs.status.cancelled') : t('jobs.status.failed'),
+        finishedAt: Date.now(),
+        resume: undefined
+      });
+      entry.reject(reason);
+    })
+    .finally(() => {
+      clearTimeout(timer);
+      entries.delete(id);
+      pump();
+    });
+};
+
+const register = (job: RenderJob, run: JobRunner, timeoutMs: number): Promise<string> =>
+  new Promise<string>((resolve, reject) => {
+    entries.set(job.id, { run, timeoutMs, controller: new AbortController(), resolve, reject });
+    pump();
+  });
+
+export const subscribeJobs = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getJobs = () => jobs;
+
+export const getMaxConcurrency = () => maxConcurrency;
+
+export const setMaxConcurrency = (value: number) => {
+  maxConcurrency = Math.max(1, Math.min(8, Math.round(value) || 1));
+  localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(maxConcurrency));
+  emit();
+  pump();
+};
+
+/**
+ * 排队一个渲染任务，返回的 Promise 在任务完成、失败、取消或超时时结算
+ */
+export const enqueueRenderJob = (options: EnqueueOptions): Promise<string> => {
+  const job: RenderJob = {
+    id: Math.random().toString(36).substr(2, 9),
+    kind: options.kind,
+    label: options.label,
+    target: options.target,
+    status: 'queued',
+    message: t('jobs.message.queued'),
+    createdAt: Date.now()
+  };
+  jobs = [job, ...jobs].slice(0, MAX_KEPT_JOBS);
+  emit();
+  return register(job, options.run, options.timeoutMs ?? DEFAULT_TIMEOUTS[options.kind]);
+};
+
+export const cancelJob = (id: string) => {
+  const entry = entries.get(id);
+  if (!entry) return;
+  const job = jobs.find(j => j.id === id);
+  if (job?.status === 'queued') {
+    entries.delete(id);
+    updateJob(id, { status: 'cancelled', message: t('jobs.status.cancelled'), finishedAt: Date.now() });
+    entry.reject(new JobCancelledError());
+    return;
+  }
+  entry.controller.abort(new JobCancelledError());
+};
+
+export const clearFinishedJobs = () => {
+  jobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  emit();
+};
+
+/**
+ * 页面刷新后恢复上次未完成的任务：带有 Veo operation 的视频任务重新接上轮询，
+ * 其余任务（运行中的内存状态已丢失）标记为失败。
+ */
+export const resumePersistedJobs = (
+  createRunner: (job: RenderJob) => JobRunner | null
+): { job: RenderJob, promise: Promise<string> }[] => {
+  const resumed: { job: RenderJob, promise: Promise<string> }[] = [];
+  jobs.forEach(job => {
+    if (job.status !== 'queued' && job.status !== 'running') return;
+    if (entries.has(job.id)) return;
+    const run = job.resume ? createRunner(job) : null;
+    if (!run) {
+      updateJob(job.id, { status: 'failed', error: t('jobs.error.interruptedByReload'), message: t('jobs.message.interrupted'), finishedAt: Date.now() });
+      return;
+    }
+    updateJob(job.id, { status: 'queued', message: t('jobs.message.awaitingResume') });
+    resumed.push({ job, promise: register(job, run, DEFAULT_TIMEOUTS[job.kind]) });
+  });
+  return resumed;
+};
+
+export const isJobCancelled = (err: unknown) => err instanceof JobCancelledError;
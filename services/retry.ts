@@ -0,0 +1,52 @@
+import { RateLimitError, isRetryableError, toServiceError } from "./errors";
+import type { RateLimiter } from "./rateLimiter";
+
+/**
+ * 可被 AbortSignal 打断的等待
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(signal.reason); return; }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  maxRetries?: number;
+  initialDelay?: number;
+  signal?: AbortSignal;
+  /** 每次尝试前先从限流器取令牌 */
+  limiter?: RateLimiter;
+}
+
+/**
+ * 通用的重试包装函数，支持指数退避；错误统一归类为 ServiceError，
+ * 仅频率限制与服务端临时故障会重试，并优先采用服务端给出的等待时间
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxRetries = 3, initialDelay = 2000, signal, limiter } = options;
+  let lastError: unknown;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      await limiter?.acquire(signal);
+      return await fn();
+    } catch (error: unknown) {
+      if (signal?.aborted) throw signal.reason ?? error;
+      lastError = toServiceError(error);
+      if (!isRetryableError(lastError) || i === maxRetries - 1) break;
+      const retryAfter = lastError instanceof RateLimitError ? lastError.retryAfterMs : undefined;
+      if (retryAfter) limiter?.pauseFor(retryAfter);
+      const delay = Math.max(retryAfter || 0, initialDelay * Math.pow(2, i));
+      console.warn(`检测到频率限制或服务器压力，将在 ${delay}ms 后进行第 ${i + 1} 次重试...`);
+      await sleep(delay, signal);
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,80 @@
+import { ProductPrompt, ShotDetail } from "../types";
+
+const INSTRUCTION_PATTERN = /^【全局调性】\s*[:：]\s*(.*)$/;
+// 方括号内允许反斜杠转义，机位 / 光线中可以出现 | 与 ]
+const SHOT_PATTERN = /^(?:镜头|Shot)\s*(\d+)\s*(?:\[((?:\\.|[^\]\\])*)\])?\s*[:：]\s*(.*)$/i;
+const ESCAPE = '\\';
+
+const escapeField = (value: string) => value.replace(/[\\|\]]/g, ch => `${ESCAPE}${ch}`);
+
+// 续行若会被误认为镜头行或全局调性行（或本身以反斜杠开头），行首加反斜杠
+const needsLineEscape = (line: string) => SHOT_PATTERN.test(line) || INSTRUCTION_PATTERN.test(line) || line.startsWith(ESCAPE);
+
+const escapeContinuation = (text: string) => text
+  .split('\n')
+  .map((line, i) => i > 0 && needsLineEscape(line.trim()) ? `${ESCAPE}${line.trimStart()}` : line)
+  .join('\n');
+
+/**
+ * 按未转义的 | 拆分机位与光线；多出的分段并入光线，不丢弃内容
+ */
+const splitShotHeader = (header: string): [string, string] => {
+  const parts = [''];
+  for (let i = 0; i < header.length; i++) {
+    const ch = header[i];
+    if (ch === ESCAPE && i + 1 < header.length) parts[parts.length - 1] += header[++i];
+    else if (ch === '|') parts.push('');
+    else parts[parts.length - 1] += ch;
+  }
+  const [cameraAngle = '', ...rest] = parts.map(s => s.trim());
+  return [cameraAngle, rest.join(' | ')];
+};
+
+/**
+ * 将结构化方案展开为可读脚本文本，格式与 parsePromptScript 互逆
+ */
+export const formatPromptForEditing = (p: ProductPrompt): string => {
+  let text = `【全局调性】: ${escapeContinuation(p.instruction)}\n\n`;
+  p.shots.forEach((shot, i) => {
+    text += `镜头 ${i + 1} [${escapeField(shot.cameraAngle)} | ${escapeField(shot.lighting)}]: ${escapeContinuation(shot.description)}\n`;
+  });
+  return text;
+};
+
+/**
+ * 解析手工编辑后的脚本文本，还原为 ProductPrompt。
+ * 镜头行之外的非空行视为上一段（全局调性或镜头描述）的续行；以反斜杠开头的行一律按续行原文处理。
+ */
+export const parsePromptScript = (text: string): ProductPrompt => {
+  const instructionLines: string[] = [];
+  const shots: ShotDetail[] = [];
+  let inShots = false;
+
+  text.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const escaped = line.startsWith(ESCAPE);
+    const content = escaped ? line.slice(1) : line;
+
+    const shotMatch = escaped ? null : line.match(SHOT_PATTERN);
+    if (shotMatch) {
+      inShots = true;
+      const [cameraAngle, lighting] = splitShotHeader(shotMatch[2] || '');
+      shots.push({ cameraAngle, lighting, description: shotMatch[3].trim() });
+      return;
+    }
+
+    if (inShots) {
+      const last = shots[shots.length - 1];
+      last.description = last.description ? `${last.description}\n${content}` : content;
+      return;
+    }
+
+    const instructionMatch = escaped ? null : line.match(INSTRUCTION_PATTERN);
+    instructionLines.push(instructionMatch ? instructionMatch[1].trim() : content);
+  });
+
+  return { instruction: instructionLines.join('\n'), shots };
+};
+
+export const createEmptyShot = (): ShotDetail => ({ cameraAngle: '', lighting: '', description: '' });
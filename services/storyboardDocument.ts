@@ -0,0 +1,120 @@
+import { ProfileField, ProjectSession } from "../types";
+import { PROFILE_FIELDS } from "./profile";
+import { downloadBlob, sanitizeFilename } from "./download";
+import { t, getLocale, getDateLocale } from "./i18n";
+
+const profileLabel = (field: ProfileField) => t(`profile.field.${field}`);
+
+const escapeAttribute = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const escapeHtml = (value: string): string => escapeAttribute(value).replace(/\n/g, '<br />');
+
+// 导入的项目包可能携带任意字符串，图片地址只接受内嵌图片与本地 blob
+const SAFE_IMAGE_SRC = /^(data:image\/[\w.+-]+[;,]|blob:)/i;
+
+const imageTag = (src: string | undefined, className?: string) => src && SAFE_IMAGE_SRC.test(src)
+  ? `<img${className ? ` class="${className}"` : ''} src="${escapeAttribute(src)}" />`
+  : '';
+
+const DOCUMENT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: 'Inter', 'PingFang SC', 'Microsoft YaHei', sans-serif; color: #0f172a; margin: 0; background: #fff; }
+  .page { padding: 48px; page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  h1 { font-size: 40px; font-weight: 900; margin: 0 0 8px; letter-spacing: -0.02em; }
+  h2 { font-size: 26px; font-weight: 900; margin: 0 0 16px; }
+  .meta { color: #94a3b8; font-size: 12px; font-weight: 700; text-transform: uppercase; margin-bottom: 32px; }
+  .profile { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin-bottom: 32px; }
+  .profile div { background: #f8fafc; border-radius: 16px; padding: 16px; font-size: 13px; line-height: 1.6; }
+  .label { display: block; font-size: 10px; font-weight: 900; text-transform: uppercase; color: #94a3b8; margin-bottom: 6px; }
+  .thumbs { display: flex; flex-wrap: wrap; gap: 12px; }
+  .thumbs img { width: 120px; height: 120px; object-fit: cover; border-radius: 12px; border: 1px solid #e2e8f0; }
+  .instruction { background: #f8fafc; border-radius: 16px; padding: 16px; font-size: 13px; line-height: 1.6; margin-bottom: 24px; }
+  .grid-image { width: 100%; border-radius: 16px; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; font-size: 10px; text-transform: uppercase; color: #94a3b8; padding: 8px; border-bottom: 2px solid #e2e8f0; }
+  td { padding: 10px 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; line-height: 1.5; }
+  td.num { font-weight: 900; color: #64748b; width: 32px; }
+  tr { page-break-inside: avoid; }
+  @page { size: A4; margin: 12mm; }
+  @media print { .page { padding: 0; } }
+`;
+
+/**
+ * 生成自包含的分镜交付文档（所有图片以 DataURL 内嵌），可直接保存为 HTML 或打印为 PDF
+ */
+export const buildStoryboardHtml = (session: ProjectSession, title: string): string => {
+  const profile = session.analysis?.globalProfile;
+  const thumbnails = session.assets.filter(a => a.type === 'image');
+
+  const cover = `
+    <section class="page">
+      <h1>${escapeHtml(session.productName || title)}</h1>
+      <p class="meta">Storyboard Pro · ${escapeHtml(t('doc.setCount', { count: session.prompts.length }))} · ${new Date().toLocaleDateString(getDateLocale())}</p>
+      ${profile ? `<div class="profile">${PROFILE_FIELDS.map(field => `<div><span class="label">${escapeHtml(profileLabel(field))}</span>${escapeHtml(profile[field] || '')}</div>`).join('')}</div>` : ''}
+      ${thumbnails.length > 0 ? `<span class="label">${escapeHtml(t('doc.references'))}</span><div class="thumbs">${thumbnails.map(a => imageTag(a.data)).join('')}</div>` : ''}
+    </section>`;
+
+  const sets = session.prompts.map((prompt, setIdx) => `
+    <section class="page">
+      <h2>${escapeHtml(t('doc.set', { index: setIdx + 1 }))}</h2>
+      <div class="instruction"><span class="label">${escapeHtml(t('shots.instruction'))}</span>${escapeHtml(prompt.instruction)}</div>
+      ${imageTag(session.gridImages[setIdx], 'grid-image')}
+      <table>
+        <thead><tr><th>#</th><th>${escapeHtml(t('shots.camera'))}</th><th>${escapeHtml(t('shots.lighting'))}</th><th>${escapeHtml(t('shots.description'))}</th></tr></thead>
+        <tbody>
+          ${prompt.shots.map((shot, i) => `<tr><td class="num">${i + 1}</td><td>${escapeHtml(shot.cameraAngle)}</td><td>${escapeHtml(shot.lighting)}</td><td>${escapeHtml(shot.description)}</td></tr>`).join('')}
+        </tbody>
+      </table>
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(title)} · Storyboard</title>
+<style>${DOCUMENT_STYLES}</style>
+</head>
+<body>${cover}${sets}</body>
+</html>`;
+};
+
+export const exportStoryboardHtml = (session: ProjectSession, title: string) => {
+  const html = buildStoryboardHtml(session, title);
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${sanitizeFilename(title)}_storyboard.html`);
+};
+
+/**
+ * 在隐藏 iframe 中载入文档并调起系统打印，选择“另存为 PDF”即可得到 PDF。
+ * iframe 不允许脚本，文档内容即使被篡改也无法在应用源下执行
+ */
+export const printStoryboardPdf = (session: ProjectSession, title: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    // 保留同源以便调用 print()，但不加 allow-scripts
+    iframe.setAttribute('sandbox', 'allow-same-origin allow-modals');
+    iframe.onload = () => {
+      const win = iframe.contentWindow;
+      if (!win) {
+        iframe.remove();
+        reject(new Error(t('errors.printWindow')));
+        return;
+      }
+      win.document.title = `${sanitizeFilename(title)}_storyboard`;
+      win.focus();
+      win.print();
+      setTimeout(() => iframe.remove(), 1000);
+      resolve();
+    };
+    iframe.srcdoc = buildStoryboardHtml(session, title);
+    document.body.appendChild(iframe);
+  });
@@ -0,0 +1,180 @@
+import { SceneType, StylePreset, VideoAspectRatio, VideoEngine, VideoResolution } from "../types";
+import { STORES, getAll, putOne, deleteOne } from "./db";
+import { downloadBlob, sanitizeFilename } from "./download";
+import { t } from "./i18n";
+
+export const PRESET_FORMAT = 'storyboard-pro-style-presets';
+export const PRESET_SCHEMA_VERSION = 1;
+
+export const SCENE_OPTIONS: SceneType[] = ['Studio', 'Lifestyle', 'Outdoor', 'Tech/Laboratory', 'Cinematic', 'Minimalist'];
+
+const builtIn = (sceneType: SceneType, fields: Pick<StylePreset, 'sceneDescription' | 'lighting' | 'palette' | 'props'>): StylePreset => ({
+  id: builtInPresetId(sceneType),
+  name: sceneType,
+  sceneType,
+  ...fields,
+  banned: '',
+  negativePrompt: '',
+  moodImages: [],
+  builtIn: true,
+  updatedAt: 0
+});
+
+export const builtInPresetId = (sceneType: SceneType) => `builtin-${sceneType}`;
+
+/** 与原先六种场景类型一一对应的内置预设，只读 */
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  builtIn('Studio', { sceneDescription: '专业影棚，无缝背景纸', lighting: '柔光箱主光 + 轮廓光', palette: '中性灰白', props: '亚克力展台' }),
+  builtIn('Lifestyle', { sceneDescription: '真实居家或办公生活场景', lighting: '窗边自然光', palette: '温暖低饱和', props: '日常生活物件' }),
+  builtIn('Outdoor', { sceneDescription: '户外自然环境', lighting: '黄金时段阳光', palette: '自然绿与天空蓝', props: '岩石、植物' }),
+  builtIn('Tech/Laboratory', { sceneDescription: '科技实验室，洁净工业空间', lighting: '冷色硬光与 LED 灯带', palette: '冷蓝、银灰', props: '金属台面、仪器' }),
+  builtIn('Cinematic', { sceneDescription: '电影感叙事场景', lighting: '低调布光，体积光', palette: '青橙对比', props: '烟雾、景深前景' }),
+  builtIn('Minimalist', { sceneDescription: '极简几何空间', lighting: '大面积柔光，弱阴影', palette: '单色或双色', props: '几何体块' })
+];
+
+export const createPresetId = () => `preset-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createEmptyPreset = (sceneType: SceneType = 'Studio'): StylePreset => ({
+  id: createPresetId(),
+  name: t('presets.defaultName'),
+  sceneType,
+  sceneDescription: '',
+  lighting: '',
+  palette: '',
+  props: '',
+  banned: '',
+  negativePrompt: '',
+  moodImages: [],
+  updatedAt: Date.now()
+});
+
+/**
+ * 内置预设在前，自定义预设按最近修改排序
+ */
+export const listPresets = async (): Promise<StylePreset[]> => {
+  const custom = await getAll<StylePreset>(STORES.presets);
+  return [...BUILT_IN_PRESETS, ...custom.sort((a, b) => b.updatedAt - a.updatedAt)];
+};
+
+export const savePreset = (preset: StylePreset): Promise<void> => {
+  if (preset.builtIn) return Promise.reject(new Error(t('presets.builtInReadOnly')));
+  return putOne(STORES.presets, { ...preset, updatedAt: Date.now() });
+};
+
+export const deletePreset = (id: string) => deleteOne(STORES.presets, id);
+
+/**
+ * 按 ID 查找预设；找不到（已删除或未导入）时退回到场景类型对应的内置预设
+ */
+export const resolvePreset = (presets: StylePreset[], id: string | undefined, sceneType: SceneType): StylePreset =>
+  presets.find(p => p.id === id) || BUILT_IN_PRESETS.find(p => p.sceneType === sceneType) || BUILT_IN_PRESETS[0];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// 与预设编辑器中的默认渲染设置选项保持一致
+const RENDER_DEFAULT_OPTIONS = {
+  videoResolution: ['720p', '1080p'] as VideoResolution[],
+  videoAspectRatio: ['9:16', '16:9'] as VideoAspectRatio[],
+  videoEngine: ['veo-3.1-fast-generate-preview', 'veo-3.1-generate-preview'] as VideoEngine[],
+  targetDuration: [5, 12, 19]
+};
+
+const TEXT_FIELDS = ['sceneDescription', 'lighting', 'palette', 'props', 'banned', 'negativePrompt'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const validateRenderDefaults = (data: unknown, path: string): string[] => {
+  if (data === undefined) return [];
+  if (!isObject(data)) return [t('presets.issue.object', { path })];
+  return Object.keys(data)
+    .filter(key => data[key] !== undefined)
+    .filter(key => !(key in RENDER_DEFAULT_OPTIONS) || !(RENDER_DEFAULT_OPTIONS[key as keyof typeof RENDER_DEFAULT_OPTIONS] as unknown[]).includes(data[key]))
+    .map(key => t('presets.issue.invalid', { path: `${path}.${key}`, value: JSON.stringify(data[key]) }));
+};
+
+export const validatePreset = (data: any, path = 'preset'): string[] => {
+  if (!isObject(data)) return [t('presets.issue.object', { path })];
+  const issues: string[] = [];
+  if (!isString(data.id) || !data.id) issues.push(t('presets.issue.missing', { path: `${path}.id` }));
+  if (!isString(data.name) || !data.name.trim()) issues.push(t('presets.issue.missing', { path: `${path}.name` }));
+  if (!SCENE_OPTIONS.includes(data.sceneType as SceneType)) issues.push(t('presets.issue.invalid', { path: `${path}.sceneType`, value: JSON.stringify(data.sceneType) }));
+  TEXT_FIELDS
+    .filter(key => !isString(data[key]))
+    .forEach(key => issues.push(t('presets.issue.string', { path: `${path}.${key}` })));
+  if (!Array.isArray(data.moodImages) || !data.moodImages.every((img: unknown) => isString(img) && img.startsWith('data:image/'))) {
+    issues.push(t('presets.issue.moodImages', { path: `${path}.moodImages` }));
+  }
+  issues.push(...validateRenderDefaults(data.renderDefaults, `${path}.renderDefaults`));
+  return issues;
+};
+
+/**
+ * 只取校验过的字段组装预设，分享文件里的其它字段不写入本地库
+ */
+const toImportedPreset = (data: any): StylePreset => {
+  const renderDefaults = data.renderDefaults
+    ? Object.fromEntries(Object.keys(RENDER_DEFAULT_OPTIONS).filter(key => data.renderDefaults[key] !== undefined).map(key => [key, data.renderDefaults[key]]))
+    : {};
+  return {
+    id: createPresetId(),
+    name: data.name,
+    sceneType: data.sceneType,
+    ...Object.fromEntries(TEXT_FIELDS.map(key => [key, data[key]])) as Pick<StylePreset, typeof TEXT_FIELDS[number]>,
+    moodImages: [...data.moodImages],
+    ...(Object.keys(renderDefaults).length > 0 ? { renderDefaults } : {}),
+    updatedAt: Date.now()
+  };
+};
+
+/**
+ * 解析分享的预设 JSON（单个预设或预设包），导入后一律视为自定义预设。
+ * 每个预设换发新 ID，避免覆盖同 ID 的自定义预设或遮蔽内置预设
+ */
+export const parsePresetFile = (text: string): StylePreset[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('presets.invalidJson'));
+  }
+  const presets: any[] = raw?.format === PRESET_FORMAT ? raw.presets : [raw];
+  if (!Array.isArray(presets)) throw new Error(t('presets.unknownFile'));
+  if (raw?.format === PRESET_FORMAT && Number(raw.schemaVersion) > PRESET_SCHEMA_VERSION) {
+    throw new Error(t('presets.newerVersion', { version: raw.schemaVersion, supported: PRESET_SCHEMA_VERSION }));
+  }
+  const issues = presets.flatMap((p, i) => validatePreset(p, `presets[${i}]`));
+  if (issues.length > 0) throw new Error(t('presets.invalidFile', { issues: issues.join('\n') }));
+  return presets.map(toImportedPreset);
+};
+
+export const exportPresets = (presets: StylePreset[]) => {
+  const payload = { format: PRESET_FORMAT, schemaVersion: PRESET_SCHEMA_VERSION, exportedAt: Date.now(), presets };
+  const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+  const name = presets.length === 1 ? presets[0].name : `${presets.length}-presets`;
+  downloadBlob(blob, `${sanitizeFilename(name)}.style.json`);
+};
+
+/**
+ * 分镜策划 / 导演润色使用的中文风格说明
+ */
+export const describeStyle = (style: StylePreset): string => [
+  `场景：${style.sceneType}${style.sceneDescription ? `，${style.sceneDescription}` : ''}`,
+  style.lighting && `光线：${style.lighting}`,
+  style.palette && `色彩：${style.palette}`,
+  style.props && `道具：${style.props}`,
+  style.banned && `禁止出现：${style.banned}`
+].filter(Boolean).join('；');
+
+/**
+ * 出图与视频提示词末尾附加的风格指令（负面提示词另行传递）
+ */
+export const styleDirectives = (style: StylePreset): string => [
+  `Scene: ${style.sceneType}${style.sceneDescription ? ` — ${style.sceneDescription}` : ''}.`,
+  style.lighting && `Lighting: ${style.lighting}.`,
+  style.palette && `Colour palette: ${style.palette}.`,
+  style.props && `Props: ${style.props}.`,
+  style.banned && `Must not include: ${style.banned}.`
+].filter(Boolean).join(' ');
+
+export const withNegativePrompt = (prompt: string, style: StylePreset) =>
+  style.negativePrompt.trim() ? `${prompt}\nAvoid: ${style.negativePrompt.trim()}` : prompt;
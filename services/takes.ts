@@ -0,0 +1,67 @@
+import { ProjectSession, RenderTake, TakeKind, TakeVerdict } from "../types";
+
+// 每套方案每种输出最多保留的结果数；超出时丢弃最早且未通过的结果
+export const MAX_TAKES_PER_KIND = 8;
+
+export const createTakeId = () => `take-${Math.random().toString(36).substr(2, 9)}`;
+
+export const createTake = (kind: TakeKind, url: string, extras: Pick<RenderTake, 'videoId' | 'provenance'> = {}): RenderTake => ({
+  id: createTakeId(),
+  kind,
+  url,
+  ...extras,
+  createdAt: Date.now()
+});
+
+export const getTakesOfKind = (takes: RenderTake[] = [], kind: TakeKind) => takes.filter(take => take.kind === kind);
+
+export const getApprovedTake = (takes: RenderTake[] = [], kind: TakeKind) =>
+  takes.find(take => take.kind === kind && take.verdict === 'approved');
+
+export const addTake = (takes: RenderTake[] = [], take: RenderTake): RenderTake[] => {
+  let next = [...takes, take];
+  while (getTakesOfKind(next, take.kind).length > MAX_TAKES_PER_KIND) {
+    const oldest = next.find(t => t.kind === take.kind && t.verdict !== 'approved');
+    if (!oldest) break;
+    next = next.filter(t => t !== oldest);
+  }
+  return next;
+};
+
+export const updateTake = (takes: RenderTake[] = [], id: string, patch: Partial<RenderTake>) =>
+  takes.map(take => take.id === id ? { ...take, ...patch } : take);
+
+/**
+ * 每种输出只能有一个通过的结果，通过新结果时撤销原先的通过标记
+ */
+export const setTakeVerdict = (takes: RenderTake[] = [], id: string, verdict?: TakeVerdict): RenderTake[] => {
+  const target = takes.find(take => take.id === id);
+  if (!target) return takes;
+  return takes.map(take => {
+    if (take.id === id) return { ...take, verdict };
+    if (verdict === 'approved' && take.kind === target.kind && take.verdict === 'approved') return { ...take, verdict: undefined };
+    return take;
+  });
+};
+
+/**
+ * 工作区当前展示的结果：视频优先按视频库 ID 匹配，本地播放地址在重新加载后会变化
+ */
+export const isActiveTake = (take: RenderTake, activeUrl?: string, activeVideoId?: string) =>
+  take.videoId && activeVideoId ? take.videoId === activeVideoId : !!activeUrl && take.url === activeUrl;
+
+/**
+ * 旧项目没有结果记录：把当前的宫格图与整套视频各作为一个结果
+ */
+export const seedTakes = (session: ProjectSession): Record<number, RenderTake[]> => {
+  const takes: Record<number, RenderTake[]> = {};
+  Object.entries(session.gridImages).forEach(([key, url]) => {
+    const setIdx = Number(key);
+    takes[setIdx] = [...(takes[setIdx] || []), createTake('grid', url, { provenance: session.gridProvenance?.[setIdx] })];
+  });
+  Object.entries(session.videoUrls).forEach(([key, url]) => {
+    const setIdx = Number(key);
+    takes[setIdx] = [...(takes[setIdx] || []), createTake('video', url, { videoId: session.videoIds?.[setIdx], provenance: session.videoProvenance?.[setIdx] })];
+  });
+  return takes;
+};
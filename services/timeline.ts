@@ -0,0 +1,207 @@
+import { TimelineClip } from "../types";
+import { t } from "./i18n";
+
+const EDL_FPS = 24;
+
+export const getClipLength = (clip: TimelineClip) => Math.max(0, clip.trimEnd - clip.trimStart);
+
+export const getTimelineDuration = (clips: TimelineClip[]) => clips.reduce((sum, clip) => sum + getClipLength(clip), 0);
+
+/**
+ * 读取视频元数据获取时长
+ */
+export const getVideoDuration = (url: string): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => resolve(Number.isFinite(video.duration) ? video.duration : 0);
+    video.onerror = () => reject(new Error(t('errors.videoMetadata')));
+    video.src = url;
+  });
+
+const toTimecode = (seconds: number, fps = EDL_FPS): string => {
+  const totalFrames = Math.round(seconds * fps);
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+};
+
+export const clipFilename = (clip: TimelineClip) => `set${clip.setIdx + 1}_shot${clip.shotIdx + 1}.mp4`;
+
+/**
+ * 供剪辑软件参考的 JSON 时间线
+ */
+export const buildTimelineJson = (clips: TimelineClip[], title: string) => {
+  let cursor = 0;
+  return {
+    title,
+    fps: EDL_FPS,
+    duration: getTimelineDuration(clips),
+    clips: clips.map((clip, i) => {
+      const entry = {
+        index: i + 1,
+        file: clipFilename(clip),
+        setIndex: clip.setIdx + 1,
+        shotIndex: clip.shotIdx + 1,
+        sourceIn: clip.trimStart,
+        sourceOut: clip.trimEnd,
+        recordIn: cursor,
+        recordOut: cursor + getClipLength(clip)
+      };
+      cursor = entry.recordOut;
+      return entry;
+    })
+  };
+};
+
+/**
+ * CMX3600 格式 EDL，可导入 Premiere / DaVinci / Final Cut
+ */
+export const buildEdl = (clips: TimelineClip[], title: string): string => {
+  const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', ''];
+  let cursor = 0;
+  clips.forEach((clip, i) => {
+    const length = getClipLength(clip);
+    const event = String(i + 1).padStart(3, '0');
+    const reel = `S${clip.setIdx + 1}K${clip.shotIdx + 1}`.padEnd(8, ' ');
+    lines.push(`${event}  ${reel} V     C        ${toTimecode(clip.trimStart)} ${toTimecode(clip.trimEnd)} ${toTimecode(cursor)} ${toTimecode(cursor + length)}`);
+    lines.push(`* FROM CLIP NAME: ${clipFilename(clip)}`);
+    lines.push('');
+    cursor += length;
+  });
+  return lines.join('\n');
+};
+
+const pickRecorderMimeType = (): string => {
+  const candidates = ['video/mp4;codecs=avc1,mp4a', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || 'video/webm';
+};
+
+// 无法解码的片段在部分浏览器里既不报错也不触发事件，超时后按加载失败处理
+const CLIP_EVENT_TIMEOUT = 15000;
+
+const waitForClipEvent = (video: HTMLVideoElement, event: 'loadeddata' | 'seeked', index: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onDone);
+      video.removeEventListener('error', onError);
+    };
+    const onDone = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(t('errors.clipLoad', { index }))); };
+    const timer = setTimeout(onError, CLIP_EVENT_TIMEOUT);
+    video.addEventListener(event, onDone);
+    video.addEventListener('error', onError);
+  });
+
+const seekTo = (video: HTMLVideoElement, time: number, index: number): Promise<void> => {
+  const seeked = waitForClipEvent(video, 'seeked', index);
+  video.currentTime = time;
+  return seeked;
+};
+
+/**
+ * 在浏览器内把多段视频按入/出点依次播放到画布上，并用 MediaRecorder 录制成单个文件。
+ * 录制为实时进行，耗时约等于时间线总长度；浏览器支持时输出 MP4，否则输出 WebM。
+ */
+export const concatenateClips = async (
+  clips: TimelineClip[],
+  size: { width: number, height: number },
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  if (typeof MediaRecorder === 'undefined') throw new Error(t('errors.recorderUnsupported'));
+
+  // 先转为同源 Blob URL，避免跨域视频污染画布；任一片段下载失败时回收已创建的地址
+  const settled = await Promise.allSettled(clips.map(async clip => {
+    if (clip.url.startsWith('blob:') || clip.url.startsWith('data:')) return clip.url;
+    const response = await fetch(clip.url);
+    if (!response.ok) throw new Error(t('errors.clipDownload', { status: response.status }));
+    return URL.createObjectURL(await response.blob());
+  }));
+  const sources = settled.map(result => result.status === 'fulfilled' ? result.value : '');
+  const revokeSources = () => sources.forEach((src, i) => { if (src && src !== clips[i].url) URL.revokeObjectURL(src); });
+  const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  try {
+    if (failure) throw failure.reason;
+    return await recordClips(clips, sources, size, onProgress);
+  } finally {
+    revokeSources();
+  }
+};
+
+// 逐段播放到画布并录制；sources 为与 clips 一一对应的同源地址
+const recordClips = async (
+  clips: TimelineClip[],
+  sources: string[],
+  size: { width: number, height: number },
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('errors.canvas'));
+
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.crossOrigin = 'anonymous';
+
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  audioContext.createMediaElementSource(video).connect(audioDestination);
+
+  const stream = new MediaStream([...canvas.captureStream(30).getVideoTracks(), ...audioDestination.stream.getAudioTracks()]);
+  const mimeType = pickRecorderMimeType();
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const drawFrame = () => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (video.videoWidth && video.videoHeight) {
+      const scale = Math.min(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+      const w = video.videoWidth * scale;
+      const h = video.videoHeight * scale;
+      ctx.drawImage(video, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    }
+  };
+
+  try {
+    recorder.start();
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i];
+      const loaded = waitForClipEvent(video, 'loadeddata', i + 1);
+      video.src = sources[i];
+      await loaded;
+      await seekTo(video, clip.trimStart, i + 1);
+      await video.play();
+      await new Promise<void>((resolve, reject) => {
+        const tick = () => {
+          if (video.error) {
+            reject(new Error(t('errors.clipLoad', { index: i + 1 })));
+            return;
+          }
+          drawFrame();
+          if (video.currentTime >= clip.trimEnd || video.ended) {
+            video.pause();
+            resolve();
+            return;
+          }
+          requestAnimationFrame(tick);
+        };
+        tick();
+      });
+      onProgress?.(i + 1, clips.length);
+    }
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    await stopped;
+    audioContext.close();
+  }
+
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
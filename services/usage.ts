@@ -0,0 +1,256 @@
+import { UsageRecord, UsageStep, VideoRenderConfig } from "../types";
+import { STORES, getAll, putOne, clearStore } from "./db";
+import { BudgetExceededError, BudgetScope } from "./errors";
+import { getModelConfig } from "./modelConfig";
+
+export interface ModelPrice {
+  /** 每百万输入 / 输出 token 的美元价格 */
+  input?: number;
+  output?: number;
+  /** 每张生成图片 */
+  image?: number;
+  /** 每秒生成视频 */
+  videoSecond?: number;
+}
+
+// 按模型名匹配，越具体的规则越靠前；价格取公开标价的近似值，只用于估算
+const PRICE_RULES: { match: string; price: ModelPrice }[] = [
+  { match: 'veo-3.1-fast', price: { videoSecond: 0.15 } },
+  { match: 'veo', price: { videoSecond: 0.4 } },
+  { match: 'flash-image', price: { input: 0.3, image: 0.039 } },
+  { match: 'pro-image', price: { input: 2, image: 0.134 } },
+  { match: 'flash-lite', price: { input: 0.1, output: 0.4 } },
+  { match: 'flash', price: { input: 0.5, output: 3 } },
+  { match: 'pro', price: { input: 2, output: 12 } }
+];
+
+// 未知模型按较贵的档位估算，宁可高估
+const FALLBACK_PRICE: ModelPrice = { input: 2, output: 12, image: 0.134, videoSecond: 0.4 };
+
+export const getModelPrice = (model: string): ModelPrice =>
+  PRICE_RULES.find(rule => model.includes(rule.match))?.price || FALLBACK_PRICE;
+
+export interface UsageAmount {
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  videoSeconds?: number;
+}
+
+/**
+ * 按价目表折算美元；图像模型的输出 token 就是图片本身，按张计费不再重复计算
+ */
+export const estimateCost = (model: string, amount: UsageAmount): number => {
+  const price = getModelPrice(model);
+  const { inputTokens = 0, outputTokens = 0, images = 0, videoSeconds = 0 } = amount;
+  const outputCost = images > 0 && price.image !== undefined ? images * price.image : outputTokens / 1e6 * (price.output ?? 0);
+  return inputTokens / 1e6 * (price.input ?? 0) + outputCost + videoSeconds * (price.videoSecond ?? 0);
+};
+
+/** Veo 首段与每轮延展实际生成的秒数；延展轮次与费用估算共用 */
+export const VEO_INITIAL_SECONDS = 8;
+export const VEO_EXTENSION_SECONDS = 7;
+
+/** 首段之后还需延展几轮才能达到目标时长（5 / 12 / 19 秒分别为 0 / 1 / 2 轮） */
+export const getExtensionRounds = (targetDuration: number) =>
+  targetDuration > VEO_INITIAL_SECONDS ? Math.ceil((targetDuration - VEO_INITIAL_SECONDS) / VEO_EXTENSION_SECONDS) : 0;
+
+// 中英文混排的提示词按约 2 字符 / token 粗估
+const CHARS_PER_TOKEN = 2;
+/** 参考图、视频素材作为输入时的大致 token 数 */
+export const IMAGE_INPUT_TOKENS = 258;
+export const VIDEO_INPUT_TOKENS = 3000;
+// 分镜 JSON 中每个镜头（或全局指令）的大致输出 token 数
+const TOKENS_PER_SHOT = 150;
+// 出图请求中提示词与风格指令的大致 token 数
+const IMAGE_PROMPT_TOKENS = 500;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateStoryboardTokens = (setCount: number, shotCount: number) => setCount * (shotCount + 1) * TOKENS_PER_SHOT;
+
+export const estimateStoryboardCost = (setCount: number, shotCount: number, model = getModelConfig().storyboardModel) =>
+  estimateCost(model, { inputTokens: 1500, outputTokens: estimateStoryboardTokens(setCount, shotCount) });
+
+export const estimateImageCost = (referenceImages = 1, model = getModelConfig().imageModel) =>
+  estimateCost(model, { inputTokens: IMAGE_PROMPT_TOKENS + referenceImages * IMAGE_INPUT_TOKENS, images: 1 });
+
+/**
+ * 首段按所选引擎计费，延展轮次按延展模型计费
+ */
+export const estimateVideoCost = (config: VideoRenderConfig, extensionModel = getModelConfig().videoExtensionModel) =>
+  estimateCost(config.engine, { videoSeconds: VEO_INITIAL_SECONDS })
+  + estimateCost(extensionModel, { videoSeconds: getExtensionRounds(config.targetDuration) * VEO_EXTENSION_SECONDS });
+
+export const formatCost = (usd: number) => usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`;
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  /** 本次会话的上限（美元），null 为不限 */
+  sessionLimit: number | null;
+  /** 单个项目的累计上限（美元），null 为不限 */
+  projectLimit: number | null;
+  mode: BudgetMode;
+  /** 单步估算费用达到该值时先请用户确认，null 为从不确认 */
+  confirmAbove: number | null;
+}
+
+export interface BudgetWarning {
+  scope: BudgetScope;
+  limit: number;
+  spent: number;
+  estimate: number;
+}
+
+export interface UsageState {
+  records: UsageRecord[];
+  budget: BudgetSettings;
+  warning: BudgetWarning | null;
+}
+
+const BUDGET_STORAGE_KEY = 'usage_budget';
+
+export const DEFAULT_BUDGET: BudgetSettings = { sessionLimit: null, projectLimit: null, mode: 'warn', confirmAbove: 1 };
+
+const readBudget = (): BudgetSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_BUDGET, ...(parsed && typeof parsed === 'object' ? parsed : {}) };
+  } catch (e) {
+    return DEFAULT_BUDGET;
+  }
+};
+
+/** 页面会话：刷新或重新打开页面即开始新的会话 */
+export const USAGE_SESSION_ID = `session-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 5)}`;
+
+let state: UsageState = { records: [], budget: readBudget(), warning: null };
+let loading: Promise<void> | null = null;
+let currentProjectId: string | null = null;
+const listeners = new Set<() => void>();
+
+const setState = (patch: Partial<UsageState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * 首次使用时从 IndexedDB 读入历史记录；加载完成前已记下的记录按 ID 去重保留
+ */
+export const loadUsage = (): Promise<void> => {
+  if (!loading) {
+    loading = getAll<UsageRecord>(STORES.usage)
+      .then(stored => {
+        const known = new Set(stored.map(r => r.id));
+        setState({ records: [...stored, ...state.records.filter(r => !known.has(r.id))].sort((a, b) => a.createdAt - b.createdAt) });
+      })
+      .catch(err => console.warn('用量记录读取失败', err));
+  }
+  return loading;
+};
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  loadUsage();
+  return () => { listeners.delete(listener); };
+};
+
+export const getUsageState = () => state;
+
+/** 界面切换项目时更新，未显式指定项目的调用计入当前项目 */
+export const setUsageProject = (projectId: string | null) => {
+  currentProjectId = projectId;
+};
+
+const resolveProject = (projectId?: string | null) => projectId !== undefined ? projectId : currentProjectId;
+
+export const recordUsage = (step: UsageStep, model: string, amount: UsageAmount, projectId?: string | null): UsageRecord => {
+  const record: UsageRecord = {
+    id: `usage-${Math.random().toString(36).substr(2, 9)}`,
+    sessionId: USAGE_SESSION_ID,
+    projectId: resolveProject(projectId),
+    step,
+    model,
+    inputTokens: amount.inputTokens || 0,
+    outputTokens: amount.outputTokens || 0,
+    images: amount.images || 0,
+    videoSeconds: amount.videoSeconds || 0,
+    cost: estimateCost(model, amount),
+    createdAt: Date.now()
+  };
+  setState({ records: [...state.records, record] });
+  putOne(STORES.usage, record).catch(err => console.warn('用量记录保存失败', err));
+  return record;
+};
+
+export const getSessionRecords = (records = state.records) => records.filter(r => r.sessionId === USAGE_SESSION_ID);
+
+export const getProjectRecords = (projectId: string, records = state.records) => records.filter(r => r.projectId === projectId);
+
+export const sumCost = (records: UsageRecord[]) => records.reduce((sum, r) => sum + r.cost, 0);
+
+/**
+ * 调用前检查：估算费用会让会话或项目累计超出上限时，拦截模式抛出 BudgetExceededError，
+ * 提醒模式照常放行并记下警告供界面提示
+ */
+export const checkBudget = async (estimate: number, projectId?: string | null): Promise<void> => {
+  await loadUsage();
+  const { budget } = state;
+  const project = resolveProject(projectId);
+  const checks: BudgetWarning[] = [];
+  if (budget.sessionLimit !== null) {
+    checks.push({ scope: 'session', limit: budget.sessionLimit, spent: sumCost(getSessionRecords()), estimate });
+  }
+  if (budget.projectLimit !== null && project) {
+    checks.push({ scope: 'project', limit: budget.projectLimit, spent: sumCost(getProjectRecords(project)), estimate });
+  }
+  const exceeded = checks.find(check => check.spent + estimate > check.limit);
+  if (!exceeded) return;
+  if (budget.mode === 'block') throw new BudgetExceededError(exceeded.scope, exceeded.limit, exceeded.spent, estimate);
+  setState({ warning: exceeded });
+};
+
+export const dismissBudgetWarning = () => setState({ warning: null });
+
+export const saveBudget = (budget: BudgetSettings) => {
+  localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  setState({ budget, warning: null });
+};
+
+export const clearUsage = async (): Promise<void> => {
+  await clearStore(STORES.usage);
+  setState({ records: [], warning: null });
+};
+
+export interface UsageSummary {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => records.reduce((sum, r) => ({
+  calls: sum.calls + 1,
+  inputTokens: sum.inputTokens + r.inputTokens,
+  outputTokens: sum.outputTokens + r.outputTokens,
+  images: sum.images + r.images,
+  videoSeconds: sum.videoSeconds + r.videoSeconds,
+  cost: sum.cost + r.cost
+}), { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, videoSeconds: 0, cost: 0 });
+
+/**
+ * 按模型、步骤或项目分组汇总，费用高的在前
+ */
+export const groupUsage = (records: UsageRecord[], by: 'model' | 'step' | 'projectId'): [string, UsageSummary][] => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => {
+    const key = String(r[by] ?? '');
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, list]) => [key, summarizeUsage(list)] as [string, UsageSummary])
+    .sort((a, b) => b[1].cost - a[1].cost);
+};
@@ -0,0 +1,117 @@
+import { ProjectSession, RenderProvenance, VideoRecord, VideoRenderConfig } from "../types";
+import { STORES, getAll, getOne, putOne, deleteOne } from "./db";
+import { downloadBlob, sanitizeFilename } from "./download";
+import { getVideoDuration } from "./timeline";
+import { t } from "./i18n";
+
+export interface VideoArchiveMeta {
+  projectId: string | null;
+  projectName: string;
+  productName: string;
+  setIdx: number;
+  shotIdx?: number;
+  prompt: string;
+  config: VideoRenderConfig;
+  provenance?: RenderProvenance;
+}
+
+// 同一条记录只创建一次 Object URL，删除时回收
+const objectUrls = new Map<string, string>();
+
+export const createVideoId = () => `video-${Math.random().toString(36).substr(2, 9)}`;
+
+export const getPlaybackUrl = (record: VideoRecord): string => {
+  let url = objectUrls.get(record.id);
+  if (!url) {
+    url = URL.createObjectURL(record.blob);
+    objectUrls.set(record.id, url);
+  }
+  return url;
+};
+
+/**
+ * 把渲染结果（会过期的远程地址或临时 Blob URL）下载后存入本地视频库
+ */
+export const archiveVideo = async (url: string, meta: VideoArchiveMeta): Promise<VideoRecord> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(t('videos.downloadFailed', { status: response.status }));
+  const blob = await response.blob();
+  const { config, ...rest } = meta;
+  const record: VideoRecord = {
+    ...rest,
+    id: createVideoId(),
+    engine: config.engine,
+    resolution: config.resolution,
+    aspectRatio: config.aspectRatio,
+    targetDuration: config.targetDuration,
+    duration: config.targetDuration,
+    blob,
+    mimeType: blob.type || 'video/mp4',
+    size: blob.size,
+    createdAt: Date.now()
+  };
+  record.duration = await getVideoDuration(getPlaybackUrl(record)).catch(() => 0) || config.targetDuration;
+  await putOne(STORES.videos, record);
+  return record;
+};
+
+/**
+ * 按生成时间倒序列出，projectId 非空时只列该项目的视频
+ */
+export const listVideos = async (projectId?: string | null): Promise<VideoRecord[]> => {
+  const records = await getAll<VideoRecord>(STORES.videos);
+  return records
+    .filter(r => projectId === undefined || r.projectId === projectId)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getVideo = (id: string) => getOne<VideoRecord>(STORES.videos, id);
+
+export const deleteVideo = async (id: string): Promise<void> => {
+  await deleteOne(STORES.videos, id);
+  const url = objectUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(id);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * 如 智能美妆镜_set2_shot3_fast_1080p_9x16_20260118-1530.mp4
+ */
+export const videoFilename = (record: VideoRecord): string => {
+  const date = new Date(record.createdAt);
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  const parts = [
+    record.productName || record.projectName,
+    `set${record.setIdx + 1}`,
+    record.shotIdx !== undefined ? `shot${record.shotIdx + 1}` : '',
+    record.engine.includes('fast') ? 'fast' : 'standard',
+    record.resolution,
+    record.aspectRatio.replace(':', 'x'),
+    stamp
+  ].filter(Boolean);
+  const extension = record.mimeType.includes('webm') ? 'webm' : 'mp4';
+  return `${sanitizeFilename(parts.join('_'))}.${extension}`;
+};
+
+export const downloadVideo = (record: VideoRecord) => downloadBlob(record.blob, videoFilename(record));
+
+/**
+ * 把项目中引用的视频库条目换成本地播放地址；条目已被删除（或来自他人导出的项目包）时保留原地址
+ */
+export const resolveSessionVideos = async (session: ProjectSession): Promise<ProjectSession> => {
+  const resolve = async (id: string | undefined, fallback: string) => {
+    const record = id ? await getVideo(id).catch(() => undefined) : undefined;
+    return record ? getPlaybackUrl(record) : fallback;
+  };
+  const videoUrls = { ...session.videoUrls };
+  await Promise.all(Object.entries(session.videoIds || {}).map(async ([key, id]) => {
+    videoUrls[Number(key)] = await resolve(id, videoUrls[Number(key)]);
+  }));
+  const sequences = Object.fromEntries(await Promise.all(Object.entries(session.sequences || {}).map(async ([key, clips]) =>
+    [key, await Promise.all(clips.map(async clip => ({ ...clip, url: await resolve(clip.videoId, clip.url) })))] as const)));
+  const takes = Object.fromEntries(await Promise.all(Object.entries(session.takes || {}).map(async ([key, list]) =>
+    [key, await Promise.all(list.map(async take => take.kind === 'video' ? { ...take, url: await resolve(take.videoId, take.url) } : take))] as const)));
+  return { ...session, videoUrls, sequences, takes };
+};
@@ -1,7 +1,23 @@
 
+export type CaptureAngle = 'front' | 'back' | 'side' | 'top' | 'detail' | 'in-hand';
+
+export interface MediaAsset {
+  id: string;
+  data: string;
+  type: 'image' | 'video';
+  mimeType?: string;    // 上传时按文件头识别的真实格式
+  name?: string;
+  keyframes?: string[]; // 视频关键帧（JPEG DataURL），可作为视觉参考
+  angle?: CaptureAngle; // 引导拍摄时标注的拍摄角度
+}
+
+export type AssetAnalysisStatus = 'pending' | 'running' | 'done' | 'failed';
+
 export interface IndividualAnalysis {
   id: string;
   description: string;
+  status?: AssetAnalysisStatus; // 缺省视为 done（兼容旧项目）
+  error?: string;
 }
 
 export interface ShotDetail {
@@ -33,13 +49,33 @@ export interface ProductAnalysis {
     scenarios: string;  // 使用场景
     motion: string;     // 运动/动态规律
   };
+  lockedFields?: ProfileField[]; // 重新合成时保留的手工字段
+  profileSource?: ProfileSource; // 基因档案的来源
+  brief?: string;                // 文字资料（规格说明 / 营销简报）
 }
 
+export type ProfileSource = 'images' | 'text' | 'hybrid';
+
+export type ProfileField = keyof ProductAnalysis['globalProfile'];
+
+export type OutputLanguage = 'zh' | 'en';
+export type OutputStage = 'analysis' | 'profile' | 'storyboard' | 'refine';
+export type OutputLanguages = Record<OutputStage, OutputLanguage>;
+
 export type SceneType = 'Studio' | 'Lifestyle' | 'Outdoor' | 'Tech/Laboratory' | 'Cinematic' | 'Minimalist';
 export type VideoResolution = '720p' | '1080p';
 export type VideoAspectRatio = '16:9' | '9:16';
+export type GridAspectRatio = '16:9' | '9:16' | '1:1';
 export type VideoEngine = 'veo-3.1-fast-generate-preview' | 'veo-3.1-generate-preview';
 
+export interface VideoRenderConfig {
+  resolution: VideoResolution;
+  aspectRatio: VideoAspectRatio;
+  targetDuration: number;
+  engine: VideoEngine;
+  negativePrompt?: string; // 来自风格预设
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   ANALYZING_INDIVIDUAL = 'ANALYZING_INDIVIDUAL',
@@ -51,3 +87,268 @@ export enum AppState {
   GENERATING_VIDEO = 'GENERATING_VIDEO',
   COMPLETED = 'COMPLETED'
 }
+
+export interface RenderSettings {
+  promptCount: number;
+  language: OutputLanguage;            // 分镜脚本语言，与 outputLanguages.storyboard 保持一致
+  outputLanguages?: OutputLanguages;   // 各阶段输出语言，缺省时全部沿用 language
+  sceneType: SceneType;
+  videoResolution: VideoResolution;
+  videoAspectRatio: VideoAspectRatio;
+  videoEngine: VideoEngine;
+  targetDuration: number;
+  stylePresetId?: string; // 全局风格预设，缺省时按 sceneType 使用内置预设
+  shotCount?: number;      // 每套方案的镜头数，决定宫格行列
+  gridAspectRatio?: GridAspectRatio;
+}
+
+/**
+ * 宫格布局：rows x cols 个分镜格，整张宫格图按 aspectRatio 出图
+ */
+export interface GridLayout {
+  rows: number;
+  cols: number;
+  aspectRatio: GridAspectRatio;
+}
+
+/**
+ * 品牌风格预设：场景、光线、色彩、道具、禁用元素与情绪参考，贯穿分镜、润色、出图与视频
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  sceneType: SceneType;
+  sceneDescription: string;
+  lighting: string;
+  palette: string;
+  props: string;
+  banned: string;          // 禁止出现的元素
+  negativePrompt: string;  // 出图 / 视频的负面提示词
+  moodImages: string[];    // 情绪参考图 DataURL
+  renderDefaults?: Partial<Pick<RenderSettings, 'videoResolution' | 'videoAspectRatio' | 'videoEngine' | 'targetDuration'>>;
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+/**
+ * 工作区的完整快照，用于持久化与一键恢复
+ */
+export interface ProjectSession {
+  productName: string;
+  productBrief: string;
+  assets: MediaAsset[];
+  analysis: ProductAnalysis | null;
+  prompts: ProductPrompt[];
+  refinedPrompts: Record<number, string>;
+  gridImages: Record<number, string>;
+  videoUrls: Record<number, string>;
+  videoIds?: Record<number, string>;    // 整套视频在本地视频库中的条目 ID
+  promptHistory?: Record<number, PromptVersion[]>;     // 每套方案的脚本 / 导演指令版本
+  gridProvenance?: Record<number, RenderProvenance>;   // 宫格图由哪个版本与参数生成
+  videoProvenance?: Record<number, RenderProvenance>;
+  takes?: Record<number, RenderTake[]>;  // 每套方案历次出图与视频渲染的结果及评分
+  sequences?: Record<number, TimelineClip[]>;
+  setStyles?: Record<number, string>;   // 单套方案覆盖的风格预设 ID
+  stylePresets?: StylePreset[];         // 引用到的自定义预设快照，保证项目包可移植
+  settings: RenderSettings;
+}
+
+export interface ProjectRecord {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string;
+  session: ProjectSession;
+}
+
+/**
+ * 时间线上的一段镜头视频，trimStart / trimEnd 为源片段内的入点与出点（秒）
+ */
+export interface TimelineClip {
+  id: string;
+  setIdx: number;
+  shotIdx: number;
+  url: string;
+  duration: number;
+  trimStart: number;
+  trimEnd: number;
+  videoId?: string; // 本地视频库中的条目 ID
+  provenance?: RenderProvenance;
+}
+
+export type PromptVersionSource = 'generated' | 'regenerated' | 'shot' | 'edited' | 'refined' | 'reverted';
+
+/**
+ * 单套方案在某一时刻的脚本与导演指令快照
+ */
+export interface PromptVersion {
+  id: string;
+  source: PromptVersionSource;
+  prompt: ProductPrompt;
+  refined?: string;
+  createdAt: number;
+}
+
+export type RenderReferenceKind = 'asset' | 'grid' | 'panel' | 'none';
+
+/**
+ * 渲染结果的来源：提示词版本、实际提交的完整提示词、参考图与渲染参数
+ */
+export interface RenderProvenance {
+  versionId?: string;
+  prompt: string;
+  reference: {
+    kind: RenderReferenceKind;
+    thumbnail?: string;  // 压缩后的参考图 DataURL
+    panelIdx?: number;
+  };
+  settings: {
+    model: string;
+    stylePresetName: string;
+    layout?: string;            // 宫格行列，如 3x3
+    aspectRatio: string;
+    resolution?: VideoResolution;
+    targetDuration?: number;
+  };
+  redrawnPanels?: number[];     // 出图后单独重绘过的分镜帧
+  createdAt: number;
+}
+
+/**
+ * 批量清单中的一个产品：素材按文件名匹配，未填写的参数取当前全局设置
+ */
+export interface BatchProductSpec {
+  productName: string;
+  brief: string;
+  assetNames: string[];
+  style: string;          // 风格预设 ID / 名称或场景类型，空为全局预设
+  promptCount: number;
+  shotCount: number;
+  gridAspectRatio: GridAspectRatio;
+  renderVideos: boolean;
+  videoResolution: VideoResolution;
+  videoAspectRatio: VideoAspectRatio;
+  videoEngine: VideoEngine;
+  targetDuration: number;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'partial' | 'failed' | 'cancelled';
+export type BatchStage = 'ingest' | 'analysis' | 'profile' | 'storyboards' | 'grids' | 'videos';
+
+export interface BatchItemResult {
+  spec: BatchProductSpec;
+  status: BatchItemStatus;
+  stage?: BatchStage;
+  projectId?: string;
+  error?: string;
+  warnings: string[];
+  sets: number;
+  grids: number;
+  videos: number;
+  cost?: number;          // 该产品的估算费用（美元）
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type TakeKind = 'grid' | 'video';
+export type TakeVerdict = 'approved' | 'rejected';
+
+/**
+ * 同一套方案的一次出图或整套视频渲染结果，保留下来供对比与评分
+ */
+export interface RenderTake {
+  id: string;
+  kind: TakeKind;
+  url: string;
+  videoId?: string;
+  provenance?: RenderProvenance;
+  rating?: number;        // 1-5 星，未评分为空
+  verdict?: TakeVerdict;  // 通过的结果即为该方案的最终输出
+  createdAt: number;
+}
+
+/**
+ * 本地视频库中的一条渲染结果：视频文件本身与生成它的参数
+ */
+export interface VideoRecord {
+  id: string;
+  projectId: string | null;
+  projectName: string;
+  productName: string;
+  setIdx: number;
+  shotIdx?: number;       // 逐镜头序列渲染的镜头序号，整套视频为空
+  prompt: string;
+  provenance?: RenderProvenance;
+  engine: VideoEngine;
+  resolution: VideoResolution;
+  aspectRatio: VideoAspectRatio;
+  targetDuration: number;
+  duration: number;       // 实际时长（秒）
+  blob: Blob;
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+export type UsageStep = 'analysis' | 'profile' | 'storyboard' | 'refine' | 'grid' | 'panel' | 'video' | 'video-extension';
+
+/**
+ * 一次模型调用的用量；费用按调用时的价目表估算，单位美元
+ */
+export interface UsageRecord {
+  id: string;
+  sessionId: string;      // 页面会话，刷新后为新会话
+  projectId: string | null;
+  step: UsageStep;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videoSeconds: number;
+  cost: number;
+  createdAt: number;
+}
+
+export type RenderJobKind = 'image' | 'video';
+export type RenderJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Veo 长任务的可恢复状态：当前轮次的 operation 名称与延展进度
+ */
+export interface VideoOperationState {
+  operationName: string;
+  stage: number;        // 0 为初始渲染，之后每轮 +1 为延展
+  totalStages: number;
+  previousVideo?: { uri?: string; mimeType?: string };
+}
+
+/**
+ * 渲染任务完成后结果写回的位置
+ */
+export interface RenderJobTarget {
+  type: 'grid' | 'panel' | 'set-video' | 'sequence-clip';
+  projectId: string | null;
+  setIdx: number;
+  shotIdx?: number;
+}
+
+export interface RenderJob {
+  id: string;
+  kind: RenderJobKind;
+  label: string;
+  target: RenderJobTarget;
+  status: RenderJobStatus;
+  message: string;
+  error?: string;
+  result?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  resume?: {
+    prompt: string;
+    config: VideoRenderConfig;
+    operation: VideoOperationState;
+    provenance?: RenderProvenance;
+  };
+}
@@ -1,18 +1,36 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { PROXY_PATH, geminiProxyPlugin, parseAllowedHosts } from './server/geminiProxy.mjs';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // API_PROXY=true 时 Key 只留在服务端，浏览器经同源代理访问 Gemini
+    const useProxy = env.API_PROXY === 'true';
+    const clientKey = useProxy ? '' : env.GEMINI_API_KEY;
+    // 代理持有 Key，开启时只监听本机；需要局域网访问时把主机名加入 PROXY_ALLOWED_HOSTS 并设置 HOST
+    const host = useProxy ? env.HOST || '127.0.0.1' : '0.0.0.0';
+    const allowedHosts = parseAllowedHosts(env.PROXY_ALLOWED_HOSTS);
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        host,
       },
-      plugins: [react()],
+      preview: {
+        host,
+      },
+      plugins: [react(), ...(useProxy ? [geminiProxyPlugin(env.GEMINI_API_KEY, { allowedHosts })] : [])],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(clientKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(clientKey),
+        'process.env.API_PROXY_BASE': JSON.stringify(useProxy ? PROXY_PATH : ''),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER || ''),
+        'process.env.MODEL_ANALYSIS': JSON.stringify(env.MODEL_ANALYSIS || ''),
+        'process.env.MODEL_PROFILE': JSON.stringify(env.MODEL_PROFILE || ''),
+        'process.env.MODEL_STORYBOARD': JSON.stringify(env.MODEL_STORYBOARD || ''),
+        'process.env.MODEL_REFINE': JSON.stringify(env.MODEL_REFINE || ''),
+        'process.env.MODEL_IMAGE': JSON.stringify(env.MODEL_IMAGE || ''),
+        'process.env.MODEL_VIDEO_EXTENSION': JSON.stringify(env.MODEL_VIDEO_EXTENSION || '')
       },
       resolve: {
         alias: {